@@ -1,44 +1,79 @@
-import { useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useRouter } from "next/router";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
-import { Progress } from "@/components/ui/progress";
 import { useAppSelector, useAppDispatch } from "@/store/hooks";
-import { setTypeFilter } from "@/store/governanceSlice";
-import { Search } from "lucide-react";
+import {
+  loadGovernanceActions,
+  loadMoreGovernanceActions,
+  setEpochRange,
+  setSearchQuery,
+  setSort,
+  setStatusFilter,
+  setTypeFilter,
+} from "@/store/governanceSlice";
+import { addBasketItem, removeBasketItem } from "@/store/voteBasketSlice";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertCircle,
+  ArrowDown,
+  ArrowUp,
+  Loader2,
+  Search,
+  ShoppingBasket,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
 import { VoteButtons } from "@/components/governance/VoteButtons";
+import { VoteBasket } from "@/components/governance/VoteBasket";
+import { ThresholdProgress } from "@/components/governance/ThresholdProgress";
+import { RatificationVerdict } from "@/components/governance/RatificationStatus";
+import {
+  EpochTimeline,
+  isExpiringSoon,
+} from "@/components/governance/EpochTimeline";
+import {
+  getThresholdPercent,
+  getVoterBodies,
+  isVoterBodyApplicable,
+  parseProposalHash,
+} from "@/lib/governanceRules";
+import { filtersToUrlQuery } from "@/lib/proposalQuery";
+import { replaceQueryParams } from "@/lib/queryParams";
 import type {
   GovernanceAction,
+  GovernanceActionStatus,
   GovernanceActionType,
+  ProposalSortKey,
 } from "@/types/governance";
 
-/**
- * Parse proposal hash to extract txHash and certIndex
- */
-function parseProposalHash(hash: string): { txHash: string; certIndex: number } | null {
-  if (!hash) return null;
-
-  // Handle txHash:certIndex format (API format)
-  if (hash.includes(":")) {
-    const [txHash, certIndexStr] = hash.split(":");
-    const certIndex = parseInt(certIndexStr, 10);
-    if (txHash && !isNaN(certIndex)) {
-      return { txHash, certIndex };
-    }
-  }
+const STATUS_OPTIONS: GovernanceActionStatus[] = [
+  "All",
+  "Active",
+  "Ratified",
+  "Enacted",
+  "Expired",
+  "Closed",
+];
 
-  // Handle txHash#certIndex format (alternative format)
-  if (hash.includes("#")) {
-    const [txHash, certIndexStr] = hash.split("#");
-    const certIndex = parseInt(certIndexStr, 10);
-    if (txHash && !isNaN(certIndex)) {
-      return { txHash, certIndex };
-    }
-  }
+const SORT_LABELS: Record<ProposalSortKey, string> = {
+  submissionEpoch: "Submission Epoch",
+  expiryEpoch: "Expiry Epoch",
+  drepYesPercent: "DRep Yes %",
+};
+
+const SEARCH_DEBOUNCE_MS = 300;
 
-  return null;
+function parseEpochInput(value: string): number | null {
+  const epoch = parseInt(value, 10);
+  return isNaN(epoch) || epoch < 0 ? null : epoch;
 }
 
 function formatHash(hash: string): string {
@@ -46,95 +81,6 @@ function formatHash(hash: string): string {
   return `${hash.slice(0, 12)}...${hash.slice(-6)}`;
 }
 
-/**
- * Legacy governance actions with special voting rules (before gov_action1js2s9v92zpxg2rge0y3jt9zy626he2m67x9kx9phw4r942kvsn6sqfym0d7)
- * These have hardcoded exceptions that don't follow the standard type-based rules
- */
-const LEGACY_NON_APPLICABLE_DREP_ACTIONS = [
-  "gov_action1k2jertppnnndejjcglszfqq4yzw8evzrd2nt66rr6rqlz54xp0zsq05ecsn",
-  "gov_action1286ft23r7jem825s4l0y5rn8sgam0tz2ce04l7a38qmnhp3l9a6qqn850dw",
-  "gov_action1pvv5wmjqhwa4u85vu9f4ydmzu2mgt8n7et967ph2urhx53r70xusqnmm525", // Hard Fork - DRep not applicable
-];
-
-const LEGACY_NON_APPLICABLE_SPO_ACTIONS = [
-  "gov_action1k2jertppnnndejjcglszfqq4yzw8evzrd2nt66rr6rqlz54xp0zsq05ecsn",
-  "gov_action1286ft23r7jem825s4l0y5rn8sgam0tz2ce04l7a38qmnhp3l9a6qqn850dw",
-];
-
-const LEGACY_NON_APPLICABLE_CC_ACTIONS: string[] = [];
-
-/**
- * Governance action types where CC doesn't vote (threshold is null)
- * Based on VOTING_THRESHOLDS in proposalMapper.ts
- */
-const CC_NOT_APPLICABLE_TYPES = ["No Confidence", "Update Committee"];
-
-/**
- * Governance action types where SPO doesn't vote (threshold is null)
- * Based on VOTING_THRESHOLDS in proposalMapper.ts
- */
-const SPO_NOT_APPLICABLE_TYPES = [
-  "New Constitution",
-  "Protocol Parameter Change",
-  "Treasury Withdrawals",
-];
-
-function isLegacyAction(hash: string): boolean {
-  const legacyActions = [
-    ...LEGACY_NON_APPLICABLE_DREP_ACTIONS,
-    ...LEGACY_NON_APPLICABLE_SPO_ACTIONS,
-    ...LEGACY_NON_APPLICABLE_CC_ACTIONS,
-  ];
-  return legacyActions.some(
-    (actionId) => hash === actionId || hash.includes(actionId)
-  );
-}
-
-function isCcNotApplicable(action: GovernanceAction): boolean {
-  // Check legacy exceptions first
-  if (
-    LEGACY_NON_APPLICABLE_CC_ACTIONS.some(
-      (actionId) => action.hash === actionId || action.hash.includes(actionId)
-    )
-  ) {
-    return true;
-  }
-  // For non-legacy actions, use type-based rules
-  if (!isLegacyAction(action.hash)) {
-    return CC_NOT_APPLICABLE_TYPES.includes(action.type);
-  }
-  return false;
-}
-
-function isDrepNotApplicable(action: GovernanceAction): boolean {
-  // Check legacy exceptions first
-  if (
-    LEGACY_NON_APPLICABLE_DREP_ACTIONS.some(
-      (actionId) => action.hash === actionId || action.hash.includes(actionId)
-    )
-  ) {
-    return true;
-  }
-  // DRep always votes for all governance action types (no null threshold)
-  return false;
-}
-
-function isSpoNotApplicable(action: GovernanceAction): boolean {
-  // Check legacy exceptions first
-  if (
-    LEGACY_NON_APPLICABLE_SPO_ACTIONS.some(
-      (actionId) => action.hash === actionId || action.hash.includes(actionId)
-    )
-  ) {
-    return true;
-  }
-  // For non-legacy actions, use type-based rules
-  if (!isLegacyAction(action.hash)) {
-    return SPO_NOT_APPLICABLE_TYPES.includes(action.type);
-  }
-  return false;
-}
-
 function getStatusColor(status: GovernanceAction["status"]): string {
   switch (status) {
     case "Active":
@@ -154,24 +100,64 @@ function getStatusColor(status: GovernanceAction["status"]): string {
 
 export function GovernanceTable() {
   const router = useRouter();
+  // Updating the URL gives the router a new identity, so effects read it
+  // from a ref instead of re-running on it
+  const routerRef = useRef(router);
+  routerRef.current = router;
   const dispatch = useAppDispatch();
-  const [searchQuery, setSearchQuery] = useState("");
-  const actions = useAppSelector((state) => state.governance.actions);
-  const currentFilter = useAppSelector(
-    (state) => state.governance.filters.type
+  const {
+    actions,
+    filters,
+    hasLoadedActions,
+    nextCursor,
+    totalActions,
+    isLoadingActions,
+    isLoadingMoreActions,
+    actionsError,
+  } = useAppSelector((state) => state.governance);
+  const currentFilter = filters.type;
+  const basketItems = useAppSelector((state) => state.voteBasket.items);
+  const network = useAppSelector((state) => state.network.network);
+  const [searchInput, setSearchInput] = useState(filters.searchQuery);
+  const [fromEpochInput, setFromEpochInput] = useState(
+    filters.fromEpoch?.toString() ?? ""
+  );
+  const [toEpochInput, setToEpochInput] = useState(
+    filters.toEpoch?.toString() ?? ""
   );
 
-  const filteredActions = actions.filter((action) => {
-    // Filter by type
-    const matchesType = currentFilter === "All" || action.type === currentFilter;
+  // Last search this component dispatched, so typing isn't overwritten
+  const dispatchedSearchRef = useRef(filters.searchQuery);
+
+  // Keep the inputs in sync when filters are restored from the URL
+  useEffect(() => {
+    if (filters.searchQuery === dispatchedSearchRef.current) return;
+    dispatchedSearchRef.current = filters.searchQuery;
+    setSearchInput(filters.searchQuery);
+  }, [filters.searchQuery]);
 
-    // Filter by search query (title)
-    const matchesSearch =
-      searchQuery === "" ||
-      action.title.toLowerCase().includes(searchQuery.toLowerCase());
+  useEffect(() => {
+    setFromEpochInput(filters.fromEpoch?.toString() ?? "");
+    setToEpochInput(filters.toEpoch?.toString() ?? "");
+  }, [filters.fromEpoch, filters.toEpoch]);
 
-    return matchesType && matchesSearch;
-  });
+  // Search is applied server-side once typing pauses
+  useEffect(() => {
+    if (searchInput.trim() === filters.searchQuery.trim()) return;
+    const timeout = setTimeout(() => {
+      dispatchedSearchRef.current = searchInput;
+      dispatch(setSearchQuery(searchInput));
+      dispatch(loadGovernanceActions());
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [searchInput, filters.searchQuery, dispatch]);
+
+  // Mirror filters into the URL so the view can be shared
+  // Waits for the first load so the URL isn't overwritten before it's read
+  useEffect(() => {
+    if (!router.isReady || !hasLoadedActions) return;
+    replaceQueryParams(routerRef.current, filtersToUrlQuery(filters));
+  }, [filters, hasLoadedActions, router.isReady]);
 
   const handleRowClick = (hash: string) => {
     router.push(`/governance/${hash}`);
@@ -179,6 +165,59 @@ export function GovernanceTable() {
 
   const handleTabChange = (value: string) => {
     dispatch(setTypeFilter(value as GovernanceActionType));
+    dispatch(loadGovernanceActions());
+  };
+
+  const handleStatusChange = (value: string) => {
+    dispatch(setStatusFilter(value as GovernanceActionStatus));
+    dispatch(loadGovernanceActions());
+  };
+
+  const handleSortChange = (sort: ProposalSortKey) => {
+    dispatch(setSort({ sort, order: filters.order }));
+    dispatch(loadGovernanceActions());
+  };
+
+  const toggleSortOrder = () => {
+    dispatch(
+      setSort({
+        sort: filters.sort,
+        order: filters.order === "asc" ? "desc" : "asc",
+      })
+    );
+    dispatch(loadGovernanceActions());
+  };
+
+  const applyEpochRange = () => {
+    const fromEpoch = parseEpochInput(fromEpochInput);
+    const toEpoch = parseEpochInput(toEpochInput);
+    if (fromEpoch === filters.fromEpoch && toEpoch === filters.toEpoch) return;
+    if (fromEpoch !== null && toEpoch !== null && fromEpoch > toEpoch) return;
+    dispatch(setEpochRange({ fromEpoch, toEpoch }));
+    dispatch(loadGovernanceActions());
+  };
+
+  const toggleBasketItem = (
+    action: GovernanceAction,
+    parsed: { txHash: string; certIndex: number },
+    e: React.MouseEvent
+  ) => {
+    e.stopPropagation(); // Prevent card click
+    if (basketItems.some((item) => item.actionHash === action.hash)) {
+      dispatch(removeBasketItem(action.hash));
+      return;
+    }
+    dispatch(
+      addBasketItem({
+        actionHash: action.hash,
+        txHash: parsed.txHash,
+        certIndex: parsed.certIndex,
+        title: action.title,
+        vote: "Yes",
+        anchorUrl: "",
+        voterRoles: getVoterBodies(action),
+      })
+    );
   };
 
   return (
@@ -191,15 +230,90 @@ export function GovernanceTable() {
         </p>
       </div>
 
-      {/* Search Input */}
-      <div className="relative max-w-md">
-        <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-        <Input
-          placeholder="Search by proposal title..."
-          value={searchQuery}
-          onChange={(e) => setSearchQuery(e.target.value)}
-          className="pl-10"
-        />
+      {/* Batch voting basket */}
+      <VoteBasket />
+
+      <div className="flex flex-wrap items-center gap-3">
+        {/* Search Input */}
+        <div className="relative flex-1 min-w-[240px] max-w-md">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by proposal title..."
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+
+        {/* Status Filter */}
+        <Select value={filters.status} onValueChange={handleStatusChange}>
+          <SelectTrigger className="w-[150px]">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {STATUS_OPTIONS.map((status) => (
+              <SelectItem key={status} value={status}>
+                {status === "All" ? "All Statuses" : status}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+
+        {/* Epoch Range */}
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={0}
+            placeholder="From epoch"
+            value={fromEpochInput}
+            onChange={(e) => setFromEpochInput(e.target.value)}
+            onBlur={applyEpochRange}
+            onKeyDown={(e) => e.key === "Enter" && applyEpochRange()}
+            className="w-[120px]"
+          />
+          <span className="text-muted-foreground">–</span>
+          <Input
+            type="number"
+            min={0}
+            placeholder="To epoch"
+            value={toEpochInput}
+            onChange={(e) => setToEpochInput(e.target.value)}
+            onBlur={applyEpochRange}
+            onKeyDown={(e) => e.key === "Enter" && applyEpochRange()}
+            className="w-[120px]"
+          />
+        </div>
+
+        {/* Sort */}
+        <div className="flex items-center gap-1">
+          <Select
+            value={filters.sort}
+            onValueChange={(value) => handleSortChange(value as ProposalSortKey)}
+          >
+            <SelectTrigger className="w-[170px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(SORT_LABELS) as ProposalSortKey[]).map((key) => (
+                <SelectItem key={key} value={key}>
+                  {SORT_LABELS[key]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={toggleSortOrder}
+            title={filters.order === "asc" ? "Ascending" : "Descending"}
+          >
+            {filters.order === "asc" ? (
+              <ArrowUp className="h-4 w-4" />
+            ) : (
+              <ArrowDown className="h-4 w-4" />
+            )}
+          </Button>
+        </div>
       </div>
 
       <Tabs
@@ -259,17 +373,26 @@ export function GovernanceTable() {
         </TabsList>
 
         <TabsContent value={currentFilter} className="mt-6 space-y-4">
-          {filteredActions.length === 0 ? (
+          {isLoadingActions ? (
+            <Card className="p-12">
+              <div className="flex items-center justify-center text-muted-foreground">
+                <Loader2 className="h-5 w-5 mr-2 animate-spin" />
+                Loading governance actions...
+              </div>
+            </Card>
+          ) : actions.length === 0 ? (
             <Card className="p-12">
               <p className="text-center text-muted-foreground">
                 No governance actions found
               </p>
             </Card>
           ) : (
-            filteredActions.map((action) => (
+            actions.map((action) => (
               <Card
                 key={action.hash}
-                className="p-6 hover:border-primary/50 transition-all duration-300 cursor-pointer"
+                className={`p-6 hover:border-primary/50 transition-all duration-300 cursor-pointer ${
+                  isExpiringSoon(action, network) ? "border-amber-500/50" : ""
+                }`}
                 onClick={() => handleRowClick(action.hash)}
               >
                 <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
@@ -285,6 +408,7 @@ export function GovernanceTable() {
                       <Badge variant="outline" className="bg-secondary/50">
                         {action.type}
                       </Badge>
+                      <RatificationVerdict action={action} />
                     </div>
                     <h3 className="text-lg font-semibold">{action.title}</h3>
                     <p className="text-xs text-muted-foreground font-mono">
@@ -294,7 +418,7 @@ export function GovernanceTable() {
 
                   {/* CC Votes - 2 columns */}
                   <div
-                    className={`lg:col-span-2 space-y-2 ${isCcNotApplicable(action) ? "opacity-30 blur-[1px]" : ""}`}
+                    className={`lg:col-span-2 space-y-2 ${!isVoterBodyApplicable(action, "CC") ? "opacity-30 blur-[1px]" : ""}`}
                   >
                     {action.ccYesPercent !== undefined ? (
                       <>
@@ -310,9 +434,10 @@ export function GovernanceTable() {
                               ({action.ccYesCount || 0})
                             </span>
                           </div>
-                          <Progress
+                          <ThresholdProgress
                             value={action.ccYesPercent}
-                            className="h-2 bg-secondary"
+                            threshold={getThresholdPercent(action, "CC")}
+                            className="h-2"
                           />
                         </div>
                         <div className="flex justify-between text-xs text-muted-foreground">
@@ -336,7 +461,7 @@ export function GovernanceTable() {
 
                   {/* DRep Votes - 2 columns */}
                   <div
-                    className={`lg:col-span-2 space-y-2 ${isDrepNotApplicable(action) ? "opacity-30 blur-[1px]" : ""}`}
+                    className={`lg:col-span-2 space-y-2 ${!isVoterBodyApplicable(action, "DRep") ? "opacity-30 blur-[1px]" : ""}`}
                   >
                     <div className="text-sm font-medium text-muted-foreground">
                       DRep Votes
@@ -350,9 +475,10 @@ export function GovernanceTable() {
                           {action.drepYesAda} ₳
                         </span>
                       </div>
-                      <Progress
+                      <ThresholdProgress
                         value={action.drepYesPercent}
-                        className="h-2 bg-secondary"
+                        threshold={getThresholdPercent(action, "DRep")}
+                        className="h-2"
                       />
                     </div>
                     <div className="flex justify-between text-xs text-muted-foreground">
@@ -363,7 +489,7 @@ export function GovernanceTable() {
 
                   {/* SPO Votes - 2 columns */}
                   <div
-                    className={`lg:col-span-2 space-y-2 ${isSpoNotApplicable(action) ? "opacity-30 blur-[1px]" : ""}`}
+                    className={`lg:col-span-2 space-y-2 ${!isVoterBodyApplicable(action, "SPO") ? "opacity-30 blur-[1px]" : ""}`}
                   >
                     {action.spoYesPercent !== undefined ? (
                       <>
@@ -379,9 +505,10 @@ export function GovernanceTable() {
                               {action.spoYesAda || "0"} ₳
                             </span>
                           </div>
-                          <Progress
+                          <ThresholdProgress
                             value={action.spoYesPercent}
-                            className="h-2 bg-secondary"
+                            threshold={getThresholdPercent(action, "SPO")}
+                            className="h-2"
                           />
                         </div>
                         <div className="flex justify-between text-xs text-muted-foreground">
@@ -424,22 +551,36 @@ export function GovernanceTable() {
                 {/* Footer */}
                 <div className="mt-4 pt-4 border-t border-border/50 flex flex-wrap items-center justify-between gap-4">
                   <div className="text-xs text-muted-foreground space-x-4">
-                    <span>Submission: Epoch {action.submissionEpoch}</span>
-                    <span>Expiry: Epoch {action.expiryEpoch}</span>
+                    <EpochTimeline action={action} />
                   </div>
 
                   {/* Voting buttons for active proposals */}
                   {action.status === "Active" && (() => {
                     const parsed = parseProposalHash(action.hash);
                     if (parsed) {
+                      const inBasket = basketItems.some(
+                        (item) => item.actionHash === action.hash
+                      );
                       return (
-                        <VoteButtons
-                          txHash={parsed.txHash}
-                          certIndex={parsed.certIndex}
-                          proposalTitle={action.title}
-                          status={action.status}
-                          compact
-                        />
+                        <div className="flex flex-wrap items-center gap-2">
+                          <VoteButtons
+                            txHash={parsed.txHash}
+                            certIndex={parsed.certIndex}
+                            proposalId={action.hash}
+                            proposalTitle={action.title}
+                            status={action.status}
+                            voterRoles={getVoterBodies(action)}
+                            compact
+                          />
+                          <Button
+                            size="sm"
+                            variant={inBasket ? "default" : "outline"}
+                            onClick={(e) => toggleBasketItem(action, parsed, e)}
+                          >
+                            <ShoppingBasket className="h-4 w-4 mr-1" />
+                            {inBasket ? "In Basket" : "Add to Basket"}
+                          </Button>
+                        </div>
                       );
                     }
                     return null;
@@ -448,6 +589,38 @@ export function GovernanceTable() {
               </Card>
             ))
           )}
+
+          {actionsError && (
+            <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{actionsError}</span>
+            </div>
+          )}
+
+          {/* Pagination */}
+          {!isLoadingActions && actions.length > 0 && (
+            <div className="flex flex-col items-center gap-2 pt-2">
+              <p className="text-xs text-muted-foreground">
+                Showing {actions.length} of {totalActions} governance actions
+              </p>
+              {nextCursor && (
+                <Button
+                  variant="outline"
+                  onClick={() => dispatch(loadMoreGovernanceActions())}
+                  disabled={isLoadingMoreActions}
+                >
+                  {isLoadingMoreActions ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Loading...
+                    </>
+                  ) : (
+                    "Load More"
+                  )}
+                </Button>
+              )}
+            </div>
+          )}
         </TabsContent>
       </Tabs>
     </div>
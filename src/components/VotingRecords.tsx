@@ -1,4 +1,6 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
+import { useRouter } from "next/router";
+import Link from "next/link";
 import { Card } from "@/components/ui/card";
 import {
   Table,
@@ -27,15 +29,62 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import type { VoteRecord } from "@/types/governance";
-import { Search, ExternalLink, FileText } from "lucide-react";
+import {
+  AnchorStatusBadge,
+  RationaleDocumentView,
+} from "@/components/governance";
+import { fetchAnchorContent, fetchProposalVotes } from "@/services/api";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { setVoteFilter } from "@/store/governanceSlice";
+import { getQueryParam, replaceQueryParams } from "@/lib/queryParams";
+import { toViewableAnchorUrl, verifyAnchorContent } from "@/lib/anchor";
+import type {
+  AnchorVerificationStatus,
+  VotePage,
+  VoteQuery,
+  VoteRecord,
+  VoterType,
+  VoteType,
+} from "@/types/governance";
+import {
+  AlertCircle,
+  ExternalLink,
+  FileText,
+  Loader2,
+  Search,
+} from "lucide-react";
 
 interface VotingRecordsProps {
-  votes: VoteRecord[];
-  ccVotes?: VoteRecord[];
+  proposalId: string;
   proposalStatus?: "Active" | "Ratified" | "Enacted" | "Expired" | "Closed";
+  // Changes when the proposal detail is refreshed, e.g. after a vote is synced
+  refreshKey?: number;
 }
 
+// Fixed row height lets the table render only the rows in view
+const ROW_HEIGHT = 72;
+const VIEWPORT_HEIGHT = 600;
+const OVERSCAN = 8;
+const PAGE_SIZE = 50;
+const SEARCH_DEBOUNCE_MS = 300;
+
+const VOTE_FILTERS: VoteType[] = ["All", "Yes", "No", "Abstain"];
+const VOTER_TYPE_FILTERS = ["all", "DRep", "SPO", "CC"];
+const RATIONALE_FILTERS = ["all", "verified"];
+
+// Rationale documents checked in parallel while votes load
+const RATIONALE_CHECK_CONCURRENCY = 4;
+// Completed checks kept for reuse; failed ones are retried on next view
+const MAX_CACHED_RATIONALE_CHECKS = 500;
+const RATIONALE_CHECK_TTL_MS = 10 * 60_000;
+
+// A rationale that can't be fetched is missing from the reader's point of view
+const RATIONALE_STATUS_LABELS: Record<AnchorVerificationStatus, string> = {
+  verified: "Verified",
+  mismatch: "Tampered",
+  unreachable: "Missing",
+};
+
 /**
  * Convert lovelace string to formatted ADA string
  * 1 ADA = 1,000,000 lovelace
@@ -50,6 +99,17 @@ function lovelaceToAda(lovelace: string | number): string {
   }).format(adaValue);
 }
 
+// Get display name and ID for a vote record
+function getVoterDisplayName(vote: VoteRecord): string {
+  return (
+    vote.voterName || vote.drepName || vote.voterId || vote.drepId || "Unknown"
+  );
+}
+
+function getVoterDisplayId(vote: VoteRecord): string {
+  return vote.voterId || vote.drepId || "";
+}
+
 function getVoteBadgeClasses(vote: VoteRecord["vote"]): string {
   switch (vote) {
     case "Yes":
@@ -77,127 +137,182 @@ function getVoterTypeBadgeClasses(voterType: string): string {
 }
 
 /**
- * Extract readable text from a JSON object
- * Looks for common text fields and concatenates them
+ * Rows in view plus overscan; spacer rows stand in for the rest
+ * @returns start and end index, end exclusive
  */
-function extractTextFromObject(obj: Record<string, unknown>): string {
-  // Priority fields that typically contain the main rationale text
-  const textFields = [
-    "comment",
-    "rationale",
-    "reason",
-    "motivation",
-    "body",
-    "text",
-    "content",
-    "description",
-    "summary",
-  ];
-
-  for (const field of textFields) {
-    if (obj[field] && typeof obj[field] === "string") {
-      return obj[field] as string;
-    }
-  }
+function getVisibleRange(
+  scrollTop: number,
+  rowCount: number
+): [number, number] {
+  const start = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const end = Math.min(
+    rowCount,
+    Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN
+  );
+  return [start, end];
+}
 
-  // If no text field found, try to find any string value
-  for (const value of Object.values(obj)) {
-    if (typeof value === "string" && value.length > 50) {
-      return value;
-    }
-  }
+interface RationaleCheck {
+  // null when the vote carries no anchor hash to compare against
+  status: AnchorVerificationStatus | null;
+  rawText: string | null;
+  error: string | null;
+}
 
-  // Fallback: return a formatted representation
-  return "Unable to extract rationale text from the source.";
+interface CachedRationaleCheck {
+  check: Promise<RationaleCheck>;
+  expiresAt: number;
+}
+
+// Checks are shared by table rows and rationale dialogs, keyed by hash and URL
+// Map keeps insertion order, and hits are re-inserted, so it evicts as an LRU
+const rationaleChecks = new Map<string, CachedRationaleCheck>();
+
+function getRationaleKey(vote: VoteRecord): string | null {
+  if (!vote.anchorUrl || !vote.anchorHash) return null;
+  return `${vote.anchorHash}:${vote.anchorUrl}`;
 }
 
 /**
- * Convert IPFS URL to HTTP gateway URL
- * Handles ipfs:// protocol URLs and converts them to a public gateway
+ * Fetch a rationale document and compare its Blake2b-256 hash with the
+ * anchor hash recorded with the vote
  */
-function toFetchableUrl(url: string): string {
-  if (url.startsWith("ipfs://")) {
-    const cid = url.replace("ipfs://", "");
-    return `https://ipfs.io/ipfs/${cid}`;
+function checkRationale(
+  anchorUrl: string,
+  anchorHash?: string
+): Promise<RationaleCheck> {
+  const key = `${anchorHash ?? ""}:${anchorUrl}`;
+  const cached = rationaleChecks.get(key);
+  rationaleChecks.delete(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    rationaleChecks.set(key, cached);
+    return cached.check;
+  }
+
+  const check: Promise<RationaleCheck> = fetchAnchorContent(
+    anchorUrl,
+    anchorHash
+  )
+    .then(
+      (content): RationaleCheck => ({
+        status: anchorHash
+          ? verifyAnchorContent(content, anchorHash).status
+          : null,
+        rawText: new TextDecoder().decode(content),
+        error: null,
+      })
+    )
+    .catch((err): RationaleCheck => {
+      // Hosts may be down only briefly, so a failure is not remembered
+      if (rationaleChecks.get(key)?.check === check) {
+        rationaleChecks.delete(key);
+      }
+      return {
+        status: anchorHash ? "unreachable" : null,
+        rawText: null,
+        error: err instanceof Error ? err.message : "Failed to load rationale",
+      };
+    });
+  rationaleChecks.set(key, {
+    check,
+    expiresAt: Date.now() + RATIONALE_CHECK_TTL_MS,
+  });
+  if (rationaleChecks.size > MAX_CACHED_RATIONALE_CHECKS) {
+    const oldest = rationaleChecks.keys().next().value;
+    if (oldest !== undefined) rationaleChecks.delete(oldest);
   }
-  return url;
+  return check;
 }
 
 /**
- * Convert URL to a viewable format for external links
- * For ipfs:// URLs, converts to gateway URL
+ * Verification status of the given votes' rationales, keyed by getRationaleKey
+ * Statuses of votes checked earlier are kept; votes without a rationale have
+ * no entry
  */
-function toViewableUrl(url: string): string {
-  return toFetchableUrl(url);
+function useRationaleStatuses(
+  votes: VoteRecord[]
+): Record<string, AnchorVerificationStatus> {
+  const [statuses, setStatuses] = useState<
+    Record<string, AnchorVerificationStatus>
+  >({});
+  // Rows keep their status while scrolling, so failures aren't re-fetched
+  // on every scroll step; the rationale dialog retries them
+  const statusesRef = useRef(statuses);
+  statusesRef.current = statuses;
+  // Scrolling yields new arrays of the same rows, which must not restart
+  // checks, so the effect runs on their keys and reads the rows from a ref
+  const votesRef = useRef(votes);
+  votesRef.current = votes;
+  const votesKey = votes.map((vote) => getRationaleKey(vote) ?? "").join("|");
+
+  useEffect(() => {
+    let cancelled = false;
+    const queue = Array.from(
+      new Map(
+        votesRef.current.flatMap((vote) => {
+          const key = getRationaleKey(vote);
+          return key && !statusesRef.current[key] ? [[key, vote] as const] : [];
+        })
+      ).entries()
+    );
+
+    // Already checked rationales resolve from the cache straight away
+    const worker = async () => {
+      for (let next = queue.shift(); next && !cancelled; next = queue.shift()) {
+        const [key, vote] = next;
+        const { status } = await checkRationale(
+          vote.anchorUrl!,
+          vote.anchorHash
+        );
+        if (cancelled || !status) continue;
+        setStatuses((prev) =>
+          prev[key] === status ? prev : { ...prev, [key]: status }
+        );
+      }
+    };
+    for (let i = 0; i < RATIONALE_CHECK_CONCURRENCY; i++) {
+      worker();
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [votesKey]);
+
+  return statuses;
 }
 
 /**
  * Component to fetch and display rationale content from anchor URL
+ * Warns when the document doesn't match the vote's anchor hash
  */
-function RationaleContent({ anchorUrl }: { anchorUrl: string }) {
-  const [content, setContent] = useState<string | null>(null);
+function RationaleContent({
+  anchorUrl,
+  anchorHash,
+}: {
+  anchorUrl: string;
+  anchorHash?: string;
+}) {
+  const [rawText, setRawText] = useState<string | null>(null);
+  const [status, setStatus] = useState<AnchorVerificationStatus | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
   useEffect(() => {
-    async function fetchRationale() {
-      setIsLoading(true);
-      setError(null);
-
-      try {
-        const fetchUrl = toFetchableUrl(anchorUrl);
-        const response = await fetch(fetchUrl);
-        if (!response.ok) {
-          throw new Error(`Failed to fetch rationale: ${response.status}`);
-        }
-
-        const rawText = await response.text();
-        let text: string;
-
-        // Try to parse as JSON first
-        try {
-          const json = JSON.parse(rawText);
-
-          // Extract the rationale text from common JSON formats
-          if (typeof json === "string") {
-            text = json;
-          } else if (json.body?.comment) {
-            // CIP-100 format with nested comment
-            text = json.body.comment;
-          } else if (json.body) {
-            text = typeof json.body === "string" ? json.body : extractTextFromObject(json.body);
-          } else if (json.comment) {
-            text = json.comment;
-          } else if (json.rationale) {
-            text = json.rationale;
-          } else if (json.reason) {
-            text = json.reason;
-          } else if (json.motivation) {
-            text = json.motivation;
-          } else {
-            // Try to extract any text-like field from the object
-            text = extractTextFromObject(json);
-          }
-        } catch {
-          // Not JSON, use raw text
-          text = rawText;
-        }
-
-        // Clean up the text: convert \n to actual line breaks
-        text = text.replace(/\\n/g, "\n");
-
-        setContent(text);
-      } catch (err) {
-        setError(
-          err instanceof Error ? err.message : "Failed to load rationale"
-        );
-      } finally {
-        setIsLoading(false);
-      }
-    }
-
-    fetchRationale();
-  }, [anchorUrl]);
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+
+    checkRationale(anchorUrl, anchorHash).then((check) => {
+      if (cancelled) return;
+      setStatus(check.status);
+      setError(check.error);
+      setRawText(check.rawText);
+      setIsLoading(false);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [anchorUrl, anchorHash]);
 
   if (isLoading) {
     return (
@@ -221,75 +336,354 @@ function RationaleContent({ anchorUrl }: { anchorUrl: string }) {
   }
 
   return (
-    <div className="text-sm text-muted-foreground whitespace-pre-wrap">
-      {content || "No rationale content available."}
+    <div className="space-y-4">
+      {status === "mismatch" && (
+        <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+          <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>
+            This document does not match the hash recorded with the vote. It may
+            have been changed after the vote was cast.
+          </span>
+        </div>
+      )}
+      {rawText?.trim() ? (
+        <RationaleDocumentView rawText={rawText} />
+      ) : (
+        <div className="text-sm text-muted-foreground">
+          No rationale content available.
+        </div>
+      )}
     </div>
   );
 }
 
-export function VotingRecords({ votes, ccVotes = [], proposalStatus }: VotingRecordsProps) {
+/**
+ * Single vote record row with its rationale dialog
+ * rationaleStatus is undefined while the rationale is still being checked
+ */
+function VoteRow({
+  vote,
+  rationaleStatus,
+}: {
+  vote: VoteRecord;
+  rationaleStatus?: AnchorVerificationStatus;
+}) {
+  const isCC = vote.voterType === "CC";
+  const voterName = getVoterDisplayName(vote);
+  const voterId = getVoterDisplayId(vote);
+
+  return (
+    <TableRow className="hover:bg-muted/50" style={{ height: ROW_HEIGHT }}>
+      <TableCell>
+        <div>
+          {vote.voterType === "DRep" && voterId ? (
+            <Link
+              href={`/drep/${encodeURIComponent(voterId)}`}
+              className="font-semibold hover:underline"
+            >
+              {voterName}
+            </Link>
+          ) : (
+            <div className="font-semibold">{voterName}</div>
+          )}
+          <div className="text-xs text-muted-foreground font-mono">
+            {voterId.slice(0, 20)}...
+          </div>
+        </div>
+      </TableCell>
+      <TableCell>
+        <Badge
+          variant="outline"
+          className={getVoterTypeBadgeClasses(vote.voterType || "")}
+        >
+          {vote.voterType || "Unknown"}
+        </Badge>
+      </TableCell>
+      <TableCell>
+        <Badge variant="outline" className={getVoteBadgeClasses(vote.vote)}>
+          {vote.vote}
+        </Badge>
+      </TableCell>
+      <TableCell>
+        {!isCC ? (
+          <div className="font-semibold">
+            {lovelaceToAda(vote.votingPower)} ADA
+          </div>
+        ) : (
+          <span className="text-xs text-muted-foreground">N/A</span>
+        )}
+      </TableCell>
+      <TableCell className="text-sm text-muted-foreground">
+        {new Date(vote.votedAt).toLocaleDateString()}
+      </TableCell>
+      <TableCell className="text-right">
+        {vote.anchorUrl ? (
+          <div className="flex items-center justify-end gap-2">
+            {rationaleStatus ? (
+              <AnchorStatusBadge
+                status={rationaleStatus}
+                label={RATIONALE_STATUS_LABELS[rationaleStatus]}
+              />
+            ) : (
+              vote.anchorHash && (
+                <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />
+              )
+            )}
+            <Dialog>
+              <DialogTrigger asChild>
+                <Button size="sm" variant="ghost">
+                  <FileText className="h-4 w-4 mr-1" />
+                  View
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-3xl max-h-[80vh]">
+                <DialogHeader>
+                  <DialogTitle>Voting Rationale - {voterName}</DialogTitle>
+                  <DialogDescription>
+                    View the detailed reasoning for this vote
+                  </DialogDescription>
+                </DialogHeader>
+                <ScrollArea className="h-[500px] w-full rounded-md border p-4">
+                  <div className="space-y-4">
+                    <div className="flex items-center justify-between mb-4">
+                      <Badge
+                        variant="outline"
+                        className={getVoteBadgeClasses(vote.vote)}
+                      >
+                        {vote.vote}
+                      </Badge>
+                      <a
+                        href={toViewableAnchorUrl(vote.anchorUrl!) ?? undefined}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-primary hover:underline text-sm flex items-center gap-1"
+                      >
+                        <ExternalLink className="h-3 w-3" />
+                        Original Source
+                      </a>
+                    </div>
+                    <RationaleContent
+                      anchorUrl={vote.anchorUrl!}
+                      anchorHash={vote.anchorHash}
+                    />
+                  </div>
+                </ScrollArea>
+              </DialogContent>
+            </Dialog>
+            <a
+              href={toViewableAnchorUrl(vote.anchorUrl!) ?? undefined}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-primary hover:underline"
+            >
+              <ExternalLink className="h-4 w-4" />
+            </a>
+          </div>
+        ) : (
+          <span className="text-xs text-muted-foreground">No rationale</span>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+}
+
+/**
+ * Paginated vote records for a governance action
+ * Filtering happens server-side, apart from the verified rationale filter
+ * over loaded votes; the table only renders the rows in view
+ */
+export function VotingRecords({
+  proposalId,
+  proposalStatus,
+  refreshKey,
+}: VotingRecordsProps) {
+  const router = useRouter();
+  const dispatch = useAppDispatch();
+  const voteFilter = useAppSelector(
+    (state) => state.governance.filters.voteFilter
+  );
+  const [searchInput, setSearchInput] = useState("");
   const [searchQuery, setSearchQuery] = useState("");
-  const [voteFilter, setVoteFilter] = useState<string>("all");
   const [voterTypeFilter, setVoterTypeFilter] = useState<string>("all");
+  // Applied to loaded votes only; rationales are checked in the browser
+  const [rationaleFilter, setRationaleFilter] = useState<string>("all");
+  // Filters are read from the URL once before the first request
+  const [filtersRestored, setFiltersRestored] = useState(false);
+  const [votes, setVotes] = useState<VoteRecord[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [voteStats, setVoteStats] = useState<VotePage["counts"]>({
+    total: 0,
+    yes: 0,
+    no: 0,
+    abstain: 0,
+  });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  // Ignores responses from superseded requests
+  const requestIdRef = useRef(0);
+  // The router changes identity on every navigation, including the URL
+  // updates below, so those read it from a ref
+  const routerRef = useRef(router);
+  routerRef.current = router;
 
   // Note: proposalStatus is available for future use (e.g., showing that votes
   // on expired proposals are historical)
   // Currently not used in the UI
   void proposalStatus; // Suppress unused variable warning
 
-  // Combine all votes into a single array
-  const allVotes = [...votes, ...ccVotes];
-
-  // Get unique voter types from the data
-  const availableVoterTypes = Array.from(
-    new Set(allVotes.map((v) => v.voterType).filter(Boolean))
-  ) as string[];
-
-  const filteredVotes = allVotes
-    .filter((vote) => {
-      const matchesSearch =
-        searchQuery === "" ||
-        vote.drepName?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        vote.drepId?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        vote.voterId?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        vote.voterName?.toLowerCase().includes(searchQuery.toLowerCase());
-
-      const matchesVote =
-        voteFilter === "all" || vote.vote.toLowerCase() === voteFilter;
-
-      const matchesVoterType =
-        voterTypeFilter === "all" || vote.voterType === voterTypeFilter;
-
-      return matchesSearch && matchesVote && matchesVoterType;
-    })
-    // Sort by votedAt descending (latest first)
-    .sort((a, b) => {
-      const dateA = a.votedAt ? new Date(a.votedAt).getTime() : 0;
-      const dateB = b.votedAt ? new Date(b.votedAt).getTime() : 0;
-      return dateB - dateA;
+  // Restore filters from the URL (votesSearch, vote, voterType, rationale)
+  useEffect(() => {
+    if (!router.isReady || filtersRestored) return;
+    const search = getQueryParam(router.query, "votesSearch") ?? "";
+    const vote = getQueryParam(router.query, "vote") as VoteType | undefined;
+    const voterType = getQueryParam(router.query, "voterType");
+    const rationale = getQueryParam(router.query, "rationale");
+
+    setSearchInput(search);
+    setSearchQuery(search.trim());
+    dispatch(setVoteFilter(vote && VOTE_FILTERS.includes(vote) ? vote : "All"));
+    setVoterTypeFilter(
+      voterType && VOTER_TYPE_FILTERS.includes(voterType) ? voterType : "all"
+    );
+    setRationaleFilter(
+      rationale && RATIONALE_FILTERS.includes(rationale) ? rationale : "all"
+    );
+    setFiltersRestored(true);
+  }, [router.isReady, router.query, filtersRestored, dispatch]);
+
+  // Mirror filters into the URL so the view can be shared
+  useEffect(() => {
+    if (!filtersRestored) return;
+    replaceQueryParams(routerRef.current, {
+      votesSearch: searchQuery || undefined,
+      vote: voteFilter !== "All" ? voteFilter : undefined,
+      voterType: voterTypeFilter !== "all" ? voterTypeFilter : undefined,
+      rationale: rationaleFilter !== "all" ? rationaleFilter : undefined,
     });
+  }, [
+    filtersRestored,
+    searchQuery,
+    voteFilter,
+    voterTypeFilter,
+    rationaleFilter,
+  ]);
+
+  // Debounce search so typing doesn't fire a request per keystroke
+  useEffect(() => {
+    const timeout = setTimeout(
+      () => setSearchQuery(searchInput.trim()),
+      SEARCH_DEBOUNCE_MS
+    );
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
+
+  const query = useMemo<VoteQuery>(
+    () => ({
+      limit: PAGE_SIZE,
+      search: searchQuery || undefined,
+      vote: voteFilter === "All" ? undefined : voteFilter,
+      voterType:
+        voterTypeFilter === "all" ? undefined : (voterTypeFilter as VoterType),
+    }),
+    [searchQuery, voteFilter, voterTypeFilter]
+  );
 
-  const voteStats = {
-    total: allVotes.length,
-    yes: allVotes.filter((v) => v.vote === "Yes").length,
-    no: allVotes.filter((v) => v.vote === "No").length,
-    abstain: allVotes.filter((v) => v.vote === "Abstain").length,
+  // Load the first page whenever the filters change
+  useEffect(() => {
+    if (!filtersRestored) return;
+    const requestId = ++requestIdRef.current;
+    setIsLoading(true);
+    setError(null);
+
+    fetchProposalVotes(proposalId, query)
+      .then((page) => {
+        if (requestId !== requestIdRef.current) return;
+        setVotes(page.items);
+        setNextCursor(page.nextCursor);
+        setTotal(page.total);
+        setVoteStats(page.counts);
+        setScrollTop(0);
+        scrollRef.current?.scrollTo({ top: 0 });
+      })
+      .catch((err) => {
+        if (requestId !== requestIdRef.current) return;
+        console.error("Failed to load votes:", err);
+        setError(err instanceof Error ? err.message : "Failed to load votes");
+      })
+      .finally(() => {
+        if (requestId === requestIdRef.current) setIsLoading(false);
+      });
+  }, [filtersRestored, proposalId, query, refreshKey]);
+
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoading || isLoadingMore) return;
+    const requestId = requestIdRef.current;
+    setIsLoadingMore(true);
+    try {
+      const page = await fetchProposalVotes(proposalId, {
+        ...query,
+        cursor: nextCursor,
+      });
+      if (requestId !== requestIdRef.current) return;
+      setVotes((prev) => [...prev, ...page.items]);
+      setNextCursor(page.nextCursor);
+      setTotal(page.total);
+    } catch (err) {
+      console.error("Failed to load more votes:", err);
+      setError(err instanceof Error ? err.message : "Failed to load votes");
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor, isLoading, isLoadingMore, proposalId, query]);
+
+  // Only rows in view are checked; the verified filter checks every loaded
+  // row, and as rationales are verified in the browser it only ever covers
+  // loaded votes, so it loads further pages on request only
+  const isVerifiedFilter = rationaleFilter === "verified";
+  const votesToCheck = isVerifiedFilter
+    ? votes
+    : votes.slice(...getVisibleRange(scrollTop, votes.length));
+  const rationaleStatuses = useRationaleStatuses(votesToCheck);
+  const getRationaleStatus = (vote: VoteRecord) => {
+    const key = getRationaleKey(vote);
+    return key ? rationaleStatuses[key] : undefined;
   };
+  const displayedVotes = isVerifiedFilter
+    ? votes.filter((vote) => getRationaleStatus(vote) === "verified")
+    : votes;
 
-  // Get display name and ID for a vote record
-  const getVoterDisplayName = (vote: VoteRecord): string => {
-    return (
-      vote.voterName ||
-      vote.drepName ||
-      vote.voterId ||
-      vote.drepId ||
-      "Unknown"
-    );
-  };
+  const [startIndex, endIndex] = getVisibleRange(
+    scrollTop,
+    displayedVotes.length
+  );
+  const visibleVotes = displayedVotes.slice(startIndex, endIndex);
+  const isCheckingRationales = votesToCheck.some(
+    (vote) => getRationaleKey(vote) && !getRationaleStatus(vote)
+  );
 
-  const getVoterDisplayId = (vote: VoteRecord): string => {
-    return vote.voterId || vote.drepId || "";
-  };
+  // Fetch the next page as the user scrolls near the end; after a failed
+  // page it waits for the filters to change instead of retrying in a loop
+  useEffect(() => {
+    if (
+      !isVerifiedFilter &&
+      !error &&
+      endIndex >= displayedVotes.length - OVERSCAN &&
+      nextCursor
+    ) {
+      loadMore();
+    }
+  }, [
+    isVerifiedFilter,
+    error,
+    endIndex,
+    displayedVotes.length,
+    nextCursor,
+    loadMore,
+  ]);
 
   return (
     <div className="space-y-6">
@@ -325,13 +719,13 @@ export function VotingRecords({ votes, ccVotes = [], proposalStatus }: VotingRec
 
       {/* Filters */}
       <Card className="p-4">
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <div className="relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
             <Input
               placeholder="Search by name or ID..."
-              value={searchQuery}
-              onChange={(e) => setSearchQuery(e.target.value)}
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
               className="pl-10"
             />
           </div>
@@ -341,36 +735,65 @@ export function VotingRecords({ votes, ccVotes = [], proposalStatus }: VotingRec
             </SelectTrigger>
             <SelectContent>
               <SelectItem value="all">All Voter Types</SelectItem>
-              {availableVoterTypes.includes("DRep") && (
-                <SelectItem value="DRep">DRep</SelectItem>
-              )}
-              {availableVoterTypes.includes("SPO") && (
-                <SelectItem value="SPO">SPO</SelectItem>
-              )}
-              {availableVoterTypes.includes("CC") && (
-                <SelectItem value="CC">CC</SelectItem>
-              )}
+              <SelectItem value="DRep">DRep</SelectItem>
+              <SelectItem value="SPO">SPO</SelectItem>
+              <SelectItem value="CC">CC</SelectItem>
             </SelectContent>
           </Select>
-          <Select value={voteFilter} onValueChange={setVoteFilter}>
+          <Select
+            value={voteFilter}
+            onValueChange={(value) =>
+              dispatch(setVoteFilter(value as VoteType))
+            }
+          >
             <SelectTrigger>
               <SelectValue placeholder="Filter by vote" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="all">All Votes</SelectItem>
-              <SelectItem value="yes">Yes</SelectItem>
-              <SelectItem value="no">No</SelectItem>
-              <SelectItem value="abstain">Abstain</SelectItem>
+              <SelectItem value="All">All Votes</SelectItem>
+              <SelectItem value="Yes">Yes</SelectItem>
+              <SelectItem value="No">No</SelectItem>
+              <SelectItem value="Abstain">Abstain</SelectItem>
+            </SelectContent>
+          </Select>
+          <Select
+            value={rationaleFilter}
+            onValueChange={(value) => {
+              setRationaleFilter(value);
+              setScrollTop(0);
+              scrollRef.current?.scrollTo({ top: 0 });
+            }}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Filter by rationale" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Rationales</SelectItem>
+              <SelectItem value="verified">
+                Verified Rationale (loaded votes)
+              </SelectItem>
             </SelectContent>
           </Select>
         </div>
       </Card>
 
+      {error && (
+        <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+          <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
       {/* Voting Table */}
       <Card>
-        <div className="overflow-x-auto">
+        <div
+          ref={scrollRef}
+          className="overflow-auto [&>div]:overflow-visible"
+          style={{ maxHeight: VIEWPORT_HEIGHT }}
+          onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        >
           <Table>
-            <TableHeader>
+            <TableHeader className="sticky top-0 z-10 bg-card">
               <TableRow>
                 <TableHead>Voter</TableHead>
                 <TableHead>Type</TableHead>
@@ -381,135 +804,77 @@ export function VotingRecords({ votes, ccVotes = [], proposalStatus }: VotingRec
               </TableRow>
             </TableHeader>
             <TableBody>
-              {filteredVotes.length === 0 ? (
+              {isLoading ? (
                 <TableRow>
                   <TableCell
                     colSpan={6}
                     className="text-center text-muted-foreground py-12"
                   >
-                    No voting records found
+                    <Loader2 className="h-5 w-5 inline mr-2 animate-spin" />
+                    Loading voting records...
+                  </TableCell>
+                </TableRow>
+              ) : displayedVotes.length === 0 ? (
+                <TableRow>
+                  <TableCell
+                    colSpan={6}
+                    className="text-center text-muted-foreground py-12"
+                  >
+                    {votes.length > 0 && isCheckingRationales
+                      ? "Checking rationales..."
+                      : "No voting records found"}
                   </TableCell>
                 </TableRow>
               ) : (
-                filteredVotes.map((vote, index) => {
-                  const isCC = vote.voterType === "CC";
-                  const voterName = getVoterDisplayName(vote);
-                  const voterId = getVoterDisplayId(vote);
-
-                  return (
-                    <TableRow
-                      key={`${voterId}-${index}`}
-                      className="hover:bg-muted/50"
-                    >
-                      <TableCell>
-                        <div>
-                          <div className="font-semibold">{voterName}</div>
-                          <div className="text-xs text-muted-foreground font-mono">
-                            {voterId.slice(0, 20)}...
-                          </div>
-                        </div>
-                      </TableCell>
-                      <TableCell>
-                        <Badge
-                          variant="outline"
-                          className={getVoterTypeBadgeClasses(
-                            vote.voterType || ""
-                          )}
-                        >
-                          {vote.voterType || "Unknown"}
-                        </Badge>
-                      </TableCell>
-                      <TableCell>
-                        <Badge
-                          variant="outline"
-                          className={getVoteBadgeClasses(vote.vote)}
-                        >
-                          {vote.vote}
-                        </Badge>
-                      </TableCell>
-                      <TableCell>
-                        {!isCC ? (
-                          <div className="font-semibold">
-                            {lovelaceToAda(vote.votingPower)} ADA
-                          </div>
-                        ) : (
-                          <span className="text-xs text-muted-foreground">
-                            N/A
-                          </span>
-                        )}
-                      </TableCell>
-                      <TableCell className="text-sm text-muted-foreground">
-                        {new Date(vote.votedAt).toLocaleDateString()}
-                      </TableCell>
-                      <TableCell className="text-right">
-                        {vote.anchorUrl ? (
-                          <div className="flex items-center justify-end gap-2">
-                            <Dialog>
-                              <DialogTrigger asChild>
-                                <Button size="sm" variant="ghost">
-                                  <FileText className="h-4 w-4 mr-1" />
-                                  View
-                                </Button>
-                              </DialogTrigger>
-                              <DialogContent className="max-w-3xl max-h-[80vh]">
-                                <DialogHeader>
-                                  <DialogTitle>
-                                    Voting Rationale - {voterName}
-                                  </DialogTitle>
-                                  <DialogDescription>
-                                    View the detailed reasoning for this vote
-                                  </DialogDescription>
-                                </DialogHeader>
-                                <ScrollArea className="h-[500px] w-full rounded-md border p-4">
-                                  <div className="space-y-4">
-                                    <div className="flex items-center justify-between mb-4">
-                                      <Badge
-                                        variant="outline"
-                                        className={getVoteBadgeClasses(
-                                          vote.vote
-                                        )}
-                                      >
-                                        {vote.vote}
-                                      </Badge>
-                                      <a
-                                        href={toViewableUrl(vote.anchorUrl!)}
-                                        target="_blank"
-                                        rel="noopener noreferrer"
-                                        className="text-primary hover:underline text-sm flex items-center gap-1"
-                                      >
-                                        <ExternalLink className="h-3 w-3" />
-                                        Original Source
-                                      </a>
-                                    </div>
-                                    <RationaleContent
-                                      anchorUrl={vote.anchorUrl!}
-                                    />
-                                  </div>
-                                </ScrollArea>
-                              </DialogContent>
-                            </Dialog>
-                            <a
-                              href={toViewableUrl(vote.anchorUrl!)}
-                              target="_blank"
-                              rel="noopener noreferrer"
-                              className="text-primary hover:underline"
-                            >
-                              <ExternalLink className="h-4 w-4" />
-                            </a>
-                          </div>
-                        ) : (
-                          <span className="text-xs text-muted-foreground">
-                            No rationale
-                          </span>
-                        )}
-                      </TableCell>
-                    </TableRow>
-                  );
-                })
+                <>
+                  {startIndex > 0 && (
+                    <tr style={{ height: startIndex * ROW_HEIGHT }} />
+                  )}
+                  {visibleVotes.map((vote, index) => (
+                    <VoteRow
+                      key={`${getVoterDisplayId(vote)}-${startIndex + index}`}
+                      vote={vote}
+                      rationaleStatus={getRationaleStatus(vote)}
+                    />
+                  ))}
+                  {endIndex < displayedVotes.length && (
+                    <tr
+                      style={{
+                        height: (displayedVotes.length - endIndex) * ROW_HEIGHT,
+                      }}
+                    />
+                  )}
+                </>
               )}
             </TableBody>
           </Table>
         </div>
+        {!isLoading && votes.length > 0 && (
+          <div className="flex items-center justify-center gap-2 p-3 border-t text-xs text-muted-foreground">
+            {(isLoadingMore || isCheckingRationales) && (
+              <Loader2 className="h-3 w-3 animate-spin" />
+            )}
+            {isVerifiedFilter
+              ? `${displayedVotes.length} of the ${
+                  votes.length
+                } loaded votes have a verified rationale; ${
+                  total - votes.length
+                } more are not loaded yet`
+              : `Showing ${votes.length} of ${total} votes`}
+            {isCheckingRationales && " · Checking rationales..."}
+            {isVerifiedFilter && nextCursor && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 text-xs"
+                onClick={loadMore}
+                disabled={isLoadingMore}
+              >
+                Load More
+              </Button>
+            )}
+          </div>
+        )}
       </Card>
     </div>
   );
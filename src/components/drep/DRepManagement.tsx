@@ -0,0 +1,549 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+import Link from "next/link";
+import { useWallet } from "@meshsdk/react";
+import { MeshTxBuilder, type Anchor } from "@meshsdk/core";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  ConnectWalletButton,
+  NetworkMismatchAlert,
+  useWalletNetworkMismatch,
+} from "@/components/wallet";
+import { TxPreviewPanel } from "@/components/governance/TxPreview";
+import { resolveAnchor, toViewableAnchorUrl } from "@/lib/anchor";
+import {
+  toDRepMetadataInput,
+  type DRepMetadataInput,
+} from "@/lib/drepMetadata";
+import { assertTxPreflight, toTxErrorMessage } from "@/lib/txPreflight";
+import {
+  decodeTxPreview,
+  formatLovelace,
+  type TxPreview,
+} from "@/lib/txPreview";
+import { getExplorerTxUrl } from "@/lib/network";
+import { TX_STATE_LABELS, pollTxStatus } from "@/lib/txStatus";
+import {
+  fetchAnchorContent,
+  fetchDRepRegistration,
+  fetchTxStatus,
+} from "@/services/api";
+import { useAppSelector } from "@/store/hooks";
+import type { DRepRegistration, TxStatus } from "@/types/governance";
+import { DRepMetadataForm } from "./DRepMetadataForm";
+import {
+  AlertCircle,
+  CheckCircle,
+  ExternalLink,
+  Loader2,
+  RefreshCw,
+  UserCheck,
+} from "lucide-react";
+
+// Certificate built for the connected wallet's DRep credential
+type DRepAction = "register" | "update" | "retire";
+
+const ACTION_LABELS: Record<DRepAction, string> = {
+  register: "Registration",
+  update: "Metadata Update",
+  retire: "Retirement",
+};
+
+interface PendingCertificateTx {
+  action: DRepAction;
+  unsignedTx: string;
+  preview: TxPreview;
+}
+
+interface SubmittedCertificateTx {
+  action: DRepAction;
+  txHash: string;
+  status: TxStatus | null;
+  isPolling: boolean;
+}
+
+/**
+ * DRep lifecycle management for the connected wallet
+ * Registers, updates and retires the wallet's DRep credential with a CIP-119 anchor
+ */
+export function DRepManagement() {
+  const { connected, wallet } = useWallet();
+  const network = useAppSelector((state) => state.network.network);
+  const networkMismatch = useWalletNetworkMismatch();
+  const [drepId, setDrepId] = useState<string | null>(null);
+  const [registration, setRegistration] = useState<DRepRegistration | null>(
+    null
+  );
+  const [currentMetadata, setCurrentMetadata] =
+    useState<DRepMetadataInput | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [anchorUrl, setAnchorUrl] = useState("");
+  const [publishedAnchor, setPublishedAnchor] = useState<Anchor | null>(null);
+  const [pendingTx, setPendingTx] = useState<PendingCertificateTx | null>(
+    null
+  );
+  const [submittedTx, setSubmittedTx] =
+    useState<SubmittedCertificateTx | null>(null);
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [isSigning, setIsSigning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pollingAbortRef = useRef<AbortController | null>(null);
+
+  const loadRegistration = useCallback(async () => {
+    if (!wallet) return;
+
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      const dRep = await wallet.getDRep();
+      if (!dRep?.dRepIDCip105) {
+        throw new Error(
+          "Your wallet did not provide a DRep key. Please use a wallet with CIP-95 governance support."
+        );
+      }
+      setDrepId(dRep.dRepIDCip105);
+      setRegistration(await fetchDRepRegistration(dRep.dRepIDCip105));
+    } catch (err) {
+      console.error("DRep registration load error:", err);
+      setLoadError(
+        err instanceof Error ? err.message : "Failed to load DRep registration"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [wallet]);
+
+  useEffect(() => {
+    if (connected) {
+      loadRegistration();
+    } else {
+      setDrepId(null);
+      setRegistration(null);
+    }
+    // Registrations differ per network
+  }, [connected, loadRegistration, network]);
+
+  // Prefill the metadata form from the current anchor when updating
+  useEffect(() => {
+    setCurrentMetadata(null);
+    const currentAnchorUrl = registration?.anchorUrl;
+    if (!currentAnchorUrl) return;
+
+    let cancelled = false;
+    fetchAnchorContent(currentAnchorUrl)
+      .then((content) => JSON.parse(new TextDecoder().decode(content)))
+      .then((document) => {
+        if (!cancelled) setCurrentMetadata(toDRepMetadataInput(document));
+      })
+      .catch(() => {
+        // The form simply starts empty when the anchor cannot be read
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [registration?.anchorUrl]);
+
+  // Stop polling on unmount only
+  useEffect(() => {
+    return () => pollingAbortRef.current?.abort();
+  }, []);
+
+  const handlePublished = (anchor: Anchor) => {
+    setPublishedAnchor(anchor);
+    setAnchorUrl(anchor.anchorUrl);
+  };
+
+  // Build the certificate transaction and decode it for review
+  const buildCertificate = async (action: DRepAction) => {
+    if (!wallet || !drepId || !registration || networkMismatch) return;
+
+    setIsBuilding(true);
+    setError(null);
+    try {
+      // A metadata published from the form already carries its hash
+      const anchor =
+        publishedAnchor && publishedAnchor.anchorUrl === anchorUrl.trim()
+          ? publishedAnchor
+          : await resolveAnchor(anchorUrl);
+      if (action === "update" && !anchor) {
+        throw new Error("Please publish or enter a metadata URL to update.");
+      }
+
+      const utxos = await wallet.getUtxos();
+      const changeAddress = await wallet.getChangeAddress();
+      const txBuilder = new MeshTxBuilder({
+        verbose: true,
+      });
+
+      switch (action) {
+        case "register":
+          txBuilder.drepRegistrationCertificate(
+            drepId,
+            anchor,
+            registration.drepDeposit
+          );
+          break;
+        case "update":
+          txBuilder.drepUpdateCertificate(drepId, anchor);
+          break;
+        case "retire":
+          // The refund must match the deposit paid at registration
+          txBuilder.drepDeregistrationCertificate(
+            drepId,
+            registration.deposit ?? registration.drepDeposit
+          );
+          break;
+      }
+
+      // Check the wallet can pay the fee and, to register, the deposit
+      await assertTxPreflight(utxos, {
+        certificates: 1,
+        anchorUrls: [anchor?.anchorUrl],
+        deposits:
+          action === "register"
+            ? [
+                {
+                  label: "DRep deposit",
+                  lovelace: BigInt(registration.drepDeposit),
+                },
+              ]
+            : [],
+        refund:
+          action === "retire"
+            ? BigInt(registration.deposit ?? registration.drepDeposit)
+            : BigInt(0),
+      });
+
+      await txBuilder
+        .selectUtxosFrom(utxos)
+        .changeAddress(changeAddress)
+        .complete();
+
+      const unsignedTx = txBuilder.txHex;
+      setPendingTx({
+        action,
+        unsignedTx,
+        preview: decodeTxPreview(unsignedTx, changeAddress),
+      });
+    } catch (err) {
+      console.error("DRep certificate build error:", err);
+      setError(toTxErrorMessage(err, "Failed to build certificate"));
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  // Track the certificate tx and reload the registration once indexed
+  const trackSubmission = async (action: DRepAction, txHash: string) => {
+    pollingAbortRef.current?.abort();
+    const controller = new AbortController();
+    pollingAbortRef.current = controller;
+    setSubmittedTx({ action, txHash, status: null, isPolling: true });
+
+    const lastStatus = await pollTxStatus(txHash, {
+      fetchStatus: fetchTxStatus,
+      signal: controller.signal,
+      onStatus: (status) =>
+        setSubmittedTx((prev) => (prev ? { ...prev, status } : prev)),
+    });
+    if (controller.signal.aborted) return;
+    pollingAbortRef.current = null;
+
+    setSubmittedTx((prev) => (prev ? { ...prev, isPolling: false } : prev));
+    if (lastStatus?.state === "indexed") {
+      loadRegistration();
+    }
+  };
+
+  // Sign and submit the reviewed transaction
+  const submitCertificate = async () => {
+    if (!wallet || !pendingTx) return;
+    if (networkMismatch) {
+      setError(networkMismatch);
+      return;
+    }
+
+    setIsSigning(true);
+    setError(null);
+    try {
+      const signedTx = await wallet.signTx(pendingTx.unsignedTx);
+      const txHash = await wallet.submitTx(signedTx);
+
+      setPendingTx(null);
+      setAnchorUrl("");
+      setPublishedAnchor(null);
+      trackSubmission(pendingTx.action, txHash);
+    } catch (err) {
+      console.error("DRep certificate submission error:", err);
+      setError(toTxErrorMessage(err, "Failed to submit certificate"));
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  if (!connected) {
+    return (
+      <Card className="p-6">
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            Connect your wallet to manage your DRep registration.
+          </p>
+          <ConnectWalletButton />
+        </div>
+      </Card>
+    );
+  }
+
+  if (isLoading && !registration) {
+    return (
+      <Card className="p-12">
+        <div className="flex flex-col items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary mb-4" />
+          <p className="text-muted-foreground">Loading DRep registration...</p>
+        </div>
+      </Card>
+    );
+  }
+
+  if (loadError || !registration || !drepId) {
+    return (
+      <Card className="p-6 space-y-4">
+        <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+          <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>{loadError ?? "Failed to load DRep registration"}</span>
+        </div>
+        <Button variant="outline" onClick={loadRegistration}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Retry
+        </Button>
+      </Card>
+    );
+  }
+
+  const paidDeposit = BigInt(
+    registration.deposit ?? registration.drepDeposit
+  );
+
+  const anchorHref = registration.anchorUrl
+    ? toViewableAnchorUrl(registration.anchorUrl)
+    : null;
+
+  const anchorFields = (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="drepAnchorUrl">Metadata URL</Label>
+        <Input
+          id="drepAnchorUrl"
+          placeholder="https://... or ipfs://..."
+          value={anchorUrl}
+          onChange={(e) => setAnchorUrl(e.target.value)}
+          disabled={isBuilding}
+        />
+        <p className="text-xs text-muted-foreground">
+          Link a hosted CIP-119 document, or publish one with the form below.
+        </p>
+      </div>
+      <DRepMetadataForm
+        // Remount once the current metadata has loaded to prefill it
+        key={`${registration.anchorHash ?? "new"}-${!!currentMetadata}`}
+        initialInput={currentMetadata}
+        disabled={isBuilding}
+        onPublished={handlePublished}
+      />
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card className="p-6 space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <h3 className="font-semibold flex items-center gap-2">
+            <UserCheck className="h-5 w-5 text-primary" />
+            Your DRep Status
+          </h3>
+          {registration.isRegistered ? (
+            <Badge
+              variant="outline"
+              className="bg-success/20 text-success border-success/30"
+            >
+              Registered
+            </Badge>
+          ) : (
+            <Badge variant="outline" className="bg-muted text-muted-foreground">
+              Not registered
+            </Badge>
+          )}
+        </div>
+        <p className="text-sm">
+          <span className="text-muted-foreground">DRep ID: </span>
+          <span className="font-mono break-all">{drepId}</span>
+        </p>
+        {registration.isRegistered && (
+          <>
+            <p className="text-sm">
+              <span className="text-muted-foreground">Deposit paid: </span>
+              {formatLovelace(paidDeposit)}
+            </p>
+            <Link
+              href={`/drep/${encodeURIComponent(drepId)}`}
+              className="text-sm text-primary hover:underline"
+            >
+              View your public profile and voting history
+            </Link>
+          </>
+        )}
+        {registration.anchorUrl &&
+          (anchorHref ? (
+            <a
+              href={anchorHref}
+              target="_blank"
+              rel="noopener noreferrer nofollow"
+              className="text-sm text-primary flex items-center gap-1 hover:underline break-all"
+            >
+              <ExternalLink className="h-3 w-3 flex-shrink-0" />
+              {currentMetadata?.givenName || registration.anchorUrl}
+            </a>
+          ) : (
+            <p className="text-sm text-muted-foreground break-all">
+              {registration.anchorUrl}
+            </p>
+          ))}
+      </Card>
+
+      {submittedTx && (
+        <Card className="p-6 space-y-2">
+          <div className="flex items-center justify-between gap-4">
+            <p className="font-semibold flex items-center gap-2">
+              <CheckCircle className="h-5 w-5 text-success" />
+              {ACTION_LABELS[submittedTx.action]} Submitted
+            </p>
+            <a
+              href={getExplorerTxUrl(submittedTx.txHash, network)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-primary text-sm flex items-center gap-1 hover:underline"
+            >
+              View on AdaStat
+              <ExternalLink className="h-3 w-3" />
+            </a>
+          </div>
+          <p className="text-sm text-muted-foreground flex items-center gap-2">
+            {submittedTx.isPolling && (
+              <RefreshCw className="h-4 w-4 animate-spin text-primary" />
+            )}
+            {TX_STATE_LABELS[submittedTx.status?.state ?? "pending"]}
+            {!submittedTx.isPolling &&
+              submittedTx.status?.state !== "indexed" &&
+              " - it may take a few more minutes to show up here."}
+          </p>
+        </Card>
+      )}
+
+      <Card className="p-6 space-y-4">
+        <NetworkMismatchAlert message={networkMismatch} />
+
+        {error && (
+          <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        {pendingTx ? (
+          <>
+            <h3 className="font-semibold">
+              Review DRep {ACTION_LABELS[pendingTx.action]}
+            </h3>
+            <TxPreviewPanel
+              preview={pendingTx.preview}
+              isSigning={isSigning}
+              acceptLabel="Sign & Submit"
+              isBlocked={!!networkMismatch}
+              onAccept={submitCertificate}
+              onBack={() => {
+                setPendingTx(null);
+                setError(null);
+              }}
+            />
+          </>
+        ) : !registration.isRegistered ? (
+          <>
+            <h3 className="font-semibold">Register as a DRep</h3>
+            <p className="text-sm text-muted-foreground">
+              Registration locks a deposit of{" "}
+              {formatLovelace(BigInt(registration.drepDeposit))}, refunded when
+              you retire. Metadata is optional but helps delegators find you.
+            </p>
+            {anchorFields}
+            <Button
+              className="w-full"
+              onClick={() => buildCertificate("register")}
+              disabled={isBuilding || !!networkMismatch}
+            >
+              {isBuilding ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Building...
+                </>
+              ) : (
+                "Review Registration"
+              )}
+            </Button>
+          </>
+        ) : (
+          <Tabs defaultValue="update" className="w-full space-y-4">
+            <TabsList className="bg-secondary/50">
+              <TabsTrigger value="update">Update Metadata</TabsTrigger>
+              <TabsTrigger value="retire">Retire</TabsTrigger>
+            </TabsList>
+            <TabsContent value="update" className="space-y-4">
+              {anchorFields}
+              <Button
+                className="w-full"
+                onClick={() => buildCertificate("update")}
+                disabled={isBuilding || !!networkMismatch}
+              >
+                {isBuilding ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Building...
+                  </>
+                ) : (
+                  "Review Update"
+                )}
+              </Button>
+            </TabsContent>
+            <TabsContent value="retire" className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Retiring refunds your {formatLovelace(paidDeposit)} deposit.
+                You can no longer vote, and stake delegated to you stops
+                counting until you register again.
+              </p>
+              <Button
+                variant="destructive"
+                className="w-full"
+                onClick={() => buildCertificate("retire")}
+                disabled={isBuilding || !!networkMismatch}
+              >
+                {isBuilding ? (
+                  <>
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    Building...
+                  </>
+                ) : (
+                  "Review Retirement"
+                )}
+              </Button>
+            </TabsContent>
+          </Tabs>
+        )}
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import { useState } from "react";
+import type { Anchor } from "@meshsdk/core";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { storeDRepMetadata } from "@/services/api";
+import {
+  DREP_GIVEN_NAME_MAX_LENGTH,
+  DREP_REFERENCE_TYPES,
+  DREP_STATEMENT_MAX_LENGTH,
+  buildDRepMetadata,
+  validateDRepMetadata,
+  type DRepMetadataInput,
+  type DRepReferenceType,
+} from "@/lib/drepMetadata";
+import { AlertCircle, Loader2, Plus, X } from "lucide-react";
+
+interface DRepMetadataFormProps {
+  initialInput?: DRepMetadataInput | null;
+  disabled?: boolean;
+  onPublished: (anchor: Anchor) => void;
+}
+
+export const EMPTY_DREP_METADATA_INPUT: DRepMetadataInput = {
+  givenName: "",
+  objectives: "",
+  motivations: "",
+  qualifications: "",
+  paymentAddress: "",
+  references: [],
+};
+
+const STATEMENT_SECTIONS: {
+  field: "objectives" | "motivations" | "qualifications";
+  label: string;
+}[] = [
+  { field: "objectives", label: "Objectives" },
+  { field: "motivations", label: "Motivations" },
+  { field: "qualifications", label: "Qualifications" },
+];
+
+function CharacterCount({ value, max }: { value: string; max: number }) {
+  const length = value.trim().length;
+  return (
+    <span
+      className={`text-xs ${
+        length > max ? "text-destructive" : "text-muted-foreground"
+      }`}
+    >
+      {length}/{max}
+    </span>
+  );
+}
+
+/**
+ * Editor for CIP-119 DRep metadata
+ * Validates the document, stores it through the API and returns the anchor
+ */
+export function DRepMetadataForm({
+  initialInput,
+  disabled = false,
+  onPublished,
+}: DRepMetadataFormProps) {
+  const [input, setInput] = useState<DRepMetadataInput>(
+    initialInput ?? EMPTY_DREP_METADATA_INPUT
+  );
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [showErrors, setShowErrors] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const metadataDocument = buildDRepMetadata(input);
+  const validationErrors = validateDRepMetadata(metadataDocument);
+  const isDisabled = disabled || isPublishing;
+
+  const updateField = <K extends keyof DRepMetadataInput>(
+    field: K,
+    value: DRepMetadataInput[K]
+  ) => {
+    setInput((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const updateReference = (
+    index: number,
+    changes: Partial<DRepMetadataInput["references"][number]>
+  ) => {
+    setInput((prev) => ({
+      ...prev,
+      references: prev.references.map((ref, i) =>
+        i === index ? { ...ref, ...changes } : ref
+      ),
+    }));
+  };
+
+  const publish = async () => {
+    setShowErrors(true);
+    if (validationErrors.length > 0) return;
+
+    setIsPublishing(true);
+    setError(null);
+    try {
+      const { url, hash } = await storeDRepMetadata(metadataDocument);
+      onPublished({ anchorUrl: url, anchorDataHash: hash });
+      setShowErrors(false);
+    } catch (err) {
+      console.error("DRep metadata publish error:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to store DRep metadata"
+      );
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex justify-between">
+          <Label htmlFor="drepGivenName">Name</Label>
+          <CharacterCount
+            value={input.givenName}
+            max={DREP_GIVEN_NAME_MAX_LENGTH}
+          />
+        </div>
+        <Input
+          id="drepGivenName"
+          value={input.givenName}
+          onChange={(e) => updateField("givenName", e.target.value)}
+          disabled={isDisabled}
+        />
+      </div>
+
+      {STATEMENT_SECTIONS.map(({ field, label }) => (
+        <div key={field} className="space-y-2">
+          <div className="flex justify-between">
+            <Label htmlFor={`drep-${field}`}>{label} (Optional)</Label>
+            <CharacterCount
+              value={input[field]}
+              max={DREP_STATEMENT_MAX_LENGTH}
+            />
+          </div>
+          <Textarea
+            id={`drep-${field}`}
+            value={input[field]}
+            onChange={(e) => updateField(field, e.target.value)}
+            disabled={isDisabled}
+          />
+        </div>
+      ))}
+
+      <div className="space-y-2">
+        <Label htmlFor="drepPaymentAddress">Payment Address (Optional)</Label>
+        <Input
+          id="drepPaymentAddress"
+          placeholder="addr1..."
+          value={input.paymentAddress}
+          onChange={(e) => updateField("paymentAddress", e.target.value)}
+          disabled={isDisabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>References (Optional)</Label>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() =>
+              updateField("references", [
+                ...input.references,
+                { "@type": "Link", label: "", uri: "" },
+              ])
+            }
+            disabled={isDisabled}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+        {input.references.map((ref, index) => (
+          <div key={index} className="flex gap-2 items-center">
+            <Select
+              value={ref["@type"]}
+              onValueChange={(value) =>
+                updateReference(index, {
+                  "@type": value as DRepReferenceType,
+                })
+              }
+              disabled={isDisabled}
+            >
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {DREP_REFERENCE_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {type}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Label"
+              value={ref.label}
+              onChange={(e) =>
+                updateReference(index, { label: e.target.value })
+              }
+              disabled={isDisabled}
+            />
+            <Input
+              placeholder="https://... or ipfs://..."
+              value={ref.uri}
+              onChange={(e) => updateReference(index, { uri: e.target.value })}
+              disabled={isDisabled}
+            />
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() =>
+                updateField(
+                  "references",
+                  input.references.filter((_, i) => i !== index)
+                )
+              }
+              disabled={isDisabled}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {showErrors && validationErrors.length > 0 && (
+        <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+          <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <ul className="space-y-1">
+            {validationErrors.map((validationError) => (
+              <li key={validationError}>{validationError}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+          <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <Button
+        variant="outline"
+        className="w-full"
+        onClick={publish}
+        disabled={isDisabled}
+      >
+        {isPublishing ? (
+          <>
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Publishing...
+          </>
+        ) : (
+          "Publish Metadata"
+        )}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+import { useEffect, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { AnchorStatusBadge, ReferenceList } from "@/components/governance";
+import { toViewableAnchorUrl, verifyAnchorContent } from "@/lib/anchor";
+import {
+  toDRepMetadataInput,
+  type DRepMetadataInput,
+} from "@/lib/drepMetadata";
+import { formatLovelace } from "@/lib/txPreview";
+import { fetchAnchorContent } from "@/services/api";
+import type {
+  AnchorVerificationStatus,
+  DRepProfile,
+} from "@/types/governance";
+import { ExternalLink, Loader2, Users } from "lucide-react";
+
+interface DRepMetadataState {
+  metadata: DRepMetadataInput | null; // null when not a CIP-119 document
+  status: AnchorVerificationStatus;
+}
+
+/**
+ * Read a DRep's CIP-119 document and check it against the anchor hash
+ */
+async function loadDRepMetadata(
+  anchorUrl: string,
+  anchorHash: string | null
+): Promise<DRepMetadataState> {
+  try {
+    const content = await fetchAnchorContent(
+      anchorUrl,
+      anchorHash ?? undefined
+    );
+    let metadata: DRepMetadataInput | null = null;
+    try {
+      metadata = toDRepMetadataInput(
+        JSON.parse(new TextDecoder().decode(content))
+      );
+    } catch {
+      // Shown as a document that isn't CIP-119
+    }
+    return {
+      metadata,
+      status: anchorHash
+        ? verifyAnchorContent(content, anchorHash).status
+        : "verified",
+    };
+  } catch {
+    return { metadata: null, status: "unreachable" };
+  }
+}
+
+function getDRepStatus(profile: DRepProfile): {
+  label: string;
+  className: string;
+} {
+  if (!profile.isRegistered) {
+    return {
+      label: "Retired",
+      className: "bg-muted text-muted-foreground border-border",
+    };
+  }
+  if (!profile.isActive) {
+    return {
+      label: "Inactive",
+      className: "bg-amber-500/20 text-amber-500 border-amber-500/30",
+    };
+  }
+  return {
+    label: "Active",
+    className: "bg-success/20 text-success border-success/30",
+  };
+}
+
+function StatementSection({
+  title,
+  content,
+}: {
+  title: string;
+  content: string;
+}) {
+  if (!content) return null;
+  return (
+    <section className="space-y-1">
+      <h3 className="font-semibold">{title}</h3>
+      <p className="text-sm text-muted-foreground whitespace-pre-wrap break-words">
+        {content}
+      </p>
+    </section>
+  );
+}
+
+/**
+ * DRep identity, status and delegation, with the CIP-119 statements
+ * read from the registered metadata anchor
+ */
+export function DRepProfileCard({ profile }: { profile: DRepProfile }) {
+  const [metadataState, setMetadataState] =
+    useState<DRepMetadataState | null>(null);
+
+  useEffect(() => {
+    setMetadataState(null);
+    if (!profile.anchorUrl) return;
+
+    let cancelled = false;
+    loadDRepMetadata(profile.anchorUrl, profile.anchorHash).then((result) => {
+      if (!cancelled) setMetadataState(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [profile.anchorUrl, profile.anchorHash]);
+
+  const metadata = metadataState?.metadata ?? null;
+  const status = getDRepStatus(profile);
+  const anchorHref = profile.anchorUrl
+    ? toViewableAnchorUrl(profile.anchorUrl)
+    : null;
+
+  return (
+    <Card className="p-6 space-y-6">
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="outline" className={status.className}>
+            {status.label}
+          </Badge>
+          {metadataState ? (
+            <AnchorStatusBadge status={metadataState.status} />
+          ) : (
+            profile.anchorUrl && (
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            )
+          )}
+        </div>
+        <h1 className="text-3xl font-bold break-words">
+          {metadata?.givenName || "Unnamed DRep"}
+        </h1>
+        <code className="block text-sm text-muted-foreground bg-secondary px-3 py-1 rounded font-mono break-all">
+          {profile.drepId}
+        </code>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="p-4 rounded-lg bg-secondary/50">
+          <div className="text-sm text-muted-foreground">Voting power</div>
+          <div className="text-2xl font-semibold">
+            {formatLovelace(BigInt(profile.votingPower || "0"))}
+          </div>
+        </div>
+        <div className="p-4 rounded-lg bg-secondary/50">
+          <div className="text-sm text-muted-foreground flex items-center gap-1">
+            <Users className="h-4 w-4" />
+            Delegators
+          </div>
+          <div className="text-2xl font-semibold">
+            {profile.delegatorCount.toLocaleString()}
+          </div>
+        </div>
+      </div>
+
+      {!profile.anchorUrl && (
+        <p className="text-sm text-muted-foreground">
+          This DRep has not published any metadata.
+        </p>
+      )}
+      {metadataState && !metadata && (
+        <p className="text-sm text-muted-foreground">
+          {metadataState.status === "unreachable"
+            ? "The metadata document could not be loaded."
+            : "The metadata document is not in CIP-119 format."}
+        </p>
+      )}
+
+      {metadata && (
+        <div className="space-y-4">
+          <StatementSection title="Objectives" content={metadata.objectives} />
+          <StatementSection
+            title="Motivations"
+            content={metadata.motivations}
+          />
+          <StatementSection
+            title="Qualifications"
+            content={metadata.qualifications}
+          />
+          {metadata.paymentAddress && (
+            <section className="space-y-1">
+              <h3 className="font-semibold">Payment Address</h3>
+              <code className="block text-xs font-mono break-all text-muted-foreground">
+                {metadata.paymentAddress}
+              </code>
+            </section>
+          )}
+          {metadata.references.length > 0 && (
+            <section className="space-y-2">
+              <h3 className="font-semibold">References</h3>
+              <ReferenceList references={metadata.references} />
+            </section>
+          )}
+        </div>
+      )}
+
+      {anchorHref && (
+        <a
+          href={anchorHref}
+          target="_blank"
+          rel="noopener noreferrer nofollow"
+          className="text-xs text-primary flex items-center gap-1 hover:underline break-all"
+        >
+          {profile.anchorUrl}
+          <ExternalLink className="h-3 w-3 flex-shrink-0" />
+        </a>
+      )}
+    </Card>
+  );
+}
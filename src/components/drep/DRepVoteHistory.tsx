@@ -0,0 +1,234 @@
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { toViewableAnchorUrl } from "@/lib/anchor";
+import {
+  computeDRepVotingStats,
+  getEffectiveVotes,
+  isVoteWithOutcome,
+} from "@/lib/drepProfile";
+import type { DRepProfile, VoteChoice } from "@/types/governance";
+import { CheckCircle, ExternalLink, MinusCircle, XCircle } from "lucide-react";
+
+const PAGE_SIZE = 25;
+
+function getVoteBadgeClasses(vote: VoteChoice): string {
+  switch (vote) {
+    case "Yes":
+      return "bg-emerald-500/20 text-emerald-400 border-emerald-500/30";
+    case "No":
+      return "bg-red-500/20 text-red-400 border-red-500/30";
+    default:
+      return "bg-gray-500/20 text-gray-400 border-gray-500/30";
+  }
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? "N/A" : `${value.toFixed(1)}%`;
+}
+
+function StatTile({
+  label,
+  value,
+  detail,
+}: {
+  label: string;
+  value: string;
+  detail: string;
+}) {
+  return (
+    <div className="p-4 rounded-lg bg-secondary/50">
+      <div className="text-sm text-muted-foreground">{label}</div>
+      <div className="text-2xl font-semibold">{value}</div>
+      <div className="text-xs text-muted-foreground">{detail}</div>
+    </div>
+  );
+}
+
+function OutcomeCell({ agreed }: { agreed: boolean | null }) {
+  if (agreed === null) {
+    return (
+      <span className="flex items-center gap-1 text-xs text-muted-foreground">
+        <MinusCircle className="h-3 w-3" />
+        Not counted
+      </span>
+    );
+  }
+  return agreed ? (
+    <span className="flex items-center gap-1 text-xs text-success">
+      <CheckCircle className="h-3 w-3" />
+      With outcome
+    </span>
+  ) : (
+    <span className="flex items-center gap-1 text-xs text-destructive">
+      <XCircle className="h-3 w-3" />
+      Against outcome
+    </span>
+  );
+}
+
+/**
+ * Voting statistics and every vote a DRep cast, latest first
+ * Only the latest vote per action counts towards the statistics
+ */
+export function DRepVoteHistory({ profile }: { profile: DRepProfile }) {
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const stats = useMemo(() => computeDRepVotingStats(profile), [profile]);
+  const effectiveVotes = useMemo(
+    () => new Set(getEffectiveVotes(profile.votes)),
+    [profile.votes]
+  );
+
+  const visibleVotes = profile.votes.slice(0, visibleCount);
+
+  return (
+    <Card className="p-6 space-y-6">
+      <h2 className="text-xl font-semibold">Voting History</h2>
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <StatTile
+          label="Actions voted"
+          value={stats.votedActionCount.toLocaleString()}
+          detail={`${profile.votes.length} votes cast`}
+        />
+        <StatTile
+          label="Participation"
+          value={formatPercent(stats.participationRate)}
+          detail={
+            profile.eligibleActionCount === null
+              ? "Eligible actions unknown"
+              : `of ${profile.eligibleActionCount} eligible actions`
+          }
+        />
+        <StatTile
+          label="With rationale"
+          value={formatPercent(stats.rationaleShare)}
+          detail="of actions voted"
+        />
+        <StatTile
+          label="Agreement with outcome"
+          value={formatPercent(stats.outcomeAgreement)}
+          detail={`over ${stats.decidedVoteCount} decided Yes/No votes`}
+        />
+      </div>
+
+      {profile.votes.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-8">
+          This DRep has not voted yet.
+        </p>
+      ) : (
+        <>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Governance Action</TableHead>
+                <TableHead>Vote</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Outcome</TableHead>
+                <TableHead>Date</TableHead>
+                <TableHead className="text-right">Rationale</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visibleVotes.map((vote, index) => {
+                const isReplaced = !effectiveVotes.has(vote);
+                const rationaleHref = vote.anchorUrl
+                  ? toViewableAnchorUrl(vote.anchorUrl)
+                  : null;
+                return (
+                  <TableRow
+                    key={`${vote.actionId}-${vote.votedAt}-${index}`}
+                    className={isReplaced ? "opacity-60" : undefined}
+                  >
+                    <TableCell>
+                      <Link
+                        href={`/governance/${encodeURIComponent(vote.actionId)}`}
+                        className="font-medium hover:underline"
+                      >
+                        {vote.actionTitle || vote.actionId}
+                      </Link>
+                      <div className="text-xs text-muted-foreground">
+                        {vote.actionType}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap items-center gap-1">
+                        <Badge
+                          variant="outline"
+                          className={getVoteBadgeClasses(vote.vote)}
+                        >
+                          {vote.vote}
+                        </Badge>
+                        {isReplaced && (
+                          <Badge variant="outline" className="text-xs">
+                            Replaced
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {vote.actionStatus}
+                    </TableCell>
+                    <TableCell>
+                      {isReplaced ? (
+                        <span className="text-xs text-muted-foreground">
+                          Replaced by a later vote
+                        </span>
+                      ) : (
+                        <OutcomeCell agreed={isVoteWithOutcome(vote)} />
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {new Date(vote.votedAt).toLocaleDateString()}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {rationaleHref ? (
+                        <a
+                          href={rationaleHref}
+                          target="_blank"
+                          rel="noopener noreferrer nofollow"
+                          className="text-sm text-primary inline-flex items-center gap-1 hover:underline"
+                        >
+                          View
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      ) : (
+                        <span className="text-xs text-muted-foreground">
+                          None
+                        </span>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+
+          <div className="flex items-center justify-between gap-4 text-sm text-muted-foreground">
+            <span>
+              Showing {visibleVotes.length} of {profile.votes.length} votes
+            </span>
+            {visibleCount < profile.votes.length && (
+              <Button
+                variant="outline"
+                onClick={() => setVisibleCount((count) => count + PAGE_SIZE)}
+              >
+                Show More
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+    </Card>
+  );
+}
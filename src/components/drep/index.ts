@@ -0,0 +1,4 @@
+export { DRepManagement } from "./DRepManagement";
+export { DRepMetadataForm } from "./DRepMetadataForm";
+export { DRepProfileCard } from "./DRepProfileCard";
+export { DRepVoteHistory } from "./DRepVoteHistory";
@@ -0,0 +1,180 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  ANCHOR_VERIFICATION_LABELS,
+  toViewableAnchorUrl,
+} from "@/lib/anchor";
+import { fetchProposalAnchorVerification } from "@/services/api";
+import type {
+  AnchorVerification,
+  AnchorVerificationStatus,
+} from "@/types/governance";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  ExternalLink,
+  Loader2,
+  WifiOff,
+} from "lucide-react";
+
+const STATUS_STYLES: Record<AnchorVerificationStatus, string> = {
+  verified: "bg-emerald-500/20 text-emerald-500 border-emerald-500/30",
+  mismatch: "bg-destructive/20 text-destructive border-destructive/30",
+  unreachable: "bg-amber-500/20 text-amber-500 border-amber-500/30",
+};
+
+const STATUS_ICONS = {
+  verified: CheckCircle2,
+  mismatch: AlertTriangle,
+  unreachable: WifiOff,
+} as const;
+
+/**
+ * Verified / mismatch / unreachable badge for an anchor document
+ */
+export function AnchorStatusBadge({
+  status,
+  label = ANCHOR_VERIFICATION_LABELS[status],
+}: {
+  status: AnchorVerificationStatus;
+  label?: string;
+}) {
+  const Icon = STATUS_ICONS[status];
+  return (
+    <Badge variant="outline" className={STATUS_STYLES[status]}>
+      <Icon className="h-3 w-3 mr-1" />
+      {label}
+    </Badge>
+  );
+}
+
+/**
+ * Metadata anchor check for the detail page
+ * The document is fetched and hashed server-side, the raw text is shown on demand
+ */
+export function AnchorVerificationCard({ proposalId }: { proposalId: string }) {
+  const [verification, setVerification] = useState<AnchorVerification | null>(
+    null
+  );
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [showDocument, setShowDocument] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setIsLoading(true);
+    setError(null);
+    setShowDocument(false);
+    fetchProposalAnchorVerification(proposalId)
+      .then((result) => {
+        if (!cancelled) setVerification(result);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        setVerification(null);
+        setError(
+          err instanceof Error ? err.message : "Failed to verify metadata"
+        );
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [proposalId]);
+
+  const anchorHref = verification
+    ? toViewableAnchorUrl(verification.anchorUrl)
+    : null;
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-xl font-semibold">Metadata Anchor</h2>
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : (
+          verification && <AnchorStatusBadge status={verification.status} />
+        )}
+      </div>
+
+      {error && <p className="text-sm text-muted-foreground">{error}</p>}
+
+      {verification && (
+        <>
+          <div className="space-y-2 text-sm">
+            {anchorHref ? (
+              <a
+                href={anchorHref}
+                target="_blank"
+                rel="noopener noreferrer nofollow"
+                className="text-primary flex items-center gap-1 hover:underline break-all"
+              >
+                {verification.anchorUrl}
+                <ExternalLink className="h-3 w-3 flex-shrink-0" />
+              </a>
+            ) : (
+              <p className="text-muted-foreground break-all">
+                {verification.anchorUrl}
+              </p>
+            )}
+            <div className="grid grid-cols-[auto,1fr] gap-x-3 gap-y-1 text-xs">
+              <span className="text-muted-foreground">On-chain hash</span>
+              <code className="font-mono break-all">
+                {verification.expectedHash}
+              </code>
+              {verification.computedHash && (
+                <>
+                  <span className="text-muted-foreground">Document hash</span>
+                  <code
+                    className={`font-mono break-all ${
+                      verification.status === "mismatch"
+                        ? "text-destructive"
+                        : ""
+                    }`}
+                  >
+                    {verification.computedHash}
+                  </code>
+                </>
+              )}
+            </div>
+            {verification.status === "mismatch" && (
+              <p className="text-xs text-destructive">
+                The document served at this URL is not the one committed
+                on-chain. Its content may have been changed since submission.
+              </p>
+            )}
+            {verification.error && (
+              <p className="text-xs text-muted-foreground">
+                {verification.error}
+              </p>
+            )}
+          </div>
+
+          {verification.content !== null && (
+            <div className="space-y-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowDocument((prev) => !prev)}
+              >
+                {showDocument ? "Hide Raw Document" : "View Raw Document"}
+              </Button>
+              {showDocument && (
+                <ScrollArea className="h-[400px] rounded-md border border-border bg-secondary/30">
+                  <pre className="p-4 text-xs font-mono whitespace-pre-wrap break-all">
+                    {verification.content}
+                  </pre>
+                </ScrollArea>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,75 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  DEFAULT_NETWORK,
+  formatEpoch,
+  formatExpiryCountdown,
+  getExpiryCountdown,
+  type CardanoNetwork,
+} from "@/lib/cardanoTime";
+import { useAppSelector } from "@/store/hooks";
+import type { GovernanceAction } from "@/types/governance";
+import { Clock } from "lucide-react";
+
+interface EpochTimelineProps {
+  action: Pick<
+    GovernanceAction,
+    "submissionEpoch" | "expiryEpoch" | "status"
+  >;
+  showSeparator?: boolean;
+}
+
+/**
+ * Returns true when an active action expires within the urgency window
+ */
+export function isExpiringSoon(
+  action: Pick<GovernanceAction, "expiryEpoch" | "status">,
+  network: CardanoNetwork = DEFAULT_NETWORK
+): boolean {
+  return (
+    action.status === "Active" &&
+    action.expiryEpoch > 0 &&
+    getExpiryCountdown(action.expiryEpoch, network).isUrgent
+  );
+}
+
+/**
+ * Submission and expiry epochs with calendar dates
+ * Active actions also get an expiry countdown
+ */
+export function EpochTimeline({ action, showSeparator }: EpochTimelineProps) {
+  // Epoch dates depend on the selected network's genesis
+  const network = useAppSelector((state) => state.network.network);
+  const countdown =
+    action.status === "Active" && action.expiryEpoch > 0
+      ? getExpiryCountdown(action.expiryEpoch, network)
+      : null;
+
+  return (
+    <>
+      <span>
+        Submission: Epoch {action.submissionEpoch}
+        {action.submissionEpoch > 0 &&
+          ` (${formatEpoch(action.submissionEpoch, network)})`}
+      </span>
+      {showSeparator && <span>•</span>}
+      <span>
+        Expiry: Epoch {action.expiryEpoch}
+        {action.expiryEpoch > 0 &&
+          ` (${formatEpoch(action.expiryEpoch + 1, network)})`}
+      </span>
+      {countdown && (
+        <Badge
+          variant="outline"
+          className={
+            countdown.isUrgent
+              ? "bg-amber-500/20 text-amber-500 border-amber-500/30"
+              : "border-border text-muted-foreground"
+          }
+        >
+          <Clock className="h-3 w-3 mr-1" />
+          {formatExpiryCountdown(countdown)}
+        </Badge>
+      )}
+    </>
+  );
+}
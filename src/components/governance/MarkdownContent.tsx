@@ -0,0 +1,123 @@
+import Markdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { toViewableAnchorUrl } from "@/lib/anchor";
+import { cn } from "@/lib/utils";
+
+/**
+ * Keep only links a reader can safely open
+ * Raw HTML is skipped entirely, so URLs are the only remaining attack surface
+ */
+function toSafeUrl(url: string): string | null {
+  if (url.startsWith("#") || url.startsWith("mailto:")) return url;
+  return toViewableAnchorUrl(url);
+}
+
+const MARKDOWN_COMPONENTS: Components = {
+  // Document headings sit below the card title, so they start at h3
+  h1: ({ children }) => (
+    <h3 className="text-lg font-semibold mt-6 mb-2 first:mt-0">{children}</h3>
+  ),
+  h2: ({ children }) => (
+    <h4 className="text-base font-semibold mt-5 mb-2 first:mt-0">{children}</h4>
+  ),
+  h3: ({ children }) => (
+    <h5 className="font-semibold mt-4 mb-2 first:mt-0">{children}</h5>
+  ),
+  h4: ({ children }) => (
+    <h6 className="font-medium mt-4 mb-1 first:mt-0">{children}</h6>
+  ),
+  h5: ({ children }) => (
+    <h6 className="font-medium mt-3 mb-1 first:mt-0">{children}</h6>
+  ),
+  h6: ({ children }) => (
+    <h6 className="font-medium mt-3 mb-1 first:mt-0">{children}</h6>
+  ),
+  p: ({ children }) => (
+    <p className="my-3 leading-relaxed first:mt-0 last:mb-0">{children}</p>
+  ),
+  a: ({ href, children }) =>
+    href ? (
+      <a
+        href={href}
+        target="_blank"
+        rel="noopener noreferrer nofollow"
+        className="text-primary hover:underline break-words"
+      >
+        {children}
+      </a>
+    ) : (
+      <span>{children}</span>
+    ),
+  // Remote images could track readers, so they are shown as links
+  img: ({ src, alt }) =>
+    typeof src === "string" && src ? (
+      <a
+        href={src}
+        target="_blank"
+        rel="noopener noreferrer nofollow"
+        className="text-primary hover:underline break-words"
+      >
+        {alt || src}
+      </a>
+    ) : null,
+  ul: ({ children }) => (
+    <ul className="list-disc pl-6 my-3 space-y-1">{children}</ul>
+  ),
+  ol: ({ children }) => (
+    <ol className="list-decimal pl-6 my-3 space-y-1">{children}</ol>
+  ),
+  blockquote: ({ children }) => (
+    <blockquote className="border-l-2 border-border pl-4 my-3 text-muted-foreground">
+      {children}
+    </blockquote>
+  ),
+  code: ({ children }) => (
+    <code className="font-mono text-xs bg-secondary px-1 py-0.5 rounded">
+      {children}
+    </code>
+  ),
+  pre: ({ children }) => (
+    <pre className="my-3 p-3 rounded-md bg-secondary/50 overflow-x-auto text-xs [&>code]:bg-transparent [&>code]:p-0">
+      {children}
+    </pre>
+  ),
+  hr: () => <hr className="my-4 border-border" />,
+  table: ({ children }) => (
+    <div className="my-3 overflow-x-auto">
+      <table className="w-full text-sm border-collapse">{children}</table>
+    </div>
+  ),
+  th: ({ children }) => (
+    <th className="border border-border bg-secondary/50 px-3 py-2 text-left font-medium">
+      {children}
+    </th>
+  ),
+  td: ({ children }) => (
+    <td className="border border-border px-3 py-2 align-top">{children}</td>
+  ),
+};
+
+/**
+ * Render untrusted Markdown from an anchor document
+ * Supports GitHub-flavored tables; HTML and unsafe link schemes are dropped
+ */
+export function MarkdownContent({
+  content,
+  className,
+}: {
+  content: string;
+  className?: string;
+}) {
+  return (
+    <div className={cn("text-foreground/90 break-words", className)}>
+      <Markdown
+        remarkPlugins={[remarkGfm]}
+        skipHtml
+        urlTransform={toSafeUrl}
+        components={MARKDOWN_COMPONENTS}
+      >
+        {content}
+      </Markdown>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+import { useState, useCallback } from "react";
+import { useWallet } from "@meshsdk/react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  addCosignerWitnesses,
+  getWitnessKeyHashes,
+  isNativeScriptSatisfied,
+  type MultisigDRep,
+} from "@/lib/multisig";
+import {
+  AlertCircle,
+  CheckCircle,
+  Circle,
+  Copy,
+  Loader2,
+  PenLine,
+} from "lucide-react";
+
+interface MultisigSignaturesProps {
+  unsignedTx: string;
+  multisig: MultisigDRep;
+  onSubmitted: (txHash: string) => void;
+  onCancel: () => void;
+}
+
+function formatKeyHash(keyHash: string): string {
+  return `${keyHash.slice(0, 10)}...${keyHash.slice(-6)}`;
+}
+
+/**
+ * Collects co-signer witnesses for a multisig DRep vote transaction
+ * and submits it once the native script threshold is met
+ */
+export function MultisigSignatures({
+  unsignedTx,
+  multisig,
+  onSubmitted,
+  onCancel,
+}: MultisigSignaturesProps) {
+  const { wallet } = useWallet();
+  const [signedTx, setSignedTx] = useState(unsignedTx);
+  const [hasWalletSigned, setHasWalletSigned] = useState(false);
+  const [cosignerInput, setCosignerInput] = useState("");
+  const [isSigning, setIsSigning] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isCopied, setIsCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const collected = new Set(getWitnessKeyHashes(signedTx));
+  const collectedScriptSigners = multisig.signers.filter((keyHash) =>
+    collected.has(keyHash)
+  );
+  const isThresholdMet = isNativeScriptSatisfied(multisig.script, collected);
+  const canSubmit = isThresholdMet && hasWalletSigned;
+
+  const copyUnsignedTx = async () => {
+    try {
+      await navigator.clipboard.writeText(unsignedTx);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy transaction:", err);
+    }
+  };
+
+  // The connected wallet funds the fee, so its payment key must always sign
+  const signWithWallet = useCallback(async () => {
+    if (!wallet) return;
+    setIsSigning(true);
+    setError(null);
+    try {
+      const walletSignature = await wallet.signTx(signedTx, true);
+      setSignedTx(await addCosignerWitnesses(signedTx, walletSignature));
+      setHasWalletSigned(true);
+    } catch (err) {
+      console.error("Multisig wallet signing error:", err);
+      setError(err instanceof Error ? err.message : "Failed to sign transaction");
+    } finally {
+      setIsSigning(false);
+    }
+  }, [wallet, signedTx]);
+
+  // Co-signers may only add keys of the native script
+  const addCosignerSignature = async () => {
+    if (!cosignerInput.trim()) return;
+    setError(null);
+    try {
+      setSignedTx(
+        await addCosignerWitnesses(signedTx, cosignerInput, multisig.signers)
+      );
+      setCosignerInput("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add signature");
+    }
+  };
+
+  const submitTx = useCallback(async () => {
+    if (!wallet || !canSubmit) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const submittedTxHash = await wallet.submitTx(signedTx);
+      onSubmitted(submittedTxHash);
+    } catch (err) {
+      console.error("Multisig vote submission error:", err);
+      setError(err instanceof Error ? err.message : "Failed to submit vote");
+      setIsSubmitting(false);
+    }
+  }, [wallet, canSubmit, signedTx, onSubmitted]);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Unsigned Transaction (CBOR)</Label>
+          <Button size="sm" variant="ghost" onClick={copyUnsignedTx}>
+            <Copy className="h-3 w-3 mr-1" />
+            {isCopied ? "Copied" : "Copy"}
+          </Button>
+        </div>
+        <Textarea
+          readOnly
+          value={unsignedTx}
+          className="font-mono text-xs h-20 resize-none"
+        />
+        <p className="text-xs text-muted-foreground">
+          Share this CBOR with each co-signer. They sign it with partial
+          signing enabled and send back the signed transaction or witness set.
+        </p>
+      </div>
+
+      <div className="bg-secondary/50 p-4 rounded-lg space-y-2">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium">Signatures</span>
+          <Badge
+            variant="outline"
+            className={
+              isThresholdMet
+                ? "bg-success/20 text-success border-success/30"
+                : "bg-amber-500/20 text-amber-500 border-amber-500/30"
+            }
+          >
+            {collectedScriptSigners.length} / {multisig.requiredSignatures}{" "}
+            required
+          </Badge>
+        </div>
+        <ul className="space-y-1">
+          {multisig.signers.map((keyHash) => (
+            <li
+              key={keyHash}
+              className="flex items-center gap-2 text-xs font-mono text-muted-foreground"
+            >
+              {collected.has(keyHash) ? (
+                <CheckCircle className="h-3 w-3 text-success" />
+              ) : (
+                <Circle className="h-3 w-3" />
+              )}
+              {formatKeyHash(keyHash)}
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <Button
+        variant="outline"
+        className="w-full"
+        onClick={signWithWallet}
+        disabled={isSigning || isSubmitting || hasWalletSigned}
+      >
+        {isSigning ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : hasWalletSigned ? (
+          <CheckCircle className="h-4 w-4 mr-2 text-success" />
+        ) : (
+          <PenLine className="h-4 w-4 mr-2" />
+        )}
+        {hasWalletSigned ? "Signed with Connected Wallet" : "Sign with Connected Wallet"}
+      </Button>
+
+      <div className="space-y-2">
+        <Label htmlFor="cosignerSignature">Co-signer Signature</Label>
+        <Textarea
+          id="cosignerSignature"
+          placeholder="Paste signed transaction or witness set CBOR..."
+          value={cosignerInput}
+          onChange={(e) => setCosignerInput(e.target.value)}
+          className="font-mono text-xs h-20 resize-none"
+          disabled={isSubmitting}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={addCosignerSignature}
+          disabled={!cosignerInput.trim() || isSubmitting}
+        >
+          Add Signature
+        </Button>
+      </div>
+
+      {error && (
+        <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+          <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <Button
+          variant="outline"
+          className="flex-1"
+          onClick={onCancel}
+          disabled={isSubmitting}
+        >
+          Cancel
+        </Button>
+        <Button
+          className="flex-1"
+          onClick={submitTx}
+          disabled={!canSubmit || isSubmitting}
+        >
+          {isSubmitting ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Submitting...
+            </>
+          ) : (
+            "Submit Vote"
+          )}
+        </Button>
+      </div>
+
+      {!canSubmit && (
+        <p className="text-xs text-muted-foreground text-center">
+          {!isThresholdMet
+            ? "Collect enough co-signer signatures to meet the script threshold."
+            : "Sign with your connected wallet to pay the transaction fee."}
+        </p>
+      )}
+    </div>
+  );
+}
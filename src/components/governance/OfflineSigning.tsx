@@ -0,0 +1,289 @@
+import { useState, useCallback } from "react";
+import { useWallet } from "@meshsdk/react";
+import { resolveTxHash } from "@meshsdk/core";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { addCosignerWitnesses, getWitnessKeyHashes } from "@/lib/multisig";
+import { attachOfflineSignatures, toTextEnvelope } from "@/lib/offlineSigning";
+import { submitTransaction } from "@/services/api";
+import {
+  AlertCircle,
+  CheckCircle,
+  Copy,
+  Download,
+  Loader2,
+  PenLine,
+  Upload,
+} from "lucide-react";
+
+interface OfflineSigningProps {
+  unsignedTx: string;
+  onSubmitted: (txHash: string) => void;
+  onCancel: () => void;
+}
+
+function formatKeyHash(keyHash: string): string {
+  return `${keyHash.slice(0, 10)}...${keyHash.slice(-6)}`;
+}
+
+function downloadFile(fileName: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Exports a vote transaction for air-gapped signing and submits it once
+ * the offline signatures are imported back
+ */
+export function OfflineSigning({
+  unsignedTx,
+  onSubmitted,
+  onCancel,
+}: OfflineSigningProps) {
+  const { wallet } = useWallet();
+  const [signedTx, setSignedTx] = useState(unsignedTx);
+  const [hasWalletSigned, setHasWalletSigned] = useState(false);
+  const [signatureInput, setSignatureInput] = useState("");
+  const [isSigning, setIsSigning] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isCopied, setIsCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const txHash = resolveTxHash(unsignedTx);
+  const fileBaseName = `vote-${txHash.slice(0, 8)}`;
+  const collected = getWitnessKeyHashes(signedTx);
+
+  const copyUnsignedTx = async () => {
+    try {
+      await navigator.clipboard.writeText(unsignedTx);
+      setIsCopied(true);
+      setTimeout(() => setIsCopied(false), 2000);
+    } catch (err) {
+      console.error("Failed to copy transaction:", err);
+    }
+  };
+
+  // The connected wallet funds the fee, so its payment key may need to sign too
+  const signWithWallet = useCallback(async () => {
+    if (!wallet) return;
+    setIsSigning(true);
+    setError(null);
+    try {
+      const walletSignature = await wallet.signTx(signedTx, true);
+      setSignedTx(await addCosignerWitnesses(signedTx, walletSignature));
+      setHasWalletSigned(true);
+    } catch (err) {
+      console.error("Offline vote wallet signing error:", err);
+      setError(err instanceof Error ? err.message : "Failed to sign transaction");
+    } finally {
+      setIsSigning(false);
+    }
+  }, [wallet, signedTx]);
+
+  const importSignatures = async (contents: string[]) => {
+    setIsImporting(true);
+    setError(null);
+    try {
+      let nextTx = signedTx;
+      for (const content of contents) {
+        nextTx = await attachOfflineSignatures(nextTx, content);
+      }
+      setSignedTx(nextTx);
+      setSignatureInput("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add signature");
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const contents = await Promise.all(
+      Array.from(files).map((file) => file.text())
+    );
+    importSignatures(contents);
+  };
+
+  const submitTx = async () => {
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const result = await submitTransaction(signedTx);
+      onSubmitted(result.txHash);
+    } catch (err) {
+      console.error("Offline vote submission error:", err);
+      setError(err instanceof Error ? err.message : "Failed to submit vote");
+      setIsSubmitting(false);
+    }
+  };
+
+  const isBusy = isSigning || isImporting || isSubmitting;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Unsigned Transaction</Label>
+          <Button size="sm" variant="ghost" onClick={copyUnsignedTx}>
+            <Copy className="h-3 w-3 mr-1" />
+            {isCopied ? "Copied" : "Copy CBOR"}
+          </Button>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={() =>
+              downloadFile(
+                `${fileBaseName}.unsigned.json`,
+                JSON.stringify(toTextEnvelope(unsignedTx), null, 4),
+                "application/json"
+              )
+            }
+          >
+            <Download className="h-3 w-3 mr-1" />
+            TextEnvelope JSON
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={() =>
+              downloadFile(`${fileBaseName}.cbor`, unsignedTx, "text/plain")
+            }
+          >
+            <Download className="h-3 w-3 mr-1" />
+            CBOR Hex
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Sign the TextEnvelope with{" "}
+          <code>cardano-cli conway transaction sign</code> or create detached
+          witnesses with <code>transaction witness</code>, then import the
+          result below.
+        </p>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="offlineSignatureFiles">Signed Transaction or Witnesses</Label>
+        <label
+          htmlFor="offlineSignatureFiles"
+          className="flex items-center justify-center gap-2 p-3 rounded-lg border border-dashed border-border text-sm text-muted-foreground cursor-pointer hover:bg-secondary/30"
+        >
+          <Upload className="h-4 w-4" />
+          Upload files
+        </label>
+        <input
+          id="offlineSignatureFiles"
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            handleFiles(e.target.files);
+            e.target.value = "";
+          }}
+          disabled={isBusy}
+        />
+        <Textarea
+          placeholder="Or paste CBOR hex or TextEnvelope JSON..."
+          value={signatureInput}
+          onChange={(e) => setSignatureInput(e.target.value)}
+          className="font-mono text-xs h-20 resize-none"
+          disabled={isBusy}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          className="w-full"
+          onClick={() => importSignatures([signatureInput])}
+          disabled={!signatureInput.trim() || isBusy}
+        >
+          {isImporting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+          Add Signatures
+        </Button>
+      </div>
+
+      <div className="bg-secondary/50 p-4 rounded-lg space-y-2">
+        <span className="text-sm font-medium">
+          Signatures ({collected.length})
+        </span>
+        {collected.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            No signatures yet. Each one is checked against transaction{" "}
+            {formatKeyHash(txHash)}.
+          </p>
+        ) : (
+          <ul className="space-y-1">
+            {collected.map((keyHash) => (
+              <li
+                key={keyHash}
+                className="flex items-center gap-2 text-xs font-mono text-muted-foreground"
+              >
+                <CheckCircle className="h-3 w-3 text-success" />
+                {formatKeyHash(keyHash)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      <Button
+        variant="outline"
+        className="w-full"
+        onClick={signWithWallet}
+        disabled={isBusy || hasWalletSigned}
+      >
+        {isSigning ? (
+          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+        ) : hasWalletSigned ? (
+          <CheckCircle className="h-4 w-4 mr-2 text-success" />
+        ) : (
+          <PenLine className="h-4 w-4 mr-2" />
+        )}
+        {hasWalletSigned
+          ? "Fee Signed with Connected Wallet"
+          : "Sign Fee with Connected Wallet"}
+      </Button>
+
+      {error && (
+        <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+          <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <Button
+          variant="outline"
+          className="flex-1"
+          onClick={onCancel}
+          disabled={isSubmitting}
+        >
+          Cancel
+        </Button>
+        <Button
+          className="flex-1"
+          onClick={submitTx}
+          disabled={collected.length === 0 || isBusy}
+        >
+          {isSubmitting ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Submitting...
+            </>
+          ) : (
+            "Submit Vote"
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
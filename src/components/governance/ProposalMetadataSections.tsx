@@ -0,0 +1,143 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { Card } from "@/components/ui/card";
+import { MarkdownContent } from "./MarkdownContent";
+import { ReferenceList } from "./ReferenceList";
+import {
+  parseProposalMetadata,
+  type ParsedProposalMetadata,
+} from "@/lib/proposalMetadata";
+import { verifyAnchorContent } from "@/lib/anchor";
+import { fetchAnchorContent } from "@/services/api";
+import type { GovernanceActionDetail } from "@/types/governance";
+import { AlertCircle } from "lucide-react";
+
+interface ProposalMetadataState {
+  metadata: ParsedProposalMetadata | null;
+  // The document's bytes don't hash to the on-chain anchor hash
+  isMismatch: boolean;
+}
+
+/**
+ * Read a governance action's CIP-108 document from its anchor
+ * A document that doesn't match the anchor hash is discarded, so text
+ * changed after submission is never shown as the proposal's own
+ * @returns null metadata when there is no readable CIP-108 document
+ */
+async function loadProposalMetadata(
+  anchorUrl: string,
+  anchorHash?: string
+): Promise<ProposalMetadataState> {
+  try {
+    const content = await fetchAnchorContent(anchorUrl, anchorHash);
+    if (
+      anchorHash &&
+      verifyAnchorContent(content, anchorHash).status === "mismatch"
+    ) {
+      return { metadata: null, isMismatch: true };
+    }
+    return {
+      metadata: parseProposalMetadata(
+        JSON.parse(new TextDecoder().decode(content))
+      ),
+      isMismatch: false,
+    };
+  } catch {
+    return { metadata: null, isMismatch: false };
+  }
+}
+
+function MetadataSection({
+  title,
+  content,
+  children,
+}: {
+  title: string;
+  content: string;
+  children?: ReactNode;
+}) {
+  if (!content) return null;
+  return (
+    <Card className="p-6">
+      <h2 className="text-xl font-semibold mb-4">{title}</h2>
+      {children}
+      <MarkdownContent content={content} />
+    </Card>
+  );
+}
+
+/**
+ * Abstract, motivation, rationale and references of a governance action
+ * Read from the CIP-108 anchor document; the backend's description and
+ * rationale are shown until it loads, when it can't be read or when it
+ * fails the anchor hash check
+ */
+export function ProposalMetadataSections({
+  action,
+}: {
+  action: GovernanceActionDetail;
+}) {
+  const [metadataState, setMetadataState] =
+    useState<ProposalMetadataState | null>(null);
+
+  useEffect(() => {
+    setMetadataState(null);
+    if (!action.anchorUrl) return;
+
+    let cancelled = false;
+    loadProposalMetadata(action.anchorUrl, action.anchorHash).then(
+      (result) => {
+        if (!cancelled) setMetadataState(result);
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [action.anchorUrl, action.anchorHash]);
+
+  const metadata = metadataState?.metadata ?? null;
+
+  if (!metadata) {
+    return (
+      <>
+        {metadataState?.isMismatch && (
+          <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>
+              The anchor document does not match the hash recorded on-chain. It
+              may have been changed after submission, so it is not shown here.
+            </span>
+          </div>
+        )}
+        <Card className="p-6">
+          <h2 className="text-xl font-semibold mb-4">Description</h2>
+          {action.description ? (
+            <MarkdownContent content={action.description} />
+          ) : (
+            <p className="text-muted-foreground">No description provided.</p>
+          )}
+        </Card>
+        <MetadataSection title="Rationale" content={action.rationale ?? ""} />
+      </>
+    );
+  }
+
+  return (
+    <>
+      <MetadataSection title="Abstract" content={metadata.abstract}>
+        {metadata.authors.length > 0 && (
+          <p className="text-sm text-muted-foreground mb-4">
+            By {metadata.authors.join(", ")}
+          </p>
+        )}
+      </MetadataSection>
+      <MetadataSection title="Motivation" content={metadata.motivation} />
+      <MetadataSection title="Rationale" content={metadata.rationale} />
+      {metadata.references.length > 0 && (
+        <Card className="p-6">
+          <h2 className="text-xl font-semibold mb-4">References</h2>
+          <ReferenceList references={metadata.references} />
+        </Card>
+      )}
+    </>
+  );
+}
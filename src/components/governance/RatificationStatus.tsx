@@ -0,0 +1,126 @@
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { VOTER_ROLE_LABELS } from "@/lib/voter";
+import { getRatificationStatus } from "@/lib/governanceRules";
+import type { GovernanceAction } from "@/types/governance";
+import { CheckCircle2, XCircle } from "lucide-react";
+
+const PARAMETER_GROUP_LABELS = {
+  network: "Network",
+  economic: "Economic",
+  technical: "Technical",
+  governance: "Governance",
+  security: "Security",
+} as const;
+
+/**
+ * Badge with the "would ratify if the epoch ended now" verdict
+ * Only shown for active actions
+ */
+export function RatificationVerdict({ action }: { action: GovernanceAction }) {
+  if (action.status !== "Active") return null;
+
+  const { isRatifiable, wouldRatify } = getRatificationStatus(action);
+
+  if (!isRatifiable) {
+    return (
+      <Badge variant="outline" className="bg-muted text-muted-foreground">
+        Not ratifiable
+      </Badge>
+    );
+  }
+
+  return wouldRatify ? (
+    <Badge
+      variant="outline"
+      className="bg-emerald-500/20 text-emerald-500 border-emerald-500/30"
+    >
+      Would ratify now
+    </Badge>
+  ) : (
+    <Badge variant="outline" className="bg-muted text-muted-foreground">
+      Below threshold
+    </Badge>
+  );
+}
+
+/**
+ * Per-body threshold breakdown for the detail page
+ */
+export function RatificationStatusCard({
+  action,
+}: {
+  action: GovernanceAction;
+}) {
+  const { bodies, parameterGroups, isRatifiable, wouldRatify } =
+    getRatificationStatus(action);
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-semibold">Ratification</h3>
+        <RatificationVerdict action={action} />
+      </div>
+
+      {!isRatifiable ? (
+        <p className="text-sm text-muted-foreground">
+          Info actions are recorded on-chain but can never be ratified.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {bodies.map((status) => (
+            <div
+              key={status.body}
+              className="flex items-center justify-between text-sm"
+            >
+              <span className="flex items-center gap-2">
+                {status.meetsThreshold ? (
+                  <CheckCircle2 className="h-4 w-4 text-emerald-500" />
+                ) : (
+                  <XCircle className="h-4 w-4 text-muted-foreground" />
+                )}
+                {VOTER_ROLE_LABELS[status.body]}
+              </span>
+              <span className="text-muted-foreground">
+                {status.yesPercent.toFixed(1)}% /{" "}
+                {status.thresholdPercent.toFixed(0)}%
+              </span>
+            </div>
+          ))}
+
+          {parameterGroups && (
+            <div className="pt-2 border-t border-border space-y-1">
+              <p className="text-xs text-muted-foreground">
+                {action.protocolParamGroups?.length
+                  ? "Parameter group thresholds"
+                  : "Parameter groups unknown, using the highest group threshold"}
+              </p>
+              {parameterGroups.map((group) => (
+                <div
+                  key={group.group}
+                  className="flex justify-between text-xs text-muted-foreground"
+                >
+                  <span>{PARAMETER_GROUP_LABELS[group.group]}</span>
+                  <span>
+                    {group.drep !== null &&
+                      `DRep ${(group.drep * 100).toFixed(0)}%`}
+                    {group.spo !== null &&
+                      `SPO ${(group.spo * 100).toFixed(0)}%`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {action.status === "Active" && (
+            <p className="pt-2 text-xs text-muted-foreground">
+              {wouldRatify
+                ? "All voting bodies are above their thresholds. The action would ratify if the epoch ended now."
+                : "Not every voting body has reached its threshold yet."}
+            </p>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
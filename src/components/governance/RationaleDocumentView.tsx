@@ -0,0 +1,111 @@
+import { MarkdownContent } from "./MarkdownContent";
+import { ReferenceList } from "./ReferenceList";
+import {
+  parseRationaleDocument,
+  type RationaleInternalVote,
+} from "@/lib/rationale";
+
+const INTERNAL_VOTE_LABELS: Record<keyof RationaleInternalVote, string> = {
+  constitutional: "Constitutional",
+  unconstitutional: "Unconstitutional",
+  abstain: "Abstain",
+  didNotVote: "Did not vote",
+  againstVote: "Against voting",
+};
+
+function RationaleSection({
+  title,
+  content,
+}: {
+  title: string;
+  content: string;
+}) {
+  if (!content) return null;
+  return (
+    <section className="space-y-2">
+      <h3 className="font-semibold">{title}</h3>
+      <MarkdownContent content={content} className="text-sm" />
+    </section>
+  );
+}
+
+/**
+ * Render a fetched vote rationale document
+ * CIP-136 sections and CIP-100 comments are shown as Markdown; documents
+ * that aren't JSON are treated as Markdown themselves
+ */
+export function RationaleDocumentView({ rawText }: { rawText: string }) {
+  let json: unknown;
+  try {
+    json = JSON.parse(rawText);
+  } catch {
+    return <MarkdownContent content={rawText} className="text-sm" />;
+  }
+
+  const rationale = parseRationaleDocument(json);
+  if (!rationale) {
+    return (
+      <div className="space-y-2">
+        <p className="text-sm text-muted-foreground">
+          This document is not in CIP-100 or CIP-136 format. Showing it as
+          published.
+        </p>
+        <pre className="p-3 rounded-md bg-secondary/50 text-xs font-mono whitespace-pre-wrap break-all">
+          {rawText}
+        </pre>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {rationale.authors.length > 0 && (
+        <p className="text-sm text-muted-foreground">
+          By {rationale.authors.join(", ")}
+        </p>
+      )}
+      <RationaleSection title="Summary" content={rationale.summary} />
+      <RationaleSection
+        title="Rationale"
+        content={rationale.rationaleStatement}
+      />
+      <RationaleSection
+        title="Precedent Discussion"
+        content={rationale.precedentDiscussion}
+      />
+      <RationaleSection
+        title="Counterarguments"
+        content={rationale.counterargumentDiscussion}
+      />
+      <RationaleSection title="Conclusion" content={rationale.conclusion} />
+      {rationale.internalVote && (
+        <section className="space-y-2">
+          <h3 className="font-semibold">Internal Vote</h3>
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-2">
+            {(
+              Object.keys(INTERNAL_VOTE_LABELS) as (keyof RationaleInternalVote)[]
+            ).map((key) => (
+              <div
+                key={key}
+                className="p-2 rounded-md bg-secondary/50 text-center"
+              >
+                <div className="font-semibold">
+                  {rationale.internalVote![key]}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  {INTERNAL_VOTE_LABELS[key]}
+                </div>
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+      {rationale.references.length > 0 && (
+        <section className="space-y-2">
+          <h3 className="font-semibold">References</h3>
+          <ReferenceList references={rationale.references} />
+        </section>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,371 @@
+import { useState } from "react";
+import type { Anchor } from "@meshsdk/core";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { storeRationale } from "@/services/api";
+import {
+  EMPTY_INTERNAL_VOTE,
+  RATIONALE_REFERENCE_TYPES,
+  RATIONALE_SUMMARY_MAX_LENGTH,
+  buildRationaleDocument,
+  validateRationale,
+  type RationaleInput,
+  type RationaleInternalVote,
+  type RationaleReferenceType,
+} from "@/lib/rationale";
+import { AlertCircle, Loader2, Plus, X } from "lucide-react";
+
+interface RationaleEditorProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onPublished: (anchor: Anchor) => void;
+}
+
+const INITIAL_INPUT: RationaleInput = {
+  authorName: "",
+  summary: "",
+  rationaleStatement: "",
+  precedentDiscussion: "",
+  counterargumentDiscussion: "",
+  conclusion: "",
+  internalVote: null,
+  references: [],
+};
+
+const INTERNAL_VOTE_LABELS: Record<keyof RationaleInternalVote, string> = {
+  constitutional: "Constitutional",
+  unconstitutional: "Unconstitutional",
+  abstain: "Abstain",
+  didNotVote: "Did Not Vote",
+  againstVote: "Against Vote",
+};
+
+const OPTIONAL_SECTIONS: {
+  field: "precedentDiscussion" | "counterargumentDiscussion" | "conclusion";
+  label: string;
+}[] = [
+  { field: "precedentDiscussion", label: "Precedent Discussion" },
+  { field: "counterargumentDiscussion", label: "Counterargument Discussion" },
+  { field: "conclusion", label: "Conclusion" },
+];
+
+/**
+ * Editor for CIP-136 vote rationales
+ * Validates the document, stores it through the API and returns the anchor
+ */
+export function RationaleEditor({
+  open,
+  onOpenChange,
+  onPublished,
+}: RationaleEditorProps) {
+  const [input, setInput] = useState<RationaleInput>(INITIAL_INPUT);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [showErrors, setShowErrors] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const rationaleDocument = buildRationaleDocument(input);
+  const validationErrors = validateRationale(rationaleDocument);
+
+  const updateField = <K extends keyof RationaleInput>(
+    field: K,
+    value: RationaleInput[K]
+  ) => {
+    setInput((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const updateInternalVote = (
+    key: keyof RationaleInternalVote,
+    value: string
+  ) => {
+    const count = Math.max(0, parseInt(value, 10) || 0);
+    setInput((prev) => ({
+      ...prev,
+      internalVote: {
+        ...(prev.internalVote ?? EMPTY_INTERNAL_VOTE),
+        [key]: count,
+      },
+    }));
+  };
+
+  const updateReference = (
+    index: number,
+    changes: Partial<RationaleInput["references"][number]>
+  ) => {
+    setInput((prev) => ({
+      ...prev,
+      references: prev.references.map((ref, i) =>
+        i === index ? { ...ref, ...changes } : ref
+      ),
+    }));
+  };
+
+  const publish = async () => {
+    setShowErrors(true);
+    if (validationErrors.length > 0) return;
+
+    setIsPublishing(true);
+    setError(null);
+    try {
+      const { url, hash } = await storeRationale(rationaleDocument);
+      onPublished({ anchorUrl: url, anchorDataHash: hash });
+      setInput(INITIAL_INPUT);
+      setShowErrors(false);
+      onOpenChange(false);
+    } catch (err) {
+      console.error("Rationale publish error:", err);
+      setError(err instanceof Error ? err.message : "Failed to store rationale");
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Write Vote Rationale</DialogTitle>
+          <DialogDescription>
+            Creates a CIP-136 rationale document and fills in the anchor URL
+            and hash for your vote.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="h-[60vh] pr-4">
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rationaleAuthor">Author (Optional)</Label>
+              <Input
+                id="rationaleAuthor"
+                value={input.authorName}
+                onChange={(e) => updateField("authorName", e.target.value)}
+                disabled={isPublishing}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex justify-between">
+                <Label htmlFor="rationaleSummary">Summary</Label>
+                <span
+                  className={`text-xs ${
+                    input.summary.trim().length > RATIONALE_SUMMARY_MAX_LENGTH
+                      ? "text-destructive"
+                      : "text-muted-foreground"
+                  }`}
+                >
+                  {input.summary.trim().length}/{RATIONALE_SUMMARY_MAX_LENGTH}
+                </span>
+              </div>
+              <Textarea
+                id="rationaleSummary"
+                value={input.summary}
+                onChange={(e) => updateField("summary", e.target.value)}
+                disabled={isPublishing}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rationaleStatement">Rationale Statement</Label>
+              <Textarea
+                id="rationaleStatement"
+                value={input.rationaleStatement}
+                onChange={(e) =>
+                  updateField("rationaleStatement", e.target.value)
+                }
+                className="min-h-[120px]"
+                disabled={isPublishing}
+              />
+            </div>
+
+            {OPTIONAL_SECTIONS.map(({ field, label }) => (
+              <div key={field} className="space-y-2">
+                <Label htmlFor={field}>{label} (Optional)</Label>
+                <Textarea
+                  id={field}
+                  value={input[field]}
+                  onChange={(e) => updateField(field, e.target.value)}
+                  disabled={isPublishing}
+                />
+              </div>
+            ))}
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>Internal Vote (Optional)</Label>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() =>
+                    updateField(
+                      "internalVote",
+                      input.internalVote ? null : EMPTY_INTERNAL_VOTE
+                    )
+                  }
+                  disabled={isPublishing}
+                >
+                  {input.internalVote ? "Remove" : "Add"}
+                </Button>
+              </div>
+              {input.internalVote && (
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+                  {(
+                    Object.keys(
+                      INTERNAL_VOTE_LABELS
+                    ) as (keyof RationaleInternalVote)[]
+                  ).map((key) => (
+                    <div key={key} className="space-y-1">
+                      <Label
+                        htmlFor={`internalVote-${key}`}
+                        className="text-xs text-muted-foreground"
+                      >
+                        {INTERNAL_VOTE_LABELS[key]}
+                      </Label>
+                      <Input
+                        id={`internalVote-${key}`}
+                        type="number"
+                        min={0}
+                        value={input.internalVote?.[key] ?? 0}
+                        onChange={(e) =>
+                          updateInternalVote(key, e.target.value)
+                        }
+                        disabled={isPublishing}
+                      />
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <Label>References (Optional)</Label>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() =>
+                    updateField("references", [
+                      ...input.references,
+                      { "@type": "Other", label: "", uri: "" },
+                    ])
+                  }
+                  disabled={isPublishing}
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+              {input.references.map((ref, index) => (
+                <div key={index} className="flex gap-2 items-center">
+                  <Select
+                    value={ref["@type"]}
+                    onValueChange={(value) =>
+                      updateReference(index, {
+                        "@type": value as RationaleReferenceType,
+                      })
+                    }
+                    disabled={isPublishing}
+                  >
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RATIONALE_REFERENCE_TYPES.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {type}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    placeholder="Label"
+                    value={ref.label}
+                    onChange={(e) =>
+                      updateReference(index, { label: e.target.value })
+                    }
+                    disabled={isPublishing}
+                  />
+                  <Input
+                    placeholder="https://... or ipfs://..."
+                    value={ref.uri}
+                    onChange={(e) =>
+                      updateReference(index, { uri: e.target.value })
+                    }
+                    disabled={isPublishing}
+                  />
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() =>
+                      updateField(
+                        "references",
+                        input.references.filter((_, i) => i !== index)
+                      )
+                    }
+                    disabled={isPublishing}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </ScrollArea>
+
+        {showErrors && validationErrors.length > 0 && (
+          <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <ul className="space-y-1">
+              {validationErrors.map((validationError) => (
+                <li key={validationError}>{validationError}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <div className="flex gap-3">
+          <Button
+            variant="outline"
+            className="flex-1"
+            onClick={() => onOpenChange(false)}
+            disabled={isPublishing}
+          >
+            Cancel
+          </Button>
+          <Button className="flex-1" onClick={publish} disabled={isPublishing}>
+            {isPublishing ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Publishing...
+              </>
+            ) : (
+              "Publish Rationale"
+            )}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,130 @@
+import { useEffect, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { AnchorStatusBadge } from "./AnchorVerification";
+import { toViewableAnchorUrl, verifyAnchorContent } from "@/lib/anchor";
+import { fetchAnchorContent, fetchAnchorLinkCheck } from "@/services/api";
+import type { AnchorVerificationStatus } from "@/types/governance";
+import { ExternalLink, Loader2 } from "lucide-react";
+
+/**
+ * CIP-100 reference as read from a proposal or rationale document
+ */
+export interface MetadataReference {
+  "@type": string;
+  label: string;
+  uri: string;
+  referenceHash?: string;
+}
+
+// reachable: the link resolves but carries no hash to verify
+type ReferenceStatus = AnchorVerificationStatus | "reachable";
+
+const REFERENCE_STATUS_LABELS: Record<ReferenceStatus, string> = {
+  verified: "Hash verified",
+  mismatch: "Hash mismatch",
+  unreachable: "Unreachable",
+  reachable: "Reachable",
+};
+
+/**
+ * Check a reference through the anchor proxy
+ * References with a hash are downloaded and verified, others only resolved
+ */
+async function checkReference(
+  uri: string,
+  referenceHash?: string
+): Promise<ReferenceStatus> {
+  try {
+    if (referenceHash) {
+      const content = await fetchAnchorContent(uri, referenceHash);
+      return verifyAnchorContent(content, referenceHash).status;
+    }
+    const check = await fetchAnchorLinkCheck(uri);
+    return check.reachable ? "reachable" : "unreachable";
+  } catch {
+    return "unreachable";
+  }
+}
+
+function ReferenceItem({ reference }: { reference: MetadataReference }) {
+  const { uri, referenceHash } = reference;
+  const href = toViewableAnchorUrl(uri);
+  const [status, setStatus] = useState<ReferenceStatus | null>(null);
+
+  // The reference is re-checked only when its target changes
+  useEffect(() => {
+    if (!href) return;
+    let cancelled = false;
+    setStatus(null);
+    checkReference(uri, referenceHash).then((result) => {
+      if (!cancelled) setStatus(result);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [href, uri, referenceHash]);
+
+  return (
+    <li className="flex items-start justify-between gap-3 p-3 rounded-lg border border-border">
+      <div className="min-w-0 space-y-1">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-medium">
+            {reference.label || "Untitled reference"}
+          </span>
+          <Badge variant="outline" className="text-xs">
+            {reference["@type"]}
+          </Badge>
+        </div>
+        {href ? (
+          <a
+            href={href}
+            target="_blank"
+            rel="noopener noreferrer nofollow"
+            className="text-xs text-primary flex items-center gap-1 hover:underline break-all"
+          >
+            {reference.uri}
+            <ExternalLink className="h-3 w-3 flex-shrink-0" />
+          </a>
+        ) : (
+          <span className="text-xs text-muted-foreground break-all">
+            {reference.uri}
+          </span>
+        )}
+      </div>
+      <div className="flex-shrink-0">
+        {!href ? (
+          <span className="text-xs text-muted-foreground">
+            Unsupported link
+          </span>
+        ) : status ? (
+          <AnchorStatusBadge
+            status={status === "reachable" ? "verified" : status}
+            label={REFERENCE_STATUS_LABELS[status]}
+          />
+        ) : (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        )}
+      </div>
+    </li>
+  );
+}
+
+/**
+ * Reference list of a metadata document with a link check per entry
+ */
+export function ReferenceList({
+  references,
+}: {
+  references: MetadataReference[];
+}) {
+  return (
+    <ul className="space-y-2">
+      {references.map((reference, index) => (
+        <ReferenceItem
+          key={`${reference.uri}-${index}`}
+          reference={reference}
+        />
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,37 @@
+import { Progress } from "@/components/ui/progress";
+import { cn } from "@/lib/utils";
+
+interface ThresholdProgressProps {
+  value: number;
+  // Threshold percentage, omitted when the body has no threshold
+  threshold?: number;
+  className?: string;
+}
+
+/**
+ * Yes-vote progress bar with a marker at the ratification threshold
+ */
+export function ThresholdProgress({
+  value,
+  threshold,
+  className,
+}: ThresholdProgressProps) {
+  const meetsThreshold = threshold !== undefined && value >= threshold;
+
+  return (
+    <div className="relative">
+      <Progress
+        value={value}
+        className={cn("bg-secondary", className)}
+        indicatorClassName={meetsThreshold ? "bg-emerald-500" : undefined}
+      />
+      {threshold !== undefined && (
+        <div
+          className="absolute -top-1 -bottom-1 w-0.5 bg-foreground/70"
+          style={{ left: `${Math.min(threshold, 100)}%` }}
+          title={`Threshold: ${threshold.toFixed(0)}%`}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,307 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { VOTER_ROLE_LABELS } from "@/lib/voter";
+import { formatLovelace, type TxPreview } from "@/lib/txPreview";
+import type { VoteChoice } from "@/types/governance";
+import { AlertCircle, Loader2 } from "lucide-react";
+
+interface TxPreviewPanelProps {
+  preview: TxPreview;
+  // Governance actions the user chose to vote on, as txHash#index
+  expectedActionIds?: string[];
+  isSigning: boolean;
+  acceptLabel?: string;
+  // Signing is held back, e.g. while the wallet's network is unconfirmed
+  isBlocked?: boolean;
+  onAccept: () => void;
+  onBack: () => void;
+}
+
+function formatHash(hash: string): string {
+  return `${hash.slice(0, 10)}...${hash.slice(-6)}`;
+}
+
+function getVoteBadgeClass(vote: VoteChoice): string {
+  switch (vote) {
+    case "Yes":
+      return "bg-emerald-500/20 text-emerald-400 border-emerald-500/30";
+    case "No":
+      return "bg-red-500/20 text-red-400 border-red-500/30";
+    case "Abstain":
+      return "bg-gray-500/20 text-gray-400 border-gray-500/30";
+  }
+}
+
+/**
+ * Decoded view of an unsigned transaction
+ * Signing only starts once the user accepts what will be committed on-chain
+ */
+export function TxPreviewPanel({
+  preview,
+  expectedActionIds = [],
+  isSigning,
+  acceptLabel = "Sign Transaction",
+  isBlocked = false,
+  onAccept,
+  onBack,
+}: TxPreviewPanelProps) {
+  const expected = new Set(expectedActionIds);
+  const hasUnexpectedVote = preview.votes.some(
+    (vote) => !expected.has(vote.governanceActionId)
+  );
+
+  return (
+    <div className="space-y-4">
+      {preview.votes.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">
+            Voting procedures ({preview.votes.length})
+          </p>
+          {preview.votes.map((vote, index) => (
+            <div
+              key={`${vote.governanceActionId}-${index}`}
+              className="bg-secondary/50 p-3 rounded-lg space-y-1 text-xs"
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-muted-foreground">
+                  {VOTER_ROLE_LABELS[vote.voterType]}
+                  {vote.isScriptVoter && " (script)"}
+                </span>
+                <Badge
+                  variant="outline"
+                  className={getVoteBadgeClass(vote.vote)}
+                >
+                  {vote.vote}
+                </Badge>
+              </div>
+              <p>
+                <span className="text-muted-foreground">Voter: </span>
+                <span className="font-mono">
+                  {formatHash(vote.voterCredential)}
+                </span>
+              </p>
+              <p>
+                <span className="text-muted-foreground">Action: </span>
+                <span className="font-mono break-all">
+                  {vote.governanceActionId}
+                </span>
+              </p>
+              {vote.anchorUrl ? (
+                <>
+                  <p className="break-all">
+                    <span className="text-muted-foreground">Anchor: </span>
+                    {vote.anchorUrl}
+                  </p>
+                  <p>
+                    <span className="text-muted-foreground">Anchor hash: </span>
+                    <span className="font-mono">
+                      {formatHash(vote.anchorHash ?? "")}
+                    </span>
+                  </p>
+                </>
+              ) : (
+                <p className="text-muted-foreground">No anchor</p>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {preview.certificates.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">
+            Certificates ({preview.certificates.length})
+          </p>
+          {preview.certificates.map((cert, index) => (
+            <div
+              key={`${cert.label}-${index}`}
+              className="bg-secondary/50 p-3 rounded-lg space-y-1 text-xs"
+            >
+              <p className="font-medium">{cert.label}</p>
+              {cert.credential && (
+                <p>
+                  <span className="text-muted-foreground">Credential: </span>
+                  <span className="font-mono">
+                    {formatHash(cert.credential)}
+                  </span>
+                </p>
+              )}
+              {cert.detail && (
+                <p className="break-all">
+                  <span className="text-muted-foreground">Target: </span>
+                  {cert.detail}
+                </p>
+              )}
+              {cert.deposit !== null && (
+                <p>
+                  <span className="text-muted-foreground">Deposit: </span>
+                  {formatLovelace(cert.deposit)}
+                </p>
+              )}
+              {cert.refund !== null && (
+                <p>
+                  <span className="text-muted-foreground">
+                    Deposit refund:{" "}
+                  </span>
+                  {formatLovelace(cert.refund)}
+                </p>
+              )}
+              {cert.anchorUrl && (
+                <>
+                  <p className="break-all">
+                    <span className="text-muted-foreground">Anchor: </span>
+                    {cert.anchorUrl}
+                  </p>
+                  <p>
+                    <span className="text-muted-foreground">
+                      Anchor hash:{" "}
+                    </span>
+                    <span className="font-mono">
+                      {formatHash(cert.anchorHash ?? "")}
+                    </span>
+                  </p>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {preview.proposals.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">
+            Governance actions ({preview.proposals.length})
+          </p>
+          {preview.proposals.map((proposal, index) => (
+            <div
+              key={`${proposal.anchorHash}-${index}`}
+              className="bg-secondary/50 p-3 rounded-lg space-y-1 text-xs"
+            >
+              <p className="font-medium">{proposal.actionType}</p>
+              <p>
+                <span className="text-muted-foreground">Deposit: </span>
+                {formatLovelace(proposal.deposit)}
+              </p>
+              <p className="break-all">
+                <span className="text-muted-foreground">Deposit return: </span>
+                {proposal.returnAddress}
+              </p>
+              {proposal.previousActionId && (
+                <p>
+                  <span className="text-muted-foreground">
+                    Previous action:{" "}
+                  </span>
+                  <span className="font-mono break-all">
+                    {proposal.previousActionId}
+                  </span>
+                </p>
+              )}
+              {proposal.withdrawals.map((withdrawal) => (
+                <p key={withdrawal.stakeAddress} className="break-all">
+                  <span className="text-muted-foreground">Withdraw: </span>
+                  {formatLovelace(withdrawal.lovelace)} to{" "}
+                  {withdrawal.stakeAddress}
+                </p>
+              ))}
+              <p className="break-all">
+                <span className="text-muted-foreground">Anchor: </span>
+                {proposal.anchorUrl}
+              </p>
+              <p>
+                <span className="text-muted-foreground">Anchor hash: </span>
+                <span className="font-mono">
+                  {formatHash(proposal.anchorHash)}
+                </span>
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1 text-xs">
+        <p className="text-sm font-medium">Inputs ({preview.inputs.length})</p>
+        {preview.inputs.map((input) => (
+          <p
+            key={`${input.txHash}#${input.index}`}
+            className="font-mono text-muted-foreground"
+          >
+            {formatHash(input.txHash)}#{input.index}
+          </p>
+        ))}
+      </div>
+
+      <div className="space-y-1 text-xs">
+        <p className="text-sm font-medium">
+          Outputs ({preview.outputs.length})
+        </p>
+        {preview.outputs.map((output, index) => (
+          <div
+            key={`${output.address}-${index}`}
+            className="flex items-center justify-between gap-2"
+          >
+            <span className="font-mono text-muted-foreground">
+              {formatHash(output.address)}
+              {output.isChange && (
+                <Badge variant="outline" className="ml-2">
+                  Change
+                </Badge>
+              )}
+            </span>
+            <span>
+              {formatLovelace(output.lovelace)}
+              {output.assetCount > 0 &&
+                ` + ${output.assetCount} ${
+                  output.assetCount === 1 ? "asset" : "assets"
+                }`}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between text-sm bg-secondary/50 p-3 rounded-lg">
+        <span className="font-medium">Network fee</span>
+        <span>{formatLovelace(preview.fee)}</span>
+      </div>
+
+      {hasUnexpectedVote && (
+        <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+          <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>
+            This transaction votes on a governance action you did not select.
+            Do not sign it.
+          </span>
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        <Button
+          variant="outline"
+          className="flex-1"
+          onClick={onBack}
+          disabled={isSigning}
+        >
+          Back
+        </Button>
+        <Button
+          className="flex-1"
+          onClick={onAccept}
+          disabled={isSigning || isBlocked || hasUnexpectedVote}
+        >
+          {isSigning ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Signing...
+            </>
+          ) : (
+            acceptLabel
+          )}
+        </Button>
+      </div>
+
+      <p className="text-xs text-muted-foreground text-center">
+        Transaction {formatHash(preview.txHash)}. Your wallet will ask you to
+        sign exactly this transaction.
+      </p>
+    </div>
+  );
+}
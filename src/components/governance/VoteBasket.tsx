@@ -0,0 +1,525 @@
+import { useState, useCallback } from "react";
+import { useWallet } from "@meshsdk/react";
+import { MeshTxBuilder } from "@meshsdk/core";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  ConnectWalletButton,
+  NetworkMismatchAlert,
+  useWalletNetworkMismatch,
+} from "@/components/wallet";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  clearBasket,
+  removeBasketItem,
+  setBasketAnchorUrl,
+  setBasketVote,
+  type VoteBasketItem,
+} from "@/store/voteBasketSlice";
+import {
+  isPendingVoteConfirmed,
+  trackPendingVotes,
+  type PendingVote,
+} from "@/store/pendingVotesSlice";
+import { resolveAnchor } from "@/lib/anchor";
+import { getExplorerTxUrl } from "@/lib/network";
+import { assertTxPreflight, toTxErrorMessage } from "@/lib/txPreflight";
+import { decodeTxPreview, type TxPreview } from "@/lib/txPreview";
+import { TX_STATE_LABELS } from "@/lib/txStatus";
+import { assertVoterWitness, resolveVoter } from "@/lib/voter";
+import type { VoteChoice, VoterType } from "@/types/governance";
+import { TxPreviewPanel } from "./TxPreview";
+import {
+  VoterCredentialInput,
+  VoterRoleSelect,
+  useVoterRole,
+} from "./VoterRoleFields";
+import {
+  AlertCircle,
+  CheckCircle,
+  ExternalLink,
+  Loader2,
+  RefreshCw,
+  ShoppingBasket,
+  X,
+} from "lucide-react";
+
+const VOTE_CHOICES: VoteChoice[] = ["Yes", "No", "Abstain"];
+const ALL_VOTER_ROLES: VoterType[] = ["DRep", "SPO", "CC"];
+
+type ItemSyncStatus = "pending" | "synced" | "timeout";
+
+// Submitted basket tx, tracked by the pending votes slice until indexed
+interface SubmissionState {
+  txHash: string;
+  items: VoteBasketItem[];
+}
+
+// Built basket transaction awaiting the user's review
+interface PendingBasketTx {
+  unsignedTx: string;
+  preview: TxPreview;
+  voterRole: VoterType;
+  signerKeyHash?: string;
+  items: VoteBasketItem[];
+}
+
+function getChoiceButtonClass(choice: VoteChoice, selected: boolean): string {
+  switch (choice) {
+    case "Yes":
+      return selected
+        ? "bg-emerald-500 hover:bg-emerald-600 text-white border-emerald-500"
+        : "bg-emerald-500/20 hover:bg-emerald-500/30 text-emerald-400 border-emerald-500/30";
+    case "No":
+      return selected
+        ? "bg-red-500 hover:bg-red-600 text-white border-red-500"
+        : "bg-red-500/20 hover:bg-red-500/30 text-red-400 border-red-500/30";
+    case "Abstain":
+      return selected
+        ? "bg-gray-500 hover:bg-gray-600 text-white border-gray-500"
+        : "bg-gray-500/20 hover:bg-gray-500/30 text-gray-400 border-gray-500/30";
+  }
+}
+
+/**
+ * Sync status of one basket vote, from its pending vote entry
+ */
+function getItemSyncStatus(pendingVote: PendingVote): ItemSyncStatus {
+  if (isPendingVoteConfirmed(pendingVote)) return "synced";
+  return pendingVote.isTimedOut ? "timeout" : "pending";
+}
+
+function getSyncBadge(status: ItemSyncStatus) {
+  switch (status) {
+    case "synced":
+      return (
+        <Badge
+          variant="outline"
+          className="bg-success/20 text-success border-success/30"
+        >
+          <CheckCircle className="h-3 w-3 mr-1" />
+          Synced
+        </Badge>
+      );
+    case "timeout":
+      return (
+        <Badge
+          variant="outline"
+          className="bg-amber-500/20 text-amber-500 border-amber-500/30"
+        >
+          Not yet indexed
+        </Badge>
+      );
+    default:
+      return (
+        <Badge variant="outline" className="bg-secondary/50">
+          <RefreshCw className="h-3 w-3 mr-1 animate-spin" />
+          Syncing
+        </Badge>
+      );
+  }
+}
+
+/**
+ * Vote basket for casting votes on several governance actions
+ * in a single transaction with one signing request
+ */
+export function VoteBasket() {
+  const dispatch = useAppDispatch();
+  const { connected, wallet } = useWallet();
+  const items = useAppSelector((state) => state.voteBasket.items);
+  const network = useAppSelector((state) => state.network.network);
+  const networkMismatch = useWalletNetworkMismatch();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [voterCredential, setVoterCredential] = useState("");
+  const [submission, setSubmission] = useState<SubmissionState | null>(null);
+  const [pendingTx, setPendingTx] = useState<PendingBasketTx | null>(null);
+  const pendingVotes = useAppSelector((state) => state.pendingVotes.items);
+  // Every basket vote shares the submitted tx, so they confirm together
+  const submittedVotes = submission
+    ? pendingVotes.filter((vote) => vote.txHash === submission.txHash)
+    : [];
+
+  // Only roles that may vote on every action in the basket can be used
+  const basketRoles = ALL_VOTER_ROLES.filter((role) =>
+    items.every((item) => item.voterRoles.includes(role))
+  );
+  const [voterRole, setVoterRole] = useVoterRole(basketRoles);
+
+  // Build the basket transaction and decode it for review
+  const buildBasket = useCallback(async () => {
+    if (!wallet || items.length === 0 || networkMismatch) return;
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      if (basketRoles.length === 0) {
+        throw new Error(
+          "The selected actions have no voter role in common. Please vote on them separately."
+        );
+      }
+      if (!voterRole) {
+        throw new Error("Please select the role you are voting as.");
+      }
+
+      // Get wallet data
+      const utxos = await wallet.getUtxos();
+      const changeAddress = await wallet.getChangeAddress();
+
+      const { voter, signerKeyHash } = await resolveVoter(
+        wallet,
+        voterRole,
+        voterCredential
+      );
+
+      // Resolve all anchors before building so a bad URL fails early
+      const anchors = await Promise.all(
+        items.map((item) => resolveAnchor(item.anchorUrl))
+      );
+
+      // Check the wallet can pay the fee and the tx fits the size limit
+      await assertTxPreflight(utxos, {
+        votes: items.length,
+        anchorUrls: anchors.map((anchor) => anchor?.anchorUrl),
+        extraWitnesses: signerKeyHash ? 1 : 0,
+      });
+
+      // Build one transaction with a vote per basket item
+      const txBuilder = new MeshTxBuilder({
+        verbose: true,
+      });
+      items.forEach((item, index) => {
+        txBuilder.vote(
+          voter,
+          {
+            txHash: item.txHash,
+            txIndex: item.certIndex,
+          },
+          {
+            voteKind: item.vote,
+            anchor: anchors[index],
+          }
+        );
+      });
+
+      await txBuilder
+        .selectUtxosFrom(utxos)
+        .changeAddress(changeAddress)
+        .complete();
+
+      const unsignedTx = txBuilder.txHex;
+
+      setPendingTx({
+        unsignedTx,
+        preview: decodeTxPreview(unsignedTx, changeAddress),
+        voterRole,
+        signerKeyHash,
+        items: [...items],
+      });
+    } catch (err) {
+      console.error("Batch vote build error:", err);
+      setError(toTxErrorMessage(err, "Failed to build votes"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [
+    wallet,
+    items,
+    basketRoles.length,
+    voterRole,
+    voterCredential,
+    networkMismatch,
+  ]);
+
+  // Sign and submit the reviewed transaction
+  const submitBasket = useCallback(async () => {
+    if (!wallet || !pendingTx) return;
+    if (networkMismatch) {
+      setError(networkMismatch);
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const { unsignedTx, signerKeyHash, items: submittedItems } = pendingTx;
+
+      // Sign the transaction once for all votes
+      let signedTx: string;
+      if (signerKeyHash) {
+        signedTx = await wallet.signTx(unsignedTx, true);
+        assertVoterWitness(signedTx, signerKeyHash, pendingTx.voterRole);
+      } else {
+        signedTx = await wallet.signTx(unsignedTx);
+      }
+
+      const submittedTxHash = await wallet.submitTx(signedTx);
+
+      setPendingTx(null);
+      setSubmission({ txHash: submittedTxHash, items: submittedItems });
+
+      // One tx carries every vote; the header tray tracks it per action
+      const submittedAt = new Date().toISOString();
+      dispatch(
+        trackPendingVotes(
+          submittedItems.map((item) => ({
+            txHash: submittedTxHash,
+            actionId: item.actionHash,
+            title: item.title,
+            vote: item.vote,
+            network,
+            submittedAt,
+          }))
+        )
+      );
+    } catch (err) {
+      console.error("Batch vote submission error:", err);
+      setError(toTxErrorMessage(err, "Failed to submit votes"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [
+    dispatch,
+    wallet,
+    pendingTx,
+    network,
+    networkMismatch,
+  ]);
+
+  // Tracking continues in the header tray after the basket is cleared
+  const finishSubmission = () => {
+    setSubmission(null);
+    dispatch(clearBasket());
+  };
+
+  if (items.length === 0 && !submission) {
+    return null;
+  }
+
+  // Post-submission view with per-action sync status
+  if (submission) {
+    const txStatus = submittedVotes[0]?.status ?? null;
+    return (
+      <Card className="p-6 border-primary/30 space-y-4">
+        <div className="flex items-center justify-between">
+          <h3 className="font-semibold flex items-center gap-2">
+            <CheckCircle className="h-5 w-5 text-success" />
+            {submission.items.length} Votes Submitted
+          </h3>
+          <a
+            href={getExplorerTxUrl(submission.txHash, network)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary text-sm flex items-center gap-1 hover:underline"
+          >
+            View on AdaStat
+            <ExternalLink className="h-3 w-3" />
+          </a>
+        </div>
+        <ul className="space-y-2">
+          {submission.items.map((item) => {
+            const pendingVote = submittedVotes.find(
+              (vote) => vote.actionId === item.actionHash
+            );
+            return (
+              <li
+                key={item.actionHash}
+                className="flex items-center justify-between gap-4 bg-secondary/50 p-3 rounded-lg"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium line-clamp-1">{item.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    Vote: {item.vote}
+                  </p>
+                </div>
+                {pendingVote && getSyncBadge(getItemSyncStatus(pendingVote))}
+              </li>
+            );
+          })}
+        </ul>
+        <p className="text-xs text-muted-foreground text-center">
+          Transaction status: {TX_STATE_LABELS[txStatus?.state ?? "pending"]}
+        </p>
+        <Button className="w-full" onClick={finishSubmission}>
+          Done
+        </Button>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-6 border-primary/30 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold flex items-center gap-2">
+          <ShoppingBasket className="h-5 w-5 text-primary" />
+          Vote Basket ({items.length})
+        </h3>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => dispatch(clearBasket())}
+          disabled={isSubmitting || !!pendingTx}
+        >
+          Clear
+        </Button>
+      </div>
+
+      <ul className="space-y-3">
+        {items.map((item) => (
+          <li
+            key={item.actionHash}
+            className="bg-secondary/50 p-3 rounded-lg space-y-2"
+          >
+            <div className="flex items-start justify-between gap-2">
+              <p className="text-sm font-medium line-clamp-1">{item.title}</p>
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-6 w-6 p-0"
+                onClick={() => dispatch(removeBasketItem(item.actionHash))}
+                disabled={isSubmitting || !!pendingTx}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+            <div className="flex flex-col md:flex-row gap-2">
+              <div className="flex gap-2">
+                {VOTE_CHOICES.map((choice) => (
+                  <Button
+                    key={choice}
+                    size="sm"
+                    variant="outline"
+                    className={getChoiceButtonClass(
+                      choice,
+                      item.vote === choice
+                    )}
+                    onClick={() =>
+                      dispatch(
+                        setBasketVote({
+                          actionHash: item.actionHash,
+                          vote: choice,
+                        })
+                      )
+                    }
+                    disabled={isSubmitting || !!pendingTx}
+                  >
+                    {choice}
+                  </Button>
+                ))}
+              </div>
+              <Input
+                placeholder="Rationale URL (Optional)"
+                value={item.anchorUrl}
+                onChange={(e) =>
+                  dispatch(
+                    setBasketAnchorUrl({
+                      actionHash: item.actionHash,
+                      anchorUrl: e.target.value,
+                    })
+                  )
+                }
+                disabled={isSubmitting || !!pendingTx}
+                className="h-9"
+              />
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {!connected ? (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            Connect your wallet to submit the basket.
+          </p>
+          <ConnectWalletButton />
+        </div>
+      ) : pendingTx ? (
+        <div className="space-y-4">
+          <NetworkMismatchAlert message={networkMismatch} />
+          {error && (
+            <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+          <TxPreviewPanel
+            preview={pendingTx.preview}
+            expectedActionIds={pendingTx.items.map(
+              (item) => `${item.txHash}#${item.certIndex}`
+            )}
+            isSigning={isSubmitting}
+            acceptLabel="Sign & Submit"
+            isBlocked={!!networkMismatch}
+            onAccept={submitBasket}
+            onBack={() => {
+              setPendingTx(null);
+              setError(null);
+            }}
+          />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {basketRoles.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <VoterRoleSelect
+                voterRoles={basketRoles}
+                value={voterRole}
+                onChange={setVoterRole}
+                disabled={isSubmitting}
+              />
+              <VoterCredentialInput
+                voterRole={voterRole}
+                value={voterCredential}
+                onChange={setVoterCredential}
+                disabled={isSubmitting}
+              />
+            </div>
+          ) : (
+            <p className="text-sm text-amber-500">
+              The selected actions have no voter role in common. Please vote on
+              them separately.
+            </p>
+          )}
+
+          <NetworkMismatchAlert message={networkMismatch} />
+
+          {error && (
+            <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          <Button
+            className="w-full"
+            onClick={buildBasket}
+            disabled={
+              isSubmitting ||
+              basketRoles.length === 0 ||
+              !voterRole ||
+              !!networkMismatch
+            }
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Building...
+              </>
+            ) : (
+              `Review ${items.length} ${items.length === 1 ? "Vote" : "Votes"}`
+            )}
+          </Button>
+          <p className="text-xs text-muted-foreground text-center">
+            All votes are built into one transaction. You can review it before
+            signing once.
+          </p>
+        </div>
+      )}
+    </Card>
+  );
+}
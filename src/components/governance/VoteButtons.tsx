@@ -1,6 +1,6 @@
 import { useState, useCallback } from "react";
 import { useWallet } from "@meshsdk/react";
-import { MeshTxBuilder, hashDrepAnchor } from "@meshsdk/core";
+import { MeshTxBuilder } from "@meshsdk/core";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -12,7 +12,28 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { ConnectWalletButton } from "@/components/wallet";
+import {
+  ConnectWalletButton,
+  NetworkMismatchAlert,
+  useWalletNetworkMismatch,
+} from "@/components/wallet";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  isPendingVoteConfirmed,
+  trackPendingVotes,
+} from "@/store/pendingVotesSlice";
+import { resolveAnchor } from "@/lib/anchor";
+import { getExplorerTxUrl } from "@/lib/network";
+import { assertTxPreflight, toTxErrorMessage } from "@/lib/txPreflight";
+import { decodeTxPreview, type TxPreview } from "@/lib/txPreview";
+import { assertVoterWitness, resolveVoter } from "@/lib/voter";
+import type { VoterType } from "@/types/governance";
+import { TxPreviewPanel } from "./TxPreview";
+import {
+  VoterCredentialInput,
+  VoterRoleSelect,
+  useVoterRole,
+} from "./VoterRoleFields";
 import {
   ThumbsUp,
   ThumbsDown,
@@ -28,8 +49,10 @@ type VoteChoice = "Yes" | "No" | "Abstain";
 interface VoteButtonsProps {
   txHash: string;
   certIndex: number;
+  proposalId: string; // Routing hash of the action, for pending vote tracking
   proposalTitle: string;
   status: string;
+  voterRoles: VoterType[]; // voter bodies allowed to vote on this action type
   compact?: boolean;
 }
 
@@ -40,17 +63,31 @@ interface VoteState {
   txHash: string | null;
 }
 
+// Built vote transaction awaiting the user's review
+interface PendingVoteTx {
+  unsignedTx: string;
+  preview: TxPreview;
+  voterRole: VoterType;
+  signerKeyHash?: string;
+}
+
 export function VoteButtons({
   txHash,
   certIndex,
+  proposalId,
   proposalTitle,
   status,
+  voterRoles,
   compact = false,
 }: VoteButtonsProps) {
+  const dispatch = useAppDispatch();
   const { connected, wallet } = useWallet();
   const [selectedVote, setSelectedVote] = useState<VoteChoice | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [anchorUrl, setAnchorUrl] = useState("");
+  const [voterRole, setVoterRole] = useVoterRole(voterRoles);
+  const [voterCredential, setVoterCredential] = useState("");
+  const [pendingTx, setPendingTx] = useState<PendingVoteTx | null>(null);
   const [voteState, setVoteState] = useState<VoteState>({
     isSubmitting: false,
     isSuccess: false,
@@ -58,6 +95,18 @@ export function VoteButtons({
     txHash: null,
   });
 
+  const network = useAppSelector((state) => state.network.network);
+  const networkMismatch = useWalletNetworkMismatch();
+  // A second vote before the first is indexed would silently replace it
+  const unconfirmedVote = useAppSelector((state) =>
+    state.pendingVotes.items.find(
+      (vote) =>
+        vote.actionId === proposalId &&
+        vote.network === network &&
+        !isPendingVoteConfirmed(vote)
+    )
+  );
+
   const isActive = status === "Active";
 
   const handleVoteClick = (vote: VoteChoice, e: React.MouseEvent) => {
@@ -73,8 +122,9 @@ export function VoteButtons({
     });
   };
 
-  const submitVote = useCallback(async () => {
-    if (!wallet || !selectedVote) return;
+  // Build the vote transaction and decode it for review
+  const buildVote = useCallback(async () => {
+    if (!wallet || !selectedVote || networkMismatch) return;
 
     setVoteState({
       isSubmitting: true,
@@ -84,20 +134,20 @@ export function VoteButtons({
     });
 
     try {
+      if (!voterRole) {
+        throw new Error("Please select the role you are voting as.");
+      }
+
       // Get wallet data
       const utxos = await wallet.getUtxos();
       const changeAddress = await wallet.getChangeAddress();
 
-      // Get DRep ID using wallet.getDRep() method (per MeshJS documentation)
-      const dRep = await wallet.getDRep();
-
-      if (!dRep || !dRep.dRepIDCip105) {
-        throw new Error(
-          "Could not get DRep ID. Please ensure your wallet is registered as a DRep."
-        );
-      }
-
-      const drepId = dRep.dRepIDCip105;
+      // Resolve the voter credential for the selected role
+      const { voter, signerKeyHash } = await resolveVoter(
+        wallet,
+        voterRole,
+        voterCredential
+      );
 
       // Build the vote transaction
       const txBuilder = new MeshTxBuilder({
@@ -105,43 +155,19 @@ export function VoteButtons({
       });
 
       // Prepare anchor if URL provided
-      let anchor = undefined;
-      if (anchorUrl.trim()) {
-        const trimmedUrl = anchorUrl.trim();
-
-        // Fetch the content from the URL and compute Blake2b-256 hash
-        try {
-          const response = await fetch(trimmedUrl);
-          if (!response.ok) {
-            throw new Error(
-              `Failed to fetch anchor content: ${response.status}`
-            );
-          }
-          const contentText = await response.text();
-          const contentJson = JSON.parse(contentText);
-          const anchorDataHash = hashDrepAnchor(contentJson);
-
-          anchor = {
-            anchorUrl: trimmedUrl,
-            anchorDataHash,
-          };
-        } catch (fetchError) {
-          throw new Error(
-            `Failed to fetch or hash anchor content: ${
-              fetchError instanceof Error ? fetchError.message : "Unknown error"
-            }. ` +
-              `Please ensure the URL is accessible and contains valid JSON.`
-          );
-        }
-      }
+      const anchor = await resolveAnchor(anchorUrl);
+
+      // Check the wallet can pay the fee before building
+      await assertTxPreflight(utxos, {
+        votes: 1,
+        anchorUrls: [anchor?.anchorUrl],
+        extraWitnesses: signerKeyHash ? 1 : 0,
+      });
 
       // Build the transaction
       await txBuilder
         .vote(
-          {
-            type: "DRep",
-            drepId: drepId,
-          },
+          voter,
           {
             txHash: txHash,
             txIndex: certIndex,
@@ -157,8 +183,65 @@ export function VoteButtons({
 
       const unsignedTx = txBuilder.txHex;
 
+      setPendingTx({
+        unsignedTx,
+        preview: decodeTxPreview(unsignedTx, changeAddress),
+        voterRole,
+        signerKeyHash,
+      });
+      setVoteState({
+        isSubmitting: false,
+        isSuccess: false,
+        error: null,
+        txHash: null,
+      });
+    } catch (err) {
+      console.error("Vote build error:", err);
+      setVoteState({
+        isSubmitting: false,
+        isSuccess: false,
+        error: toTxErrorMessage(err, "Failed to build vote"),
+        txHash: null,
+      });
+    }
+  }, [
+    wallet,
+    selectedVote,
+    txHash,
+    certIndex,
+    anchorUrl,
+    voterRole,
+    voterCredential,
+    networkMismatch,
+  ]);
+
+  // Sign and submit the reviewed transaction
+  const submitVote = useCallback(async () => {
+    if (!wallet || !pendingTx || !selectedVote) return;
+    if (networkMismatch) {
+      setVoteState((prev) => ({ ...prev, error: networkMismatch }));
+      return;
+    }
+
+    setVoteState({
+      isSubmitting: true,
+      isSuccess: false,
+      error: null,
+      txHash: null,
+    });
+
+    try {
+      const { unsignedTx, signerKeyHash } = pendingTx;
+
       // Sign the transaction
-      const signedTx = await wallet.signTx(unsignedTx);
+      // SPO and CC keys are partial signers, so check the wallet actually used them
+      let signedTx: string;
+      if (signerKeyHash) {
+        signedTx = await wallet.signTx(unsignedTx, true);
+        assertVoterWitness(signedTx, signerKeyHash, pendingTx.voterRole);
+      } else {
+        signedTx = await wallet.signTx(unsignedTx);
+      }
 
       // Submit the transaction
       const submittedTxHash = await wallet.submitTx(signedTx);
@@ -169,21 +252,46 @@ export function VoteButtons({
         error: null,
         txHash: submittedTxHash,
       });
+      setPendingTx(null);
+
+      // Track the vote tx in the header tray until it is indexed
+      dispatch(
+        trackPendingVotes([
+          {
+            txHash: submittedTxHash,
+            actionId: proposalId,
+            title: proposalTitle,
+            vote: selectedVote,
+            network,
+            submittedAt: new Date().toISOString(),
+          },
+        ])
+      );
     } catch (err) {
       console.error("Vote submission error:", err);
       setVoteState({
         isSubmitting: false,
         isSuccess: false,
-        error: err instanceof Error ? err.message : "Failed to submit vote",
+        error: toTxErrorMessage(err, "Failed to submit vote"),
         txHash: null,
       });
     }
-  }, [wallet, selectedVote, txHash, certIndex, anchorUrl]);
+  }, [
+    dispatch,
+    wallet,
+    pendingTx,
+    selectedVote,
+    proposalId,
+    proposalTitle,
+    network,
+    networkMismatch,
+  ]);
 
   const closeModal = () => {
     setIsModalOpen(false);
     setSelectedVote(null);
     setAnchorUrl("");
+    setPendingTx(null);
     setVoteState({
       isSubmitting: false,
       isSuccess: false,
@@ -207,6 +315,17 @@ export function VoteButtons({
         >
           {!connected ? (
             <ConnectWalletButton />
+          ) : unconfirmedVote ? (
+            <Badge
+              variant="outline"
+              className="bg-secondary/50"
+              title={`Submitted ${new Date(
+                unconfirmedVote.submittedAt
+              ).toLocaleString()}, voting again would replace it`}
+            >
+              <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+              {unconfirmedVote.vote} vote awaiting confirmation
+            </Badge>
           ) : (
             <>
               <Button
@@ -268,7 +387,7 @@ export function VoteButtons({
                   </p>
                   {voteState.txHash && (
                     <a
-                      href={`https://adastat.net/transactions/${voteState.txHash}`}
+                      href={getExplorerTxUrl(voteState.txHash, network)}
                       target="_blank"
                       rel="noopener noreferrer"
                       className="text-primary text-sm flex items-center justify-center gap-1 hover:underline"
@@ -282,6 +401,28 @@ export function VoteButtons({
                   Close
                 </Button>
               </div>
+            ) : pendingTx ? (
+              <div className="space-y-4">
+                <NetworkMismatchAlert message={networkMismatch} />
+                {voteState.error && (
+                  <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+                    <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    <span>{voteState.error}</span>
+                  </div>
+                )}
+                <TxPreviewPanel
+                  preview={pendingTx.preview}
+                  expectedActionIds={[`${txHash}#${certIndex}`]}
+                  isSigning={voteState.isSubmitting}
+                  acceptLabel="Sign & Submit"
+                  isBlocked={!!networkMismatch}
+                  onAccept={submitVote}
+                  onBack={() => {
+                    setPendingTx(null);
+                    setVoteState((prev) => ({ ...prev, error: null }));
+                  }}
+                />
+              </div>
             ) : (
               <div className="space-y-4">
                 <div className="bg-secondary/50 p-4 rounded-lg">
@@ -306,6 +447,20 @@ export function VoteButtons({
                   </Badge>
                 </div>
 
+                <VoterRoleSelect
+                  voterRoles={voterRoles}
+                  value={voterRole}
+                  onChange={setVoterRole}
+                  disabled={voteState.isSubmitting}
+                />
+
+                <VoterCredentialInput
+                  voterRole={voterRole}
+                  value={voterCredential}
+                  onChange={setVoterCredential}
+                  disabled={voteState.isSubmitting}
+                />
+
                 <div className="space-y-2">
                   <Label htmlFor="anchorUrl">Rationale URL (Optional)</Label>
                   <Input
@@ -321,6 +476,8 @@ export function VoteButtons({
                   </p>
                 </div>
 
+                <NetworkMismatchAlert message={networkMismatch} />
+
                 {voteState.error && (
                   <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
                     <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
@@ -339,23 +496,25 @@ export function VoteButtons({
                   </Button>
                   <Button
                     className="flex-1"
-                    onClick={submitVote}
-                    disabled={voteState.isSubmitting}
+                    onClick={buildVote}
+                    disabled={
+                      voteState.isSubmitting || !voterRole || !!networkMismatch
+                    }
                   >
                     {voteState.isSubmitting ? (
                       <>
                         <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                        Submitting...
+                        Building...
                       </>
                     ) : (
-                      "Confirm Vote"
+                      "Review Transaction"
                     )}
                   </Button>
                 </div>
 
                 <p className="text-xs text-muted-foreground text-center">
-                  This will create an on-chain transaction. You will be asked to
-                  sign with your wallet.
+                  This will create an on-chain transaction. You can review it
+                  before signing with your wallet.
                 </p>
               </div>
             )}
@@ -1,9 +1,13 @@
-import { useState, useCallback, useEffect, useRef } from "react";
+import { useState, useCallback, useEffect } from "react";
 import { useWallet } from "@meshsdk/react";
-import { MeshTxBuilder, hashDrepAnchor } from "@meshsdk/core";
+import { MeshTxBuilder, type Anchor, type Voter } from "@meshsdk/core";
 import { useDispatch, useSelector } from "react-redux";
 import type { AppDispatch, RootState } from "@/store";
-import { loadGovernanceActionDetail } from "@/store/governanceSlice";
+import {
+  isPendingVoteConfirmed,
+  trackPendingVotes,
+  type PendingVote,
+} from "@/store/pendingVotesSlice";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -16,7 +20,37 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { ConnectWalletButton } from "@/components/wallet";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ConnectWalletButton,
+  NetworkMismatchAlert,
+  useWalletNetworkMismatch,
+} from "@/components/wallet";
+import { resolveAnchor, toViewableAnchorUrl } from "@/lib/anchor";
+import { parseMultisigDRep, type MultisigDRep } from "@/lib/multisig";
+import { getExplorerTxUrl } from "@/lib/network";
+import {
+  VOTER_ROLE_LABELS,
+  assertVoterWitness,
+  findVoteRecord,
+  getVoterIds,
+  parseDRepId,
+  resolveVoter,
+} from "@/lib/voter";
+import { assertTxPreflight, toTxErrorMessage } from "@/lib/txPreflight";
+import { decodeTxPreview, type TxPreview } from "@/lib/txPreview";
+import { TX_STATE_LABELS } from "@/lib/txStatus";
+import { fetchProposalVotes } from "@/services/api";
+import type { TxStatus, VoteRecord, VoterType } from "@/types/governance";
+import { MultisigSignatures } from "./MultisigSignatures";
+import { OfflineSigning } from "./OfflineSigning";
+import { RationaleEditor } from "./RationaleEditor";
+import { TxPreviewPanel } from "./TxPreview";
+import {
+  VoterCredentialInput,
+  VoterRoleSelect,
+  useVoterRole,
+} from "./VoterRoleFields";
 import {
   ThumbsUp,
   ThumbsDown,
@@ -26,16 +60,25 @@ import {
   AlertCircle,
   ExternalLink,
   RefreshCw,
+  FileText,
+  Pencil,
+  FileDown,
 } from "lucide-react";
 
 type VoteChoice = "Yes" | "No" | "Abstain";
 
+// "wallet" votes with the connected wallet's DRep key,
+// "multisig" votes with a native script DRep and collects co-signer witnesses,
+// "offline" votes with an entered DRep ID and is signed outside the wallet
+type VoteMode = "wallet" | "multisig" | "offline";
+
 interface VoteOnProposalProps {
   txHash: string;
   certIndex: number;
   proposalTitle: string;
   status: string;
   proposalId: string; // governance action ID for polling
+  voterRoles: VoterType[]; // voter bodies allowed to vote on this action type
 }
 
 interface VoteState {
@@ -45,11 +88,59 @@ interface VoteState {
   txHash: string | null;
 }
 
+interface MultisigTxState {
+  unsignedTx: string;
+  multisig: MultisigDRep;
+}
+
+// Built vote transaction awaiting the user's review
+interface PendingVoteTx {
+  unsignedTx: string;
+  preview: TxPreview;
+  voterRole: VoterType;
+  signerKeyHash?: string;
+  multisig: MultisigDRep | null;
+  isOffline: boolean; // Signed with the offline signing flow
+}
+
+function getVoteBadgeClass(vote: VoteChoice): string {
+  switch (vote) {
+    case "Yes":
+      return "bg-emerald-500/20 text-emerald-400 border-emerald-500/30";
+    case "No":
+      return "bg-red-500/20 text-red-400 border-red-500/30";
+    case "Abstain":
+      return "bg-gray-500/20 text-gray-400 border-gray-500/30";
+  }
+}
+
+// Confirmation of the submitted vote tx, keyed on its hash
 interface SyncState {
   isPolling: boolean;
   isSynced: boolean;
-  pollCount: number;
-  maxPolls: number;
+  isTimedOut: boolean;
+  status: TxStatus | null;
+}
+
+const INITIAL_SYNC_STATE: SyncState = {
+  isPolling: false,
+  isSynced: false,
+  isTimedOut: false,
+  status: null,
+};
+
+/**
+ * Sync state of a submitted vote, tracked globally by the pending votes slice
+ */
+function getSyncState(pendingVote: PendingVote | undefined): SyncState {
+  if (!pendingVote) return INITIAL_SYNC_STATE;
+  const isSynced = isPendingVoteConfirmed(pendingVote);
+  return {
+    isPolling: !isSynced && !pendingVote.isTimedOut,
+    isSynced,
+    isTimedOut: !isSynced && pendingVote.isTimedOut,
+    status: pendingVote.status,
+  };
 }
 
 export function VoteOnProposal({
@@ -58,139 +149,134 @@ export function VoteOnProposal({
   proposalTitle,
   status,
   proposalId,
+  voterRoles,
 }: VoteOnProposalProps) {
   const dispatch = useDispatch<AppDispatch>();
   const { connected, wallet } = useWallet();
   const [selectedVote, setSelectedVote] = useState<VoteChoice | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [anchorUrl, setAnchorUrl] = useState("");
+  const [publishedAnchor, setPublishedAnchor] = useState<Anchor | null>(null);
+  const [isRationaleEditorOpen, setIsRationaleEditorOpen] = useState(false);
+  const [voterRole, setVoterRole] = useVoterRole(voterRoles);
+  const [voterCredential, setVoterCredential] = useState("");
+  const [offlineDRepId, setOfflineDRepId] = useState("");
+  const [voteMode, setVoteMode] = useState<VoteMode>("wallet");
+  const [nativeScriptCbor, setNativeScriptCbor] = useState("");
+  const [multisigTx, setMultisigTx] = useState<MultisigTxState | null>(null);
+  const [offlineTx, setOfflineTx] = useState<string | null>(null);
+  const [pendingTx, setPendingTx] = useState<PendingVoteTx | null>(null);
+  const [connectedDRepIds, setConnectedDRepIds] = useState<string[]>([]);
+  const [connectedDRepVotes, setConnectedDRepVotes] = useState<VoteRecord[]>(
+    []
+  );
+  const [isChangingVote, setIsChangingVote] = useState(false);
   const [voteState, setVoteState] = useState<VoteState>({
     isSubmitting: false,
     isSuccess: false,
     error: null,
     txHash: null,
   });
-  const [syncState, setSyncState] = useState<SyncState>({
-    isPolling: false,
-    isSynced: false,
-    pollCount: 0,
-    maxPolls: 15, // 15 polls * 20 seconds = 5 minutes timeout
-  });
-
-  const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
-  // Get current votes from Redux store to check if our vote has synced
-  const selectedAction = useSelector(
-    (state: RootState) => state.governance.selectedAction
+  const network = useSelector((state: RootState) => state.network.network);
+  // Submitted votes survive reloads, so an unconfirmed one blocks double votes
+  const pendingVotes = useSelector(
+    (state: RootState) => state.pendingVotes.items
   );
+  const syncState = getSyncState(
+    pendingVotes.find((vote) => vote.txHash === voteState.txHash)
+  );
+  const unconfirmedVote = pendingVotes.find(
+    (vote) =>
+      vote.actionId === proposalId &&
+      vote.network === network &&
+      !isPendingVoteConfirmed(vote)
+  );
+  // Votes must not be signed for an action ID on another network
+  const networkMismatch = useWalletNetworkMismatch();
 
   const isActive = status === "Active";
 
-  // Store initial vote count when polling starts
-  const initialVoteCountRef = useRef<number>(0);
-
-  // Start polling after successful vote submission
-  const startPolling = useCallback(() => {
-    // Store current vote count to detect changes
-    const currentCount = selectedAction?.votes?.length || 0;
-    initialVoteCountRef.current = currentCount;
-    console.log(
-      `[Vote Sync] Starting polling. Initial vote count: ${currentCount}`
-    );
+  // Multisig mode only applies to script DReps
+  const isMultisigVote = voterRole === "DRep" && voteMode === "multisig";
+  // Offline DReps enter their ID, as the signing key is not in the wallet
+  const isOfflineDRepVote = voterRole === "DRep" && voteMode === "offline";
 
-    setSyncState({
-      isPolling: true,
-      isSynced: false,
-      pollCount: 0,
-      maxPolls: 15,
-    });
+  // The connected DRep's vote on record, if any
+  const existingVote =
+    voterRole === "DRep" && voteMode === "wallet"
+      ? findVoteRecord(connectedDRepVotes, connectedDRepIds)
+      : undefined;
 
-    // Clear any existing interval
-    if (pollingIntervalRef.current) {
-      clearInterval(pollingIntervalRef.current);
+  // Look up the connected wallet's DRep IDs to find an existing vote
+  useEffect(() => {
+    if (!connected || !wallet) {
+      setConnectedDRepIds([]);
+      return;
     }
+    let cancelled = false;
+    wallet
+      .getDRep()
+      .then((dRep) => {
+        if (cancelled) return;
+        setConnectedDRepIds(
+          dRep?.dRepIDCip105
+            ? getVoterIds({ type: "DRep", drepId: dRep.dRepIDCip105 })
+            : []
+        );
+      })
+      .catch(() => {
+        if (!cancelled) setConnectedDRepIds([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [connected, wallet]);
 
-    // Track poll count locally to avoid stale closure issues
-    let localPollCount = 0;
-
-    pollingIntervalRef.current = setInterval(() => {
-      localPollCount += 1;
-      console.log(`[Vote Sync] Poll #${localPollCount} starting...`);
-
-      // Check if we've exceeded max polls (timeout)
-      if (localPollCount >= 15) {
-        console.log(`[Vote Sync] Timeout reached at poll #${localPollCount}`);
-        if (pollingIntervalRef.current) {
-          clearInterval(pollingIntervalRef.current);
-          pollingIntervalRef.current = null;
-        }
-        setSyncState((prev) => ({
-          ...prev,
-          isPolling: false,
-          pollCount: localPollCount,
-        }));
-        return;
-      }
-
-      // Update poll count in state for UI
-      setSyncState((prev) => ({
-        ...prev,
-        pollCount: localPollCount,
-      }));
-
-      // Dispatch action to refresh proposal data (triggers backend sync-on-read)
-      console.log(
-        `[Vote Sync] Dispatching loadGovernanceActionDetail for ${proposalId}`
-      );
-      dispatch(loadGovernanceActionDetail(proposalId));
-    }, 20000); // Poll every 20 seconds
-    // Note: We intentionally exclude selectedAction?.votes?.length from deps
-    // because we capture the initial count inside the function, and we don't
-    // want the callback to be recreated when votes change (which would break polling)
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [dispatch, proposalId]);
-
-  // Check if vote is synced (vote count increased)
+  // Search the vote listing for the connected DRep under each of its IDs,
+  // again once a submitted vote is confirmed
   useEffect(() => {
-    const currentVoteCount = selectedAction?.votes?.length || 0;
-    console.log(
-      `[Vote Sync] Sync check effect - isPolling: ${syncState.isPolling}, pollCount: ${syncState.pollCount}, initialCount: ${initialVoteCountRef.current}, currentCount: ${currentVoteCount}`
-    );
+    setConnectedDRepVotes([]);
+    if (connectedDRepIds.length === 0) return;
 
-    if (syncState.isPolling && voteState.txHash && syncState.pollCount > 1) {
-      // Check if vote count increased (works even when initial count is 0)
-      if (currentVoteCount > initialVoteCountRef.current) {
-        // Vote synced - stop polling
-        console.log(
-          `[Vote Sync] Vote synced! Initial: ${initialVoteCountRef.current}, Current: ${currentVoteCount}`
-        );
-        if (pollingIntervalRef.current) {
-          clearInterval(pollingIntervalRef.current);
-          pollingIntervalRef.current = null;
+    let cancelled = false;
+    Promise.all(
+      connectedDRepIds.map((id) =>
+        fetchProposalVotes(proposalId, { search: id, voterType: "DRep" })
+      )
+    )
+      .then((pages) => {
+        if (!cancelled) {
+          setConnectedDRepVotes(pages.flatMap((page) => page.items));
         }
-        setSyncState((prev) => ({
-          ...prev,
-          isPolling: false,
-          isSynced: true,
-        }));
-      }
-    }
-  }, [
-    syncState.isPolling,
-    syncState.pollCount,
-    selectedAction?.votes?.length,
-    voteState.txHash,
-  ]);
-
-  // Cleanup interval on unmount only
-  useEffect(() => {
+      })
+      .catch(() => {
+        // No existing vote is shown; the ledger still replaces an earlier one
+      });
     return () => {
-      if (pollingIntervalRef.current) {
-        clearInterval(pollingIntervalRef.current);
-        pollingIntervalRef.current = null;
-      }
+      cancelled = true;
     };
-  }, []);
+  }, [proposalId, connectedDRepIds, syncState.isSynced]);
+
+  // Track the vote tx until it is indexed, across reloads and tabs
+  const trackSubmittedVote = useCallback(
+    (submittedTxHash: string) => {
+      if (!selectedVote) return;
+      dispatch(
+        trackPendingVotes([
+          {
+            txHash: submittedTxHash,
+            actionId: proposalId,
+            title: proposalTitle,
+            vote: selectedVote,
+            network,
+            submittedAt: new Date().toISOString(),
+          },
+        ])
+      );
+    },
+    [dispatch, selectedVote, proposalId, proposalTitle, network]
+  );
 
   const handleVoteClick = (vote: VoteChoice) => {
     if (!connected) return;
@@ -204,8 +290,9 @@ export function VoteOnProposal({
     });
   };
 
-  const submitVote = useCallback(async () => {
-    if (!wallet || !selectedVote) return;
+  // Build the vote transaction and decode it for review
+  const buildVote = useCallback(async () => {
+    if (!wallet || !selectedVote || networkMismatch) return;
 
     setVoteState({
       isSubmitting: true,
@@ -215,81 +302,163 @@ export function VoteOnProposal({
     });
 
     try {
+      if (!voterRole) {
+        throw new Error("Please select the role you are voting as.");
+      }
+
       // Get wallet data
       const utxos = await wallet.getUtxos();
       const changeAddress = await wallet.getChangeAddress();
 
-      // Get DRep ID using wallet.getDRep() method (per MeshJS documentation)
-      const dRep = await wallet.getDRep();
-
-      if (!dRep || !dRep.dRepIDCip105) {
-        throw new Error(
-          "Could not get DRep ID. Please ensure your wallet is registered as a DRep."
-        );
+      // Multisig DReps vote with the native script credential,
+      // offline DReps with the entered DRep ID,
+      // other voters with the key for their selected role
+      let voter: Voter;
+      let signerKeyHash: string | undefined;
+      let multisig: MultisigDRep | null = null;
+      if (isMultisigVote) {
+        if (!nativeScriptCbor.trim()) {
+          throw new Error("Please provide the native script of your multisig DRep.");
+        }
+        multisig = parseMultisigDRep(nativeScriptCbor);
+        voter = { type: "DRep", drepId: multisig.drepId };
+      } else if (isOfflineDRepVote) {
+        voter = { type: "DRep", drepId: parseDRepId(offlineDRepId) };
+      } else {
+        const resolved = await resolveVoter(wallet, voterRole, voterCredential);
+        voter = resolved.voter;
+        signerKeyHash = resolved.signerKeyHash;
       }
 
-      const drepId = dRep.dRepIDCip105;
-
       // Build the vote transaction
       const txBuilder = new MeshTxBuilder({
         verbose: true,
       });
 
       // Prepare anchor if URL provided
-      let anchor = undefined;
-      if (anchorUrl.trim()) {
-        const trimmedUrl = anchorUrl.trim();
-
-        // Fetch the content from the URL and compute Blake2b-256 hash
-        try {
-          const response = await fetch(trimmedUrl);
-          if (!response.ok) {
-            throw new Error(
-              `Failed to fetch anchor content: ${response.status}`
-            );
-          }
-          const contentText = await response.text();
-          const contentJson = JSON.parse(contentText);
-          const anchorDataHash = hashDrepAnchor(contentJson);
-
-          anchor = {
-            anchorUrl: trimmedUrl,
-            anchorDataHash,
-          };
-        } catch (fetchError) {
-          throw new Error(
-            `Failed to fetch or hash anchor content: ${
-              fetchError instanceof Error ? fetchError.message : "Unknown error"
-            }. ` +
-              `Please ensure the URL is accessible and contains valid JSON.`
-          );
+      // A rationale published from the editor already carries its hash
+      const anchor =
+        publishedAnchor && publishedAnchor.anchorUrl === anchorUrl.trim()
+          ? publishedAnchor
+          : await resolveAnchor(anchorUrl);
+
+      // Build the transaction
+      txBuilder.vote(
+        voter,
+        {
+          txHash: txHash,
+          txIndex: certIndex,
+        },
+        {
+          voteKind: selectedVote,
+          anchor,
         }
+      );
+
+      // Attach the native script witness for the script DRep credential
+      if (multisig) {
+        txBuilder.voteScript(multisig.scriptCbor);
       }
 
-      // Build the transaction
+      // Check the wallet can pay the fee before building
+      await assertTxPreflight(utxos, {
+        votes: 1,
+        anchorUrls: [anchor?.anchorUrl],
+        extraWitnesses: signerKeyHash
+          ? 1
+          : multisig
+            ? multisig.requiredSignatures
+            : 0,
+        scriptBytes: multisig ? multisig.scriptCbor.length / 2 : 0,
+      });
+
       await txBuilder
-        .vote(
-          {
-            type: "DRep",
-            drepId: drepId,
-          },
-          {
-            txHash: txHash,
-            txIndex: certIndex,
-          },
-          {
-            voteKind: selectedVote,
-            anchor,
-          }
-        )
         .selectUtxosFrom(utxos)
         .changeAddress(changeAddress)
         .complete();
 
       const unsignedTx = txBuilder.txHex;
 
+      setPendingTx({
+        unsignedTx,
+        preview: decodeTxPreview(unsignedTx, changeAddress),
+        voterRole,
+        signerKeyHash,
+        multisig,
+        isOffline: isOfflineDRepVote,
+      });
+      setVoteState({
+        isSubmitting: false,
+        isSuccess: false,
+        error: null,
+        txHash: null,
+      });
+    } catch (err) {
+      console.error("Vote build error:", err);
+      setVoteState({
+        isSubmitting: false,
+        isSuccess: false,
+        error: toTxErrorMessage(err, "Failed to build vote"),
+        txHash: null,
+      });
+    }
+  }, [
+    wallet,
+    selectedVote,
+    txHash,
+    certIndex,
+    anchorUrl,
+    publishedAnchor,
+    isMultisigVote,
+    isOfflineDRepVote,
+    nativeScriptCbor,
+    offlineDRepId,
+    voterRole,
+    voterCredential,
+    networkMismatch,
+  ]);
+
+  // Sign and submit the reviewed transaction
+  const submitVote = useCallback(async () => {
+    if (!wallet || !pendingTx) return;
+    if (networkMismatch) {
+      setVoteState((prev) => ({ ...prev, error: networkMismatch }));
+      return;
+    }
+
+    const { unsignedTx, signerKeyHash, multisig, isOffline } = pendingTx;
+
+    // Offline votes are signed outside the wallet, then submitted here
+    if (isOffline) {
+      setOfflineTx(unsignedTx);
+      setPendingTx(null);
+      return;
+    }
+
+    // Multisig votes are signed by each co-signer before submission
+    if (multisig) {
+      setMultisigTx({ unsignedTx, multisig });
+      setPendingTx(null);
+      return;
+    }
+
+    setVoteState({
+      isSubmitting: true,
+      isSuccess: false,
+      error: null,
+      txHash: null,
+    });
+
+    try {
       // Sign the transaction
-      const signedTx = await wallet.signTx(unsignedTx);
+      // SPO and CC keys are partial signers, so check the wallet actually used them
+      let signedTx: string;
+      if (signerKeyHash) {
+        signedTx = await wallet.signTx(unsignedTx, true);
+        assertVoterWitness(signedTx, signerKeyHash, pendingTx.voterRole);
+      } else {
+        signedTx = await wallet.signTx(unsignedTx);
+      }
 
       // Submit the transaction
       const submittedTxHash = await wallet.submitTx(signedTx);
@@ -300,41 +469,53 @@ export function VoteOnProposal({
         error: null,
         txHash: submittedTxHash,
       });
+      setPendingTx(null);
 
-      // Start polling to sync the vote
-      startPolling();
+      trackSubmittedVote(submittedTxHash);
     } catch (err) {
       console.error("Vote submission error:", err);
       setVoteState({
         isSubmitting: false,
         isSuccess: false,
-        error: err instanceof Error ? err.message : "Failed to submit vote",
+        error: toTxErrorMessage(err, "Failed to submit vote"),
         txHash: null,
       });
     }
-  }, [wallet, selectedVote, txHash, certIndex, anchorUrl, startPolling]);
+  }, [wallet, pendingTx, trackSubmittedVote, networkMismatch]);
 
+  const handleMultisigSubmitted = useCallback(
+    (submittedTxHash: string) => {
+      setMultisigTx(null);
+      setOfflineTx(null);
+      setVoteState({
+        isSubmitting: false,
+        isSuccess: true,
+        error: null,
+        txHash: submittedTxHash,
+      });
+      trackSubmittedVote(submittedTxHash);
+    },
+    [trackSubmittedVote]
+  );
+
+  // Tracking continues in the header tray after the dialog closes
   const closeModal = () => {
-    // Stop polling if still running
-    if (pollingIntervalRef.current) {
-      clearInterval(pollingIntervalRef.current);
-      pollingIntervalRef.current = null;
-    }
     setIsModalOpen(false);
     setSelectedVote(null);
     setAnchorUrl("");
+    setPublishedAnchor(null);
+    setMultisigTx(null);
+    setOfflineTx(null);
+    setPendingTx(null);
+    if (voteState.isSuccess) {
+      setIsChangingVote(false);
+    }
     setVoteState({
       isSubmitting: false,
       isSuccess: false,
       error: null,
       txHash: null,
     });
-    setSyncState({
-      isPolling: false,
-      isSynced: false,
-      pollCount: 0,
-      maxPolls: 15,
-    });
   };
 
   const getVoteButtonClass = (vote: VoteChoice) => {
@@ -387,38 +568,154 @@ export function VoteOnProposal({
           </div>
         ) : (
           <div className="space-y-4">
-            <p className="text-sm text-muted-foreground">
-              Select your vote choice:
-            </p>
-            <div className="flex gap-3">
-              <Button
-                variant="outline"
-                className={getVoteButtonClass("Yes")}
-                onClick={() => handleVoteClick("Yes")}
-              >
-                <ThumbsUp className="h-5 w-5 mr-2" />
-                Yes
-              </Button>
-              <Button
-                variant="outline"
-                className={getVoteButtonClass("No")}
-                onClick={() => handleVoteClick("No")}
-              >
-                <ThumbsDown className="h-5 w-5 mr-2" />
-                No
-              </Button>
+            {voterRoles.length > 1 && (
+              <VoterRoleSelect
+                voterRoles={voterRoles}
+                value={voterRole}
+                onChange={setVoterRole}
+              />
+            )}
+            {voterRole === "DRep" && (
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant={voteMode === "wallet" ? "default" : "outline"}
+                  className="flex-1"
+                  onClick={() => setVoteMode("wallet")}
+                >
+                  Wallet DRep
+                </Button>
+                <Button
+                  size="sm"
+                  variant={voteMode === "multisig" ? "default" : "outline"}
+                  className="flex-1"
+                  onClick={() => setVoteMode("multisig")}
+                >
+                  Multisig DRep
+                </Button>
+                <Button
+                  size="sm"
+                  variant={voteMode === "offline" ? "default" : "outline"}
+                  className="flex-1"
+                  onClick={() => setVoteMode("offline")}
+                >
+                  Offline DRep
+                </Button>
+              </div>
+            )}
+            {existingVote && (
+              <div className="bg-secondary/50 p-4 rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium">Your current vote</span>
+                  <Badge
+                    variant="outline"
+                    className={getVoteBadgeClass(existingVote.vote)}
+                  >
+                    {existingVote.vote}
+                  </Badge>
+                </div>
+                {existingVote.votedAt && (
+                  <p className="text-xs text-muted-foreground">
+                    Cast on {new Date(existingVote.votedAt).toLocaleString()}
+                  </p>
+                )}
+                {existingVote.anchorUrl ? (
+                  <a
+                    href={
+                      toViewableAnchorUrl(existingVote.anchorUrl) ?? undefined
+                    }
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-xs text-primary flex items-center gap-1 hover:underline break-all"
+                  >
+                    <ExternalLink className="h-3 w-3 flex-shrink-0" />
+                    {existingVote.anchorUrl}
+                  </a>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    No rationale attached
+                  </p>
+                )}
+              </div>
+            )}
+            {unconfirmedVote && (
+              <div className="flex items-start gap-2 text-sm text-muted-foreground bg-secondary/50 p-3 rounded-md">
+                <Loader2 className="h-4 w-4 mt-0.5 flex-shrink-0 animate-spin" />
+                <span>
+                  Your <strong>{unconfirmedVote.vote}</strong> vote submitted{" "}
+                  {new Date(unconfirmedVote.submittedAt).toLocaleString()} is
+                  awaiting confirmation. Voting again replaces it, so wait
+                  for it to appear in the records first.
+                </span>
+              </div>
+            )}
+            {existingVote && !isChangingVote ? (
               <Button
                 variant="outline"
-                className={getVoteButtonClass("Abstain")}
-                onClick={() => handleVoteClick("Abstain")}
+                className="w-full"
+                onClick={() => setIsChangingVote(true)}
               >
-                <MinusCircle className="h-5 w-5 mr-2" />
-                Abstain
+                <Pencil className="h-4 w-4 mr-2" />
+                Change Vote
               </Button>
-            </div>
-            <p className="text-xs text-muted-foreground text-center">
-              Your vote will be submitted on-chain as a DRep vote.
-            </p>
+            ) : (
+              <>
+                {existingVote && (
+                  <div className="flex items-start gap-2 text-sm text-muted-foreground">
+                    <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                    <span>
+                      Casting a new vote replaces your earlier vote. Only your
+                      latest vote counts towards ratification.{" "}
+                      <button
+                        className="text-primary hover:underline"
+                        onClick={() => setIsChangingVote(false)}
+                      >
+                        Keep current vote
+                      </button>
+                    </span>
+                  </div>
+                )}
+                <p className="text-sm text-muted-foreground">
+                  Select your vote choice:
+                </p>
+                <div className="flex gap-3">
+                  <Button
+                    variant="outline"
+                    className={getVoteButtonClass("Yes")}
+                    onClick={() => handleVoteClick("Yes")}
+                    disabled={!voterRole}
+                  >
+                    <ThumbsUp className="h-5 w-5 mr-2" />
+                    Yes
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className={getVoteButtonClass("No")}
+                    onClick={() => handleVoteClick("No")}
+                    disabled={!voterRole}
+                  >
+                    <ThumbsDown className="h-5 w-5 mr-2" />
+                    No
+                  </Button>
+                  <Button
+                    variant="outline"
+                    className={getVoteButtonClass("Abstain")}
+                    onClick={() => handleVoteClick("Abstain")}
+                    disabled={!voterRole}
+                  >
+                    <MinusCircle className="h-5 w-5 mr-2" />
+                    Abstain
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground text-center">
+                  {!voterRole
+                    ? "Select the role you are voting as."
+                    : isMultisigVote
+                      ? "Your vote will be submitted on-chain once enough co-signers have signed."
+                      : `Your vote will be submitted on-chain as a ${VOTER_ROLE_LABELS[voterRole]} vote.`}
+                </p>
+              </>
+            )}
           </div>
         )}
       </Card>
@@ -427,9 +724,6 @@ export function VoteOnProposal({
       <Dialog
         open={isModalOpen}
         onOpenChange={(open) => {
-          console.log(
-            `[Vote Sync] Dialog onOpenChange called with: ${open}, isPolling: ${syncState.isPolling}, isSuccess: ${voteState.isSuccess}`
-          );
           // Only close if explicitly requested (not from re-renders)
           if (!open) {
             closeModal();
@@ -438,14 +732,84 @@ export function VoteOnProposal({
       >
         <DialogContent className="sm:max-w-md">
           <DialogHeader>
-            <DialogTitle>Confirm Your Vote</DialogTitle>
+            <DialogTitle>
+              {existingVote ? "Confirm Vote Change" : "Confirm Your Vote"}
+            </DialogTitle>
             <DialogDescription>
-              You are about to vote <strong>{selectedVote}</strong> on this
-              governance action.
+              {existingVote ? (
+                <>
+                  You are about to change your vote from{" "}
+                  <strong>{existingVote.vote}</strong> to{" "}
+                  <strong>{selectedVote}</strong>. The new vote replaces the
+                  earlier one.
+                </>
+              ) : (
+                <>
+                  You are about to vote <strong>{selectedVote}</strong> on this
+                  governance action.
+                </>
+              )}
             </DialogDescription>
           </DialogHeader>
 
-          {voteState.isSuccess ? (
+          {multisigTx ? (
+            <MultisigSignatures
+              unsignedTx={multisigTx.unsignedTx}
+              multisig={multisigTx.multisig}
+              onSubmitted={handleMultisigSubmitted}
+              onCancel={closeModal}
+            />
+          ) : offlineTx ? (
+            <OfflineSigning
+              unsignedTx={offlineTx}
+              onSubmitted={handleMultisigSubmitted}
+              onCancel={closeModal}
+            />
+          ) : pendingTx ? (
+            <div className="space-y-4">
+              <NetworkMismatchAlert message={networkMismatch} />
+              {voteState.error && (
+                <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+                  <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <span>{voteState.error}</span>
+                </div>
+              )}
+              <TxPreviewPanel
+                preview={pendingTx.preview}
+                expectedActionIds={[`${txHash}#${certIndex}`]}
+                isSigning={voteState.isSubmitting}
+                acceptLabel={
+                  pendingTx.isOffline
+                    ? "Sign Offline"
+                    : pendingTx.multisig
+                      ? "Collect Signatures"
+                      : "Sign & Submit"
+                }
+                isBlocked={!!networkMismatch}
+                onAccept={submitVote}
+                onBack={() => {
+                  setPendingTx(null);
+                  setVoteState((prev) => ({ ...prev, error: null }));
+                }}
+              />
+              {!pendingTx.isOffline && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => {
+                    setOfflineTx(pendingTx.unsignedTx);
+                    setPendingTx(null);
+                    setVoteState((prev) => ({ ...prev, error: null }));
+                  }}
+                  disabled={voteState.isSubmitting}
+                >
+                  <FileDown className="h-4 w-4 mr-2" />
+                  Sign Offline Instead
+                </Button>
+              )}
+            </div>
+          ) : voteState.isSuccess ? (
             <div className="space-y-4">
               <div className="flex items-center justify-center py-6">
                 {syncState.isSynced ? (
@@ -463,7 +827,7 @@ export function VoteOnProposal({
                 </p>
                 {voteState.txHash && (
                   <a
-                    href={`https://adastat.net/transactions/${voteState.txHash}`}
+                    href={getExplorerTxUrl(voteState.txHash, network)}
                     target="_blank"
                     rel="noopener noreferrer"
                     className="text-primary text-sm flex items-center justify-center gap-1 hover:underline"
@@ -480,8 +844,14 @@ export function VoteOnProposal({
                   <div className="flex items-center justify-center gap-2 text-sm">
                     <RefreshCw className="h-4 w-4 animate-spin text-primary" />
                     <span className="text-muted-foreground">
-                      Syncing your vote... ({syncState.pollCount}/
-                      {syncState.maxPolls})
+                      {TX_STATE_LABELS[syncState.status?.state ?? "pending"]}
+                      {syncState.status?.state === "onchain" &&
+                        ` (${syncState.status.confirmations} ${
+                          syncState.status.confirmations === 1
+                            ? "confirmation"
+                            : "confirmations"
+                        }), waiting for indexer...`}
+                      {syncState.status?.state !== "onchain" && "..."}
                     </span>
                   </div>
                 ) : syncState.isSynced ? (
@@ -491,7 +861,7 @@ export function VoteOnProposal({
                       Vote synced! You can view it in the voting records below.
                     </span>
                   </div>
-                ) : syncState.pollCount >= syncState.maxPolls ? (
+                ) : syncState.isTimedOut ? (
                   <div className="text-center text-sm text-muted-foreground">
                     <p>Sync timed out. Your vote was submitted successfully.</p>
                     <p className="text-xs mt-1">
@@ -523,18 +893,55 @@ export function VoteOnProposal({
               <div className="flex justify-center">
                 <Badge
                   variant="outline"
-                  className={
-                    selectedVote === "Yes"
-                      ? "bg-emerald-500/20 text-emerald-400 border-emerald-500/30 text-lg px-6 py-2"
-                      : selectedVote === "No"
-                      ? "bg-red-500/20 text-red-400 border-red-500/30 text-lg px-6 py-2"
-                      : "bg-gray-500/20 text-gray-400 border-gray-500/30 text-lg px-6 py-2"
-                  }
+                  className={`${getVoteBadgeClass(selectedVote ?? "Abstain")} text-lg px-6 py-2`}
                 >
                   {selectedVote}
                 </Badge>
               </div>
 
+              <VoterCredentialInput
+                voterRole={voterRole}
+                value={voterCredential}
+                onChange={setVoterCredential}
+                disabled={voteState.isSubmitting}
+              />
+
+              {isOfflineDRepVote && (
+                <div className="space-y-2">
+                  <Label htmlFor="offlineDRepId">DRep ID</Label>
+                  <Input
+                    id="offlineDRepId"
+                    placeholder="drep1... or 56 character hex key hash"
+                    value={offlineDRepId}
+                    onChange={(e) => setOfflineDRepId(e.target.value)}
+                    className="font-mono text-xs"
+                    disabled={voteState.isSubmitting}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    The vote is built for this DRep and signed with its key
+                    outside the connected wallet, which only pays the fee.
+                  </p>
+                </div>
+              )}
+
+              {isMultisigVote && (
+                <div className="space-y-2">
+                  <Label htmlFor="nativeScript">DRep Native Script (CBOR)</Label>
+                  <Textarea
+                    id="nativeScript"
+                    placeholder="8201828200581c..."
+                    value={nativeScriptCbor}
+                    onChange={(e) => setNativeScriptCbor(e.target.value)}
+                    className="font-mono text-xs h-20 resize-none"
+                    disabled={voteState.isSubmitting}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    The native script that controls your multisig DRep
+                    credential. It is attached as the vote witness.
+                  </p>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="anchorUrl">Rationale URL (Optional)</Label>
                 <Input
@@ -544,12 +951,39 @@ export function VoteOnProposal({
                   onChange={(e) => setAnchorUrl(e.target.value)}
                   disabled={voteState.isSubmitting}
                 />
-                <p className="text-xs text-muted-foreground">
-                  Provide a URL to your voting rationale (e.g., IPFS link to a
-                  JSON document).
-                </p>
+                {publishedAnchor &&
+                publishedAnchor.anchorUrl === anchorUrl.trim() ? (
+                  <p className="text-xs text-muted-foreground break-all">
+                    Anchor hash: {publishedAnchor.anchorDataHash}
+                  </p>
+                ) : (
+                  <p className="text-xs text-muted-foreground">
+                    Provide a URL to your voting rationale (e.g., IPFS link to
+                    a JSON document).
+                  </p>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  onClick={() => setIsRationaleEditorOpen(true)}
+                  disabled={voteState.isSubmitting}
+                >
+                  <FileText className="h-4 w-4 mr-2" />
+                  Write Rationale
+                </Button>
+                <RationaleEditor
+                  open={isRationaleEditorOpen}
+                  onOpenChange={setIsRationaleEditorOpen}
+                  onPublished={(anchor) => {
+                    setPublishedAnchor(anchor);
+                    setAnchorUrl(anchor.anchorUrl);
+                  }}
+                />
               </div>
 
+              <NetworkMismatchAlert message={networkMismatch} />
+
               {voteState.error && (
                 <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
                   <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
@@ -568,23 +1002,24 @@ export function VoteOnProposal({
                 </Button>
                 <Button
                   className="flex-1"
-                  onClick={submitVote}
-                  disabled={voteState.isSubmitting}
+                  onClick={buildVote}
+                  disabled={voteState.isSubmitting || !!networkMismatch}
                 >
                   {voteState.isSubmitting ? (
                     <>
                       <Loader2 className="h-4 w-4 mr-2 animate-spin" />
-                      Submitting...
+                      Building...
                     </>
                   ) : (
-                    "Confirm Vote"
+                    "Review Transaction"
                   )}
                 </Button>
               </div>
 
               <p className="text-xs text-muted-foreground text-center">
-                This will create an on-chain transaction. You will be asked to
-                sign with your wallet.
+                {isMultisigVote
+                  ? "This will build an unsigned transaction for your co-signers to sign."
+                  : "This will create an on-chain transaction. You can review it before signing with your wallet."}
               </p>
             </div>
           )}
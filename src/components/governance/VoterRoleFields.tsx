@@ -0,0 +1,124 @@
+import { useState, useEffect, useMemo } from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { VOTER_ROLE_LABELS } from "@/lib/voter";
+import type { VoterType } from "@/types/governance";
+
+/**
+ * Track the role the user votes as
+ * Wallets can't show whether they hold a pool cold key or CC hot key, so no
+ * role is preselected unless the action allows only one
+ */
+export function useVoterRole(voterRoles: VoterType[]) {
+  const [voterRole, setVoterRole] = useState<VoterType | null>(
+    voterRoles.length === 1 ? voterRoles[0] : null
+  );
+  // Callers pass a new array each render, so the roles are keyed on content
+  const rolesKey = voterRoles.join(",");
+  const roles = useMemo(
+    () => (rolesKey ? (rolesKey.split(",") as VoterType[]) : []),
+    [rolesKey]
+  );
+
+  // Drop a choice the allowed roles no longer include
+  useEffect(() => {
+    setVoterRole((role) =>
+      roles.length === 1
+        ? roles[0]
+        : role && roles.includes(role)
+          ? role
+          : null
+    );
+  }, [roles]);
+
+  return [voterRole, setVoterRole] as const;
+}
+
+interface VoterRoleSelectProps {
+  voterRoles: VoterType[];
+  value: VoterType | null; // null until the user picks a role
+  onChange: (role: VoterType) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Select between the voter roles allowed for a governance action
+ */
+export function VoterRoleSelect({
+  voterRoles,
+  value,
+  onChange,
+  disabled,
+}: VoterRoleSelectProps) {
+  return (
+    <div className="space-y-2">
+      <Label>Vote As</Label>
+      <Select
+        value={value ?? ""}
+        onValueChange={(role) => onChange(role as VoterType)}
+        disabled={disabled || voterRoles.length <= 1}
+      >
+        <SelectTrigger>
+          <SelectValue placeholder="Select voter role" />
+        </SelectTrigger>
+        <SelectContent>
+          {voterRoles.map((role) => (
+            <SelectItem key={role} value={role}>
+              {VOTER_ROLE_LABELS[role]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
+interface VoterCredentialInputProps {
+  voterRole: VoterType | null;
+  value: string;
+  onChange: (credential: string) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Credential input for SPO (pool ID) and CC (hot key hash) votes
+ * DReps use the key from the connected wallet, so nothing is rendered
+ */
+export function VoterCredentialInput({
+  voterRole,
+  value,
+  onChange,
+  disabled,
+}: VoterCredentialInputProps) {
+  if (voterRole !== "SPO" && voterRole !== "CC") return null;
+
+  const isSpo = voterRole === "SPO";
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="voterCredential">
+        {isSpo ? "Pool ID" : "CC Hot Key Hash"}
+      </Label>
+      <Input
+        id="voterCredential"
+        placeholder={isSpo ? "pool1..." : "56 character hex key hash"}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
+        className="font-mono text-xs"
+      />
+      <p className="text-xs text-muted-foreground">
+        {isSpo
+          ? "The vote is signed with your pool cold key. Your wallet must hold this key."
+          : "The vote is signed with your CC hot credential. Your wallet must hold this key."}
+      </p>
+    </div>
+  );
+}
@@ -1,2 +1,17 @@
 export { VoteOnProposal } from "./VoteOnProposal";
 export { VoteButtons } from "./VoteButtons";
+export { VoteBasket } from "./VoteBasket";
+export { ThresholdProgress } from "./ThresholdProgress";
+export {
+  RatificationStatusCard,
+  RatificationVerdict,
+} from "./RatificationStatus";
+export { EpochTimeline, isExpiringSoon } from "./EpochTimeline";
+export {
+  AnchorStatusBadge,
+  AnchorVerificationCard,
+} from "./AnchorVerification";
+export { MarkdownContent } from "./MarkdownContent";
+export { ReferenceList } from "./ReferenceList";
+export { ProposalMetadataSections } from "./ProposalMetadataSections";
+export { RationaleDocumentView } from "./RationaleDocumentView";
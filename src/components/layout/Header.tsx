@@ -1,5 +1,7 @@
 import Link from "next/link";
-import { ConnectWalletButton } from "@/components/wallet";
+import { ConnectWalletButton, DelegationButton } from "@/components/wallet";
+import { NetworkSwitcher } from "./NetworkSwitcher";
+import { PendingVotesTray } from "./PendingVotesTray";
 
 export function Header() {
   return (
@@ -13,6 +15,21 @@ export function Header() {
           </Link>
 
           <div className="flex items-center gap-4">
+            <Link
+              href="/governance/propose"
+              className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              Propose
+            </Link>
+            <Link
+              href="/drep"
+              className="text-sm text-muted-foreground hover:text-foreground transition-colors"
+            >
+              DRep
+            </Link>
+            <PendingVotesTray />
+            <NetworkSwitcher />
+            <DelegationButton />
             <ConnectWalletButton />
           </div>
         </div>
@@ -0,0 +1,53 @@
+import { useEffect } from "react";
+import { useRouter } from "next/router";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import { changeNetwork, restoreNetwork } from "@/store/networkSlice";
+import {
+  CARDANO_NETWORKS,
+  NETWORK_CONFIG,
+  isCardanoNetwork,
+} from "@/lib/network";
+
+// Pages showing a single network-specific record
+const NETWORK_SPECIFIC_PATHS = ["/governance/[hash]"];
+
+export function NetworkSwitcher() {
+  const router = useRouter();
+  const dispatch = useAppDispatch();
+  const network = useAppSelector((state) => state.network.network);
+
+  useEffect(() => {
+    dispatch(restoreNetwork());
+  }, [dispatch]);
+
+  const handleChange = (value: string) => {
+    if (!isCardanoNetwork(value) || value === network) return;
+    dispatch(changeNetwork(value));
+    // The record shown doesn't exist on the other network
+    if (NETWORK_SPECIFIC_PATHS.includes(router.pathname)) {
+      router.push("/");
+    }
+  };
+
+  return (
+    <Select value={network} onValueChange={handleChange}>
+      <SelectTrigger className="w-[120px]" aria-label="Network">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {CARDANO_NETWORKS.map((option) => (
+          <SelectItem key={option} value={option}>
+            {NETWORK_CONFIG[option].label}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
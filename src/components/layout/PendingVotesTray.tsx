@@ -0,0 +1,228 @@
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { NETWORK_CONFIG, getExplorerTxUrl } from "@/lib/network";
+import { TX_STATE_LABELS } from "@/lib/txStatus";
+import { useAppDispatch, useAppSelector } from "@/store/hooks";
+import {
+  PENDING_VOTES_STORAGE_KEY,
+  dismissConfirmedVotes,
+  dismissPendingVotes,
+  isPendingVoteConfirmed,
+  restorePendingVotes,
+  stopPendingVoteWatchers,
+  watchPendingVote,
+  type PendingVote,
+} from "@/store/pendingVotesSlice";
+import {
+  CheckCircle,
+  Clock,
+  ExternalLink,
+  Loader2,
+  RefreshCw,
+  X,
+} from "lucide-react";
+
+function getStatusLabel(vote: PendingVote, isTracked: boolean): string {
+  if (isPendingVoteConfirmed(vote)) return "Confirmed";
+  if (!isTracked) {
+    return `Switch to ${NETWORK_CONFIG[vote.network].label} to track`;
+  }
+  if (vote.isTimedOut) return "Not indexed yet";
+  const status = vote.status;
+  if (status?.state === "onchain") {
+    return `${TX_STATE_LABELS.onchain} (${status.confirmations} ${
+      status.confirmations === 1 ? "confirmation" : "confirmations"
+    })`;
+  }
+  return TX_STATE_LABELS[status?.state ?? "pending"];
+}
+
+/**
+ * Header tray of submitted governance votes awaiting confirmation
+ * Restores votes saved by earlier sessions and other tabs, and resumes
+ * tracking the ones on the selected network
+ */
+export function PendingVotesTray() {
+  const dispatch = useAppDispatch();
+  const network = useAppSelector((state) => state.network.network);
+  const items = useAppSelector((state) => state.pendingVotes.items);
+  const [isOpen, setIsOpen] = useState(false);
+
+  // Load saved votes and follow changes made in other tabs
+  useEffect(() => {
+    dispatch(restorePendingVotes());
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === PENDING_VOTES_STORAGE_KEY) {
+        dispatch(restorePendingVotes());
+      }
+    };
+    window.addEventListener("storage", handleStorage);
+    return () => window.removeEventListener("storage", handleStorage);
+  }, [dispatch]);
+
+  // Status checks go to the selected network, so switching restarts tracking
+  useEffect(() => {
+    return () => stopPendingVoteWatchers();
+  }, [network]);
+
+  // Resume tracking unconfirmed votes; running watchers are left alone
+  useEffect(() => {
+    for (const vote of items) {
+      if (
+        vote.network === network &&
+        !isPendingVoteConfirmed(vote) &&
+        !vote.isTimedOut
+      ) {
+        dispatch(watchPendingVote(vote.txHash));
+      }
+    }
+  }, [dispatch, items, network]);
+
+  if (items.length === 0) return null;
+
+  const unconfirmedCount = items.filter(
+    (vote) => !isPendingVoteConfirmed(vote)
+  ).length;
+  const hasConfirmed = unconfirmedCount < items.length;
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => setIsOpen(true)}
+        className="flex items-center gap-2"
+        aria-label="Pending governance transactions"
+      >
+        {unconfirmedCount > 0 ? (
+          <Loader2 className="h-4 w-4 animate-spin" />
+        ) : (
+          <CheckCircle className="h-4 w-4 text-success" />
+        )}
+        <span className="hidden sm:inline">
+          {unconfirmedCount > 0 ? `${unconfirmedCount} Pending` : "Confirmed"}
+        </span>
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="sm:max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Pending Governance Transactions</DialogTitle>
+            <DialogDescription>
+              Votes you submitted are tracked here until they appear in the
+              voting records, even across reloads. Wait for a vote to confirm
+              before voting on the same action again.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-[400px] overflow-y-auto">
+            <ul className="space-y-2">
+              {items.map((vote) => {
+                const isTracked = vote.network === network;
+                const isConfirmed = isPendingVoteConfirmed(vote);
+                return (
+                  <li
+                    key={`${vote.txHash}-${vote.actionId}`}
+                    className="p-3 rounded-lg border border-border space-y-2"
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <Link
+                        href={`/governance/${encodeURIComponent(vote.actionId)}`}
+                        className="text-sm font-medium hover:underline"
+                        onClick={() => setIsOpen(false)}
+                      >
+                        {vote.title}
+                      </Link>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 w-6 p-0 flex-shrink-0"
+                        onClick={() =>
+                          dispatch(dismissPendingVotes(vote.txHash))
+                        }
+                        aria-label="Dismiss"
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <Badge variant="outline">{vote.vote}</Badge>
+                      {!isTracked && (
+                        <Badge variant="outline">
+                          {NETWORK_CONFIG[vote.network].label}
+                        </Badge>
+                      )}
+                      <span className="flex items-center gap-1">
+                        <Clock className="h-3 w-3" />
+                        {new Date(vote.submittedAt).toLocaleString()}
+                      </span>
+                    </div>
+                    <div className="flex items-center justify-between gap-2 text-xs">
+                      <span
+                        className={`flex items-center gap-1 ${
+                          isConfirmed ? "text-success" : "text-muted-foreground"
+                        }`}
+                      >
+                        {isConfirmed ? (
+                          <CheckCircle className="h-3 w-3" />
+                        ) : (
+                          isTracked &&
+                          !vote.isTimedOut && (
+                            <Loader2 className="h-3 w-3 animate-spin" />
+                          )
+                        )}
+                        {getStatusLabel(vote, isTracked)}
+                      </span>
+                      <div className="flex items-center gap-2">
+                        {isTracked && vote.isTimedOut && !isConfirmed && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            className="h-6 px-2 text-xs"
+                            onClick={() =>
+                              dispatch(watchPendingVote(vote.txHash))
+                            }
+                          >
+                            <RefreshCw className="h-3 w-3 mr-1" />
+                            Check Again
+                          </Button>
+                        )}
+                        <a
+                          href={getExplorerTxUrl(vote.txHash, vote.network)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-primary flex items-center gap-1 hover:underline"
+                        >
+                          {vote.txHash.slice(0, 8)}...
+                          <ExternalLink className="h-3 w-3" />
+                        </a>
+                      </div>
+                    </div>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+
+          {hasConfirmed && (
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={() => dispatch(dismissConfirmedVotes())}
+            >
+              Clear Confirmed
+            </Button>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1 +1,3 @@
 export { Header } from "./Header";
+export { NetworkSwitcher } from "./NetworkSwitcher";
+export { PendingVotesTray } from "./PendingVotesTray";
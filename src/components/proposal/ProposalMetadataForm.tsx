@@ -0,0 +1,280 @@
+import { useState } from "react";
+import type { Anchor } from "@meshsdk/core";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { storeProposalMetadata } from "@/services/api";
+import {
+  PROPOSAL_ABSTRACT_MAX_LENGTH,
+  PROPOSAL_REFERENCE_TYPES,
+  PROPOSAL_TITLE_MAX_LENGTH,
+  buildProposalMetadata,
+  validateProposalMetadata,
+  type ProposalMetadataInput,
+  type ProposalReferenceType,
+} from "@/lib/proposalMetadata";
+import { AlertCircle, Loader2, Plus, X } from "lucide-react";
+
+interface ProposalMetadataFormProps {
+  disabled?: boolean;
+  onPublished: (anchor: Anchor) => void;
+}
+
+const EMPTY_PROPOSAL_METADATA_INPUT: ProposalMetadataInput = {
+  authorName: "",
+  title: "",
+  abstract: "",
+  motivation: "",
+  rationale: "",
+  references: [],
+};
+
+function CharacterCount({ value, max }: { value: string; max: number }) {
+  const length = value.trim().length;
+  return (
+    <span
+      className={`text-xs ${
+        length > max ? "text-destructive" : "text-muted-foreground"
+      }`}
+    >
+      {length}/{max}
+    </span>
+  );
+}
+
+/**
+ * Editor for CIP-108 governance action metadata
+ * Validates the document, stores it through the API and returns the anchor
+ */
+export function ProposalMetadataForm({
+  disabled = false,
+  onPublished,
+}: ProposalMetadataFormProps) {
+  const [input, setInput] = useState<ProposalMetadataInput>(
+    EMPTY_PROPOSAL_METADATA_INPUT
+  );
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [showErrors, setShowErrors] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const metadataDocument = buildProposalMetadata(input);
+  const validationErrors = validateProposalMetadata(metadataDocument);
+  const isDisabled = disabled || isPublishing;
+
+  const updateField = <K extends keyof ProposalMetadataInput>(
+    field: K,
+    value: ProposalMetadataInput[K]
+  ) => {
+    setInput((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const updateReference = (
+    index: number,
+    changes: Partial<ProposalMetadataInput["references"][number]>
+  ) => {
+    setInput((prev) => ({
+      ...prev,
+      references: prev.references.map((ref, i) =>
+        i === index ? { ...ref, ...changes } : ref
+      ),
+    }));
+  };
+
+  const publish = async () => {
+    setShowErrors(true);
+    if (validationErrors.length > 0) return;
+
+    setIsPublishing(true);
+    setError(null);
+    try {
+      const { url, hash } = await storeProposalMetadata(metadataDocument);
+      onPublished({ anchorUrl: url, anchorDataHash: hash });
+      setShowErrors(false);
+    } catch (err) {
+      console.error("Proposal metadata publish error:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to store proposal metadata"
+      );
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex justify-between">
+          <Label htmlFor="proposalTitle">Title</Label>
+          <CharacterCount value={input.title} max={PROPOSAL_TITLE_MAX_LENGTH} />
+        </div>
+        <Input
+          id="proposalTitle"
+          value={input.title}
+          onChange={(e) => updateField("title", e.target.value)}
+          disabled={isDisabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between">
+          <Label htmlFor="proposalAbstract">Abstract</Label>
+          <CharacterCount
+            value={input.abstract}
+            max={PROPOSAL_ABSTRACT_MAX_LENGTH}
+          />
+        </div>
+        <Textarea
+          id="proposalAbstract"
+          value={input.abstract}
+          onChange={(e) => updateField("abstract", e.target.value)}
+          disabled={isDisabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="proposalMotivation">Motivation</Label>
+        <Textarea
+          id="proposalMotivation"
+          placeholder="What problem does this action solve?"
+          value={input.motivation}
+          onChange={(e) => updateField("motivation", e.target.value)}
+          disabled={isDisabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="proposalRationale">Rationale</Label>
+        <Textarea
+          id="proposalRationale"
+          placeholder="How does this action solve it?"
+          value={input.rationale}
+          onChange={(e) => updateField("rationale", e.target.value)}
+          disabled={isDisabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="proposalAuthor">Author (Optional)</Label>
+        <Input
+          id="proposalAuthor"
+          value={input.authorName}
+          onChange={(e) => updateField("authorName", e.target.value)}
+          disabled={isDisabled}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>References (Optional)</Label>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() =>
+              updateField("references", [
+                ...input.references,
+                { "@type": "Other", label: "", uri: "" },
+              ])
+            }
+            disabled={isDisabled}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add
+          </Button>
+        </div>
+        {input.references.map((ref, index) => (
+          <div key={index} className="flex gap-2 items-center">
+            <Select
+              value={ref["@type"]}
+              onValueChange={(value) =>
+                updateReference(index, {
+                  "@type": value as ProposalReferenceType,
+                })
+              }
+              disabled={isDisabled}
+            >
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PROPOSAL_REFERENCE_TYPES.map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {type}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Label"
+              value={ref.label}
+              onChange={(e) =>
+                updateReference(index, { label: e.target.value })
+              }
+              disabled={isDisabled}
+            />
+            <Input
+              placeholder="https://... or ipfs://..."
+              value={ref.uri}
+              onChange={(e) => updateReference(index, { uri: e.target.value })}
+              disabled={isDisabled}
+            />
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() =>
+                updateField(
+                  "references",
+                  input.references.filter((_, i) => i !== index)
+                )
+              }
+              disabled={isDisabled}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      {showErrors && validationErrors.length > 0 && (
+        <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+          <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <ul className="space-y-1">
+            {validationErrors.map((validationError) => (
+              <li key={validationError}>{validationError}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+          <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>{error}</span>
+        </div>
+      )}
+
+      <Button
+        variant="outline"
+        className="w-full"
+        onClick={publish}
+        disabled={isDisabled}
+      >
+        {isPublishing ? (
+          <>
+            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            Publishing...
+          </>
+        ) : (
+          "Publish Metadata"
+        )}
+      </Button>
+    </div>
+  );
+}
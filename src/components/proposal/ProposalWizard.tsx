@@ -0,0 +1,832 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+import { useWallet } from "@meshsdk/react";
+import {
+  MeshTxBuilder,
+  mConStr0,
+  resolveScriptHash,
+  type Anchor,
+} from "@meshsdk/core";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ConnectWalletButton,
+  NetworkMismatchAlert,
+  useWalletNetworkMismatch,
+} from "@/components/wallet";
+import { TxPreviewPanel } from "@/components/governance/TxPreview";
+import { resolveAnchor } from "@/lib/anchor";
+import { getActionTypeRules } from "@/lib/governanceRules";
+import {
+  PROPOSAL_ACTION_TYPES,
+  PROTOCOL_PARAMETERS,
+  buildGovernanceAction,
+  getParameterGroups,
+  getPreviousActionPurpose,
+  requiresGuardrailsScript,
+  validateProposalDraft,
+  type ParameterChangeInput,
+  type ProposalActionType,
+  type ProposalDraft,
+} from "@/lib/proposal";
+import { assertTxPreflight, toTxErrorMessage } from "@/lib/txPreflight";
+import {
+  decodeTxPreview,
+  formatLovelace,
+  type TxPreview,
+} from "@/lib/txPreview";
+import { getExplorerTxUrl } from "@/lib/network";
+import { TX_STATE_LABELS, pollTxStatus } from "@/lib/txStatus";
+import { VOTER_ROLE_LABELS } from "@/lib/voter";
+import {
+  fetchAccountDelegation,
+  fetchProposalParameters,
+  fetchTxStatus,
+} from "@/services/api";
+import { useAppSelector } from "@/store/hooks";
+import type {
+  AccountDelegation,
+  ProposalParameters,
+  TxStatus,
+} from "@/types/governance";
+import { ProposalMetadataForm } from "./ProposalMetadataForm";
+import {
+  AlertCircle,
+  CheckCircle,
+  ExternalLink,
+  Loader2,
+  Plus,
+  RefreshCw,
+  X,
+} from "lucide-react";
+
+type WizardStep = "type" | "details" | "metadata" | "review";
+
+const STEPS: { step: WizardStep; label: string }[] = [
+  { step: "type", label: "Action Type" },
+  { step: "details", label: "Details" },
+  { step: "metadata", label: "Metadata" },
+  { step: "review", label: "Review" },
+];
+
+const ACTION_DESCRIPTIONS: Record<ProposalActionType, string> = {
+  "Info Action":
+    "Record a statement on-chain to gauge sentiment. It is voted on but never enacted.",
+  "Treasury Withdrawals":
+    "Withdraw ADA from the treasury to one or more stake addresses.",
+  "Protocol Parameter Change":
+    "Change one or more protocol parameters. Thresholds depend on the parameter groups touched.",
+};
+
+const EMPTY_DRAFT: ProposalDraft = {
+  type: "Info Action",
+  withdrawals: [],
+  parameterChanges: [],
+};
+
+interface PendingProposalTx {
+  unsignedTx: string;
+  preview: TxPreview;
+}
+
+interface SubmittedProposalTx {
+  txHash: string;
+  status: TxStatus | null;
+  isPolling: boolean;
+}
+
+/**
+ * Step-by-step governance action submission for the connected wallet
+ * Builds the action, its CIP-108 anchor, deposit and previous action reference
+ */
+export function ProposalWizard() {
+  const { connected, wallet } = useWallet();
+  const network = useAppSelector((state) => state.network.network);
+  const networkMismatch = useWalletNetworkMismatch();
+  const [step, setStep] = useState<WizardStep>("type");
+  const [draft, setDraft] = useState<ProposalDraft>(EMPTY_DRAFT);
+  const [showDraftErrors, setShowDraftErrors] = useState(false);
+  const [anchorUrl, setAnchorUrl] = useState("");
+  const [publishedAnchor, setPublishedAnchor] = useState<Anchor | null>(null);
+  const [guardrailsScript, setGuardrailsScript] = useState("");
+  const [parameters, setParameters] = useState<ProposalParameters | null>(
+    null
+  );
+  const [account, setAccount] = useState<AccountDelegation | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [pendingTx, setPendingTx] = useState<PendingProposalTx | null>(null);
+  const [submittedTx, setSubmittedTx] = useState<SubmittedProposalTx | null>(
+    null
+  );
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [isSigning, setIsSigning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pollingAbortRef = useRef<AbortController | null>(null);
+
+  // Load the deposit, previous action IDs and the return stake account
+  const loadContext = useCallback(async () => {
+    if (!wallet) return;
+
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      const rewardAddresses = await wallet.getRewardAddresses();
+      if (rewardAddresses.length === 0) {
+        throw new Error("Your wallet did not provide a stake address.");
+      }
+      const [proposalParameters, returnAccount] = await Promise.all([
+        fetchProposalParameters(),
+        fetchAccountDelegation(rewardAddresses[0]),
+      ]);
+      setParameters(proposalParameters);
+      setAccount(returnAccount);
+    } catch (err) {
+      console.error("Proposal context load error:", err);
+      setLoadError(
+        err instanceof Error ? err.message : "Failed to load proposal context"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [wallet]);
+
+  useEffect(() => {
+    if (connected) {
+      loadContext();
+    } else {
+      setParameters(null);
+      setAccount(null);
+    }
+    // Parameters and accounts differ per network
+  }, [connected, loadContext, network]);
+
+  // Stop polling on unmount only
+  useEffect(() => {
+    return () => pollingAbortRef.current?.abort();
+  }, []);
+
+  const draftErrors = validateProposalDraft(draft);
+  const parameterGroups = getParameterGroups(draft.parameterChanges);
+  const rules = getActionTypeRules(draft.type, parameterGroups);
+  const previousActionPurpose = getPreviousActionPurpose(draft.type);
+  const previousActionId =
+    previousActionPurpose && parameters
+      ? parameters.previousActionIds[previousActionPurpose]
+      : null;
+  const needsGuardrails = requiresGuardrailsScript(draft.type);
+
+  const updateDraft = (changes: Partial<ProposalDraft>) => {
+    setDraft((prev) => ({ ...prev, ...changes }));
+  };
+
+  const handlePublished = (anchor: Anchor) => {
+    setPublishedAnchor(anchor);
+    setAnchorUrl(anchor.anchorUrl);
+  };
+
+  const goToMetadata = () => {
+    setShowDraftErrors(true);
+    if (draftErrors.length > 0) return;
+    setShowDraftErrors(false);
+    setStep("metadata");
+  };
+
+  // Build the proposal transaction and decode it for review
+  const buildProposal = async () => {
+    if (!wallet || !parameters || !account || networkMismatch) return;
+
+    setIsBuilding(true);
+    setError(null);
+    try {
+      if (!account.isRegistered) {
+        throw new Error(
+          "The deposit return stake address must be registered. Delegate your stake first to register it."
+        );
+      }
+
+      // A metadata published from the form already carries its hash
+      const anchor =
+        publishedAnchor && publishedAnchor.anchorUrl === anchorUrl.trim()
+          ? publishedAnchor
+          : await resolveAnchor(anchorUrl);
+      if (!anchor) {
+        throw new Error("Please publish or enter a metadata URL.");
+      }
+
+      const utxos = await wallet.getUtxos();
+      const changeAddress = await wallet.getChangeAddress();
+      const txBuilder = new MeshTxBuilder({
+        verbose: true,
+      });
+
+      txBuilder.proposal(
+        buildGovernanceAction(
+          draft,
+          previousActionId,
+          parameters.constitutionScriptHash
+        ),
+        anchor,
+        account.stakeAddress,
+        parameters.govActionDeposit
+      );
+
+      if (needsGuardrails) {
+        const script = guardrailsScript.trim();
+        let scriptHash: string | null = null;
+        try {
+          scriptHash = resolveScriptHash(script, "V3");
+        } catch {
+          // Reported below as a mismatch
+        }
+        if (scriptHash !== parameters.constitutionScriptHash) {
+          throw new Error(
+            "The guardrails script does not match the constitution's script hash."
+          );
+        }
+
+        const collateral = (await wallet.getCollateral())[0];
+        if (!collateral) {
+          throw new Error(
+            "Your wallet has no collateral set. Please enable collateral to run the guardrails script."
+          );
+        }
+        txBuilder
+          .proposalScript(script, "V3")
+          .proposalRedeemerValue(mConStr0([]))
+          .txInCollateral(
+            collateral.input.txHash,
+            collateral.input.outputIndex,
+            collateral.output.amount,
+            collateral.output.address
+          );
+      }
+
+      // Check the wallet can pay the fee, script execution and deposit
+      await assertTxPreflight(utxos, {
+        proposals: 1,
+        anchorUrls: [anchor.anchorUrl],
+        scriptBytes: needsGuardrails ? guardrailsScript.trim().length / 2 : 0,
+        scriptExecutions: needsGuardrails ? 1 : 0,
+        deposits: [
+          {
+            label: "governance action deposit",
+            lovelace: BigInt(parameters.govActionDeposit),
+          },
+        ],
+      });
+
+      await txBuilder
+        .selectUtxosFrom(utxos)
+        .changeAddress(changeAddress)
+        .complete();
+
+      const unsignedTx = txBuilder.txHex;
+      setPendingTx({
+        unsignedTx,
+        preview: decodeTxPreview(unsignedTx, changeAddress),
+      });
+    } catch (err) {
+      console.error("Proposal build error:", err);
+      setError(toTxErrorMessage(err, "Failed to build proposal"));
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  // Track the proposal tx until the indexer has picked it up
+  const trackSubmission = async (txHash: string) => {
+    pollingAbortRef.current?.abort();
+    const controller = new AbortController();
+    pollingAbortRef.current = controller;
+    setSubmittedTx({ txHash, status: null, isPolling: true });
+
+    await pollTxStatus(txHash, {
+      fetchStatus: fetchTxStatus,
+      signal: controller.signal,
+      onStatus: (status) =>
+        setSubmittedTx((prev) => (prev ? { ...prev, status } : prev)),
+    });
+    if (controller.signal.aborted) return;
+    pollingAbortRef.current = null;
+
+    setSubmittedTx((prev) => (prev ? { ...prev, isPolling: false } : prev));
+  };
+
+  // Sign and submit the reviewed transaction
+  const submitProposal = async () => {
+    if (!wallet || !pendingTx) return;
+    if (networkMismatch) {
+      setError(networkMismatch);
+      return;
+    }
+
+    setIsSigning(true);
+    setError(null);
+    try {
+      const signedTx = await wallet.signTx(pendingTx.unsignedTx);
+      const txHash = await wallet.submitTx(signedTx);
+
+      setPendingTx(null);
+      trackSubmission(txHash);
+    } catch (err) {
+      console.error("Proposal submission error:", err);
+      setError(toTxErrorMessage(err, "Failed to submit proposal"));
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  if (!connected) {
+    return (
+      <Card className="p-6">
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">
+            Connect your wallet to submit a governance action.
+          </p>
+          <ConnectWalletButton />
+        </div>
+      </Card>
+    );
+  }
+
+  if (isLoading && !parameters) {
+    return (
+      <Card className="p-12">
+        <div className="flex flex-col items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-primary mb-4" />
+          <p className="text-muted-foreground">Loading proposal details...</p>
+        </div>
+      </Card>
+    );
+  }
+
+  if (loadError || !parameters || !account) {
+    return (
+      <Card className="p-6 space-y-4">
+        <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+          <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <span>{loadError ?? "Failed to load proposal context"}</span>
+        </div>
+        <Button variant="outline" onClick={loadContext}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Retry
+        </Button>
+      </Card>
+    );
+  }
+
+  if (submittedTx) {
+    return (
+      <Card className="p-6 space-y-2">
+        <div className="flex items-center justify-between gap-4">
+          <p className="font-semibold flex items-center gap-2">
+            <CheckCircle className="h-5 w-5 text-success" />
+            {draft.type} Submitted
+          </p>
+          <a
+            href={getExplorerTxUrl(submittedTx.txHash, network)}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary text-sm flex items-center gap-1 hover:underline"
+          >
+            View on AdaStat
+            <ExternalLink className="h-3 w-3" />
+          </a>
+        </div>
+        <p className="text-sm text-muted-foreground flex items-center gap-2">
+          {submittedTx.isPolling && (
+            <RefreshCw className="h-4 w-4 animate-spin text-primary" />
+          )}
+          {TX_STATE_LABELS[submittedTx.status?.state ?? "pending"]}
+          {!submittedTx.isPolling &&
+            submittedTx.status?.state !== "indexed" &&
+            " - it may take a few more minutes to show up on the dashboard."}
+        </p>
+      </Card>
+    );
+  }
+
+  const stepIndex = STEPS.findIndex((item) => item.step === step);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-2">
+        {STEPS.map((item, index) => (
+          <Badge
+            key={item.step}
+            variant="outline"
+            className={
+              index === stepIndex
+                ? "bg-primary/20 text-primary border-primary/30"
+                : "bg-muted text-muted-foreground"
+            }
+          >
+            {index + 1}. {item.label}
+          </Badge>
+        ))}
+      </div>
+
+      {step === "type" && (
+        <Card className="p-6 space-y-4">
+          <h3 className="font-semibold">Choose an action type</h3>
+          <div className="space-y-2">
+            {PROPOSAL_ACTION_TYPES.map((type) => (
+              <button
+                key={type}
+                className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                  draft.type === type
+                    ? "border-primary bg-primary/10"
+                    : "border-border bg-secondary/30 hover:bg-secondary/60"
+                }`}
+                onClick={() => updateDraft({ type })}
+              >
+                <p className="text-sm font-medium">{type}</p>
+                <p className="text-xs text-muted-foreground">
+                  {ACTION_DESCRIPTIONS[type]}
+                </p>
+              </button>
+            ))}
+          </div>
+          <Button
+            className="w-full"
+            onClick={() =>
+              setStep(draft.type === "Info Action" ? "metadata" : "details")
+            }
+          >
+            Continue
+          </Button>
+        </Card>
+      )}
+
+      {step === "details" && (
+        <Card className="p-6 space-y-4">
+          {draft.type === "Treasury Withdrawals" && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold">Withdrawals</h3>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() =>
+                    updateDraft({
+                      withdrawals: [
+                        ...draft.withdrawals,
+                        { stakeAddress: "", amountAda: "" },
+                      ],
+                    })
+                  }
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+              {draft.withdrawals.map((withdrawal, index) => (
+                <div key={index} className="flex gap-2 items-center">
+                  <Input
+                    placeholder="stake1..."
+                    value={withdrawal.stakeAddress}
+                    onChange={(e) =>
+                      updateDraft({
+                        withdrawals: draft.withdrawals.map((w, i) =>
+                          i === index
+                            ? { ...w, stakeAddress: e.target.value }
+                            : w
+                        ),
+                      })
+                    }
+                  />
+                  <Input
+                    className="w-[160px]"
+                    placeholder="Amount (ADA)"
+                    value={withdrawal.amountAda}
+                    onChange={(e) =>
+                      updateDraft({
+                        withdrawals: draft.withdrawals.map((w, i) =>
+                          i === index ? { ...w, amountAda: e.target.value } : w
+                        ),
+                      })
+                    }
+                  />
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() =>
+                      updateDraft({
+                        withdrawals: draft.withdrawals.filter(
+                          (_, i) => i !== index
+                        ),
+                      })
+                    }
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {draft.type === "Protocol Parameter Change" && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold">Parameter changes</h3>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() =>
+                    updateDraft({
+                      parameterChanges: [
+                        ...draft.parameterChanges,
+                        { key: PROTOCOL_PARAMETERS[0].key, value: "" },
+                      ],
+                    })
+                  }
+                >
+                  <Plus className="h-4 w-4 mr-1" />
+                  Add
+                </Button>
+              </div>
+              {draft.parameterChanges.map((change, index) => (
+                <div key={index} className="flex gap-2 items-center">
+                  <Select
+                    value={change.key}
+                    onValueChange={(value) =>
+                      updateDraft({
+                        parameterChanges: draft.parameterChanges.map((c, i) =>
+                          i === index
+                            ? { ...c, key: value as ParameterChangeInput["key"] }
+                            : c
+                        ),
+                      })
+                    }
+                  >
+                    <SelectTrigger className="w-[280px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PROTOCOL_PARAMETERS.map((param) => (
+                        <SelectItem key={param.key} value={param.key}>
+                          {param.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    placeholder={
+                      PROTOCOL_PARAMETERS.find((p) => p.key === change.key)
+                        ?.kind === "rational"
+                        ? "e.g. 3/10"
+                        : "New value"
+                    }
+                    value={change.value}
+                    onChange={(e) =>
+                      updateDraft({
+                        parameterChanges: draft.parameterChanges.map((c, i) =>
+                          i === index ? { ...c, value: e.target.value } : c
+                        ),
+                      })
+                    }
+                  />
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() =>
+                      updateDraft({
+                        parameterChanges: draft.parameterChanges.filter(
+                          (_, i) => i !== index
+                        ),
+                      })
+                    }
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              {parameterGroups.length > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  Parameter groups: {parameterGroups.join(", ")}
+                </p>
+              )}
+            </div>
+          )}
+
+          {showDraftErrors && draftErrors.length > 0 && (
+            <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <ul className="space-y-1">
+                {draftErrors.map((draftError) => (
+                  <li key={draftError}>{draftError}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <div className="flex gap-3">
+            <Button
+              variant="outline"
+              className="flex-1"
+              onClick={() => setStep("type")}
+            >
+              Back
+            </Button>
+            <Button className="flex-1" onClick={goToMetadata}>
+              Continue
+            </Button>
+          </div>
+        </Card>
+      )}
+
+      {/* Kept mounted so the metadata draft survives step changes */}
+      <Card className={`p-6 space-y-4 ${step === "metadata" ? "" : "hidden"}`}>
+        <h3 className="font-semibold">Metadata</h3>
+        <div className="space-y-2">
+          <Label htmlFor="proposalAnchorUrl">Metadata URL</Label>
+          <Input
+            id="proposalAnchorUrl"
+            placeholder="https://... or ipfs://..."
+            value={anchorUrl}
+            onChange={(e) => setAnchorUrl(e.target.value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            Link a hosted CIP-108 document, or publish one with the form below.
+          </p>
+        </div>
+        <ProposalMetadataForm onPublished={handlePublished} />
+        <div className="flex gap-3">
+          <Button
+            variant="outline"
+            className="flex-1"
+            onClick={() =>
+              setStep(draft.type === "Info Action" ? "type" : "details")
+            }
+          >
+            Back
+          </Button>
+          <Button
+            className="flex-1"
+            onClick={() => setStep("review")}
+            disabled={!anchorUrl.trim()}
+          >
+            Continue
+          </Button>
+        </div>
+      </Card>
+
+      {step === "review" && (
+        <Card className="p-6 space-y-4">
+          <NetworkMismatchAlert message={networkMismatch} />
+
+          {error && (
+            <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {pendingTx ? (
+            <>
+              <h3 className="font-semibold">Review {draft.type}</h3>
+              <TxPreviewPanel
+                preview={pendingTx.preview}
+                isSigning={isSigning}
+                acceptLabel="Sign & Submit"
+                isBlocked={!!networkMismatch}
+                onAccept={submitProposal}
+                onBack={() => {
+                  setPendingTx(null);
+                  setError(null);
+                }}
+              />
+            </>
+          ) : (
+            <>
+              <h3 className="font-semibold">Review {draft.type}</h3>
+
+              <div className="bg-secondary/50 p-3 rounded-lg space-y-2 text-sm">
+                <p className="font-medium">Who votes on it</p>
+                {rules.voterBodies.map((body) => (
+                  <div
+                    key={body}
+                    className="flex items-center justify-between gap-2"
+                  >
+                    <span className="text-muted-foreground">
+                      {VOTER_ROLE_LABELS[body]}
+                    </span>
+                    <span>
+                      {rules.thresholds[body] !== null &&
+                        `${Math.round(
+                          (rules.thresholds[body] as number) * 100
+                        )}% Yes needed`}
+                    </span>
+                  </div>
+                ))}
+                {!rules.isRatifiable && (
+                  <p className="text-xs text-muted-foreground">
+                    Info actions are voted on but can never be ratified.
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-1 text-sm">
+                <p>
+                  <span className="text-muted-foreground">Deposit: </span>
+                  {formatLovelace(BigInt(parameters.govActionDeposit))},
+                  returned when the action is enacted, dropped or expires
+                </p>
+                <p className="break-all">
+                  <span className="text-muted-foreground">
+                    Deposit return:{" "}
+                  </span>
+                  {account.stakeAddress}
+                </p>
+                <p>
+                  <span className="text-muted-foreground">Voting period: </span>
+                  {parameters.govActionLifetime} epochs
+                </p>
+                {previousActionPurpose && (
+                  <p>
+                    <span className="text-muted-foreground">
+                      Previous action:{" "}
+                    </span>
+                    <span className="font-mono break-all">
+                      {previousActionId ?? "None enacted yet"}
+                    </span>
+                  </p>
+                )}
+              </div>
+
+              {!account.isRegistered && (
+                <div className="flex items-start gap-2 text-sm text-amber-400 bg-amber-500/10 p-3 rounded-md">
+                  <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                  <span>
+                    Your stake address is not registered, so it cannot receive
+                    the deposit back. Delegate your stake first to register it.
+                  </span>
+                </div>
+              )}
+
+              {needsGuardrails && (
+                <div className="space-y-2">
+                  <Label htmlFor="guardrailsScript">
+                    Guardrails script (CBOR)
+                  </Label>
+                  <Textarea
+                    id="guardrailsScript"
+                    className="font-mono text-xs"
+                    value={guardrailsScript}
+                    onChange={(e) => setGuardrailsScript(e.target.value)}
+                    disabled={isBuilding}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    {draft.type} must be approved by the constitution&apos;s
+                    guardrails script (
+                    {parameters?.constitutionScriptHash.slice(0, 10)}...).
+                    Paste its Plutus V3 CBOR.
+                  </p>
+                </div>
+              )}
+
+              <div className="flex gap-3">
+                <Button
+                  variant="outline"
+                  className="flex-1"
+                  onClick={() => setStep("metadata")}
+                  disabled={isBuilding}
+                >
+                  Back
+                </Button>
+                <Button
+                  className="flex-1"
+                  onClick={buildProposal}
+                  disabled={
+                    isBuilding || !account.isRegistered || !!networkMismatch
+                  }
+                >
+                  {isBuilding ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Building...
+                    </>
+                  ) : (
+                    "Review Transaction"
+                  )}
+                </Button>
+              </div>
+            </>
+          )}
+        </Card>
+      )}
+    </div>
+  );
+}
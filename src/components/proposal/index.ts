@@ -0,0 +1,2 @@
+export { ProposalWizard } from "./ProposalWizard";
+export { ProposalMetadataForm } from "./ProposalMetadataForm";
@@ -0,0 +1,78 @@
+import { useWallet } from "@meshsdk/react";
+import { Button } from "@/components/ui/button";
+import { Vote } from "lucide-react";
+import { useState, useEffect, useCallback } from "react";
+import { fetchAccountDelegation } from "@/services/api";
+import { useAppSelector } from "@/store/hooks";
+import { formatDelegationTarget } from "@/lib/delegation";
+import type { AccountDelegation } from "@/types/governance";
+import { DelegationModal } from "./DelegationModal";
+
+export function DelegationButton() {
+  const { connected, wallet } = useWallet();
+  const network = useAppSelector((state) => state.network.network);
+  const [isModalOpen, setIsModalOpen] = useState(false);
+  const [account, setAccount] = useState<AccountDelegation | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  // Load the vote delegation of the wallet's stake address
+  const loadDelegation = useCallback(async () => {
+    if (!wallet) return;
+
+    setIsLoading(true);
+    setLoadError(null);
+    try {
+      const rewardAddresses = await wallet.getRewardAddresses();
+      if (rewardAddresses.length === 0) {
+        throw new Error("Your wallet did not provide a stake address.");
+      }
+      setAccount(await fetchAccountDelegation(rewardAddresses[0]));
+    } catch (err) {
+      console.error("Failed to load delegation:", err);
+      setLoadError(
+        err instanceof Error ? err.message : "Failed to load delegation"
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, [wallet]);
+
+  useEffect(() => {
+    if (connected) {
+      loadDelegation();
+    } else {
+      setAccount(null);
+      setLoadError(null);
+    }
+    // Delegations differ per network
+  }, [connected, loadDelegation, network]);
+
+  if (!connected) return null;
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        onClick={() => setIsModalOpen(true)}
+        className="flex items-center gap-2"
+      >
+        <Vote className="h-4 w-4" />
+        <span>
+          {account?.delegation
+            ? formatDelegationTarget(account.delegation)
+            : "Delegate"}
+        </span>
+      </Button>
+
+      <DelegationModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        account={account}
+        isLoading={isLoading}
+        loadError={loadError}
+        onReload={loadDelegation}
+      />
+    </>
+  );
+}
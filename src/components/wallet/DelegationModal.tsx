@@ -0,0 +1,432 @@
+import { useWallet } from "@meshsdk/react";
+import { MeshTxBuilder } from "@meshsdk/core";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useEffect, useRef, useState } from "react";
+import { TxPreviewPanel } from "@/components/governance/TxPreview";
+import {
+  VOTE_DELEGATION_LABELS,
+  formatDelegationTarget,
+  isSameDelegation,
+  normalizeDRepId,
+  toMeshDRep,
+  type VoteDelegationType,
+} from "@/lib/delegation";
+import { assertTxPreflight, toTxErrorMessage } from "@/lib/txPreflight";
+import {
+  decodeTxPreview,
+  formatLovelace,
+  type TxPreview,
+} from "@/lib/txPreview";
+import { getExplorerTxUrl } from "@/lib/network";
+import { TX_STATE_LABELS, pollTxStatus } from "@/lib/txStatus";
+import { fetchTxStatus } from "@/services/api";
+import { useAppSelector } from "@/store/hooks";
+import type {
+  AccountDelegation,
+  TxStatus,
+  VoteDelegationTarget,
+} from "@/types/governance";
+import {
+  AlertCircle,
+  CheckCircle,
+  ExternalLink,
+  Loader2,
+  RefreshCw,
+  Vote,
+} from "lucide-react";
+import {
+  NetworkMismatchAlert,
+  useWalletNetworkMismatch,
+} from "./NetworkMismatchAlert";
+
+interface DelegationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  account: AccountDelegation | null;
+  isLoading: boolean;
+  loadError: string | null;
+  onReload: () => void;
+}
+
+interface PendingDelegationTx {
+  target: VoteDelegationTarget;
+  unsignedTx: string;
+  preview: TxPreview;
+}
+
+interface SubmittedDelegationTx {
+  txHash: string;
+  status: TxStatus | null;
+  isPolling: boolean;
+}
+
+const DELEGATION_TYPES = Object.keys(
+  VOTE_DELEGATION_LABELS
+) as VoteDelegationType[];
+
+const DELEGATION_DESCRIPTIONS: Record<VoteDelegationType, string> = {
+  drep: "A registered DRep votes on governance actions with your stake.",
+  abstain: "Your stake counts as abstaining on every governance action.",
+  no_confidence:
+    "Your stake votes Yes on No Confidence actions and No on all others.",
+};
+
+/**
+ * Vote delegation for the connected wallet's stake key
+ * Delegates to a DRep or a predefined option, registering the stake key first if needed
+ */
+export function DelegationModal({
+  isOpen,
+  onClose,
+  account,
+  isLoading,
+  loadError,
+  onReload,
+}: DelegationModalProps) {
+  const { wallet } = useWallet();
+  const network = useAppSelector((state) => state.network.network);
+  const networkMismatch = useWalletNetworkMismatch();
+  const [delegationType, setDelegationType] =
+    useState<VoteDelegationType>("drep");
+  const [drepId, setDrepId] = useState("");
+  const [pendingTx, setPendingTx] = useState<PendingDelegationTx | null>(
+    null
+  );
+  const [submittedTx, setSubmittedTx] =
+    useState<SubmittedDelegationTx | null>(null);
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [isSigning, setIsSigning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const pollingAbortRef = useRef<AbortController | null>(null);
+
+  // Stop polling on unmount only
+  useEffect(() => {
+    return () => pollingAbortRef.current?.abort();
+  }, []);
+
+  const handleClose = () => {
+    if (isSigning) return;
+    setPendingTx(null);
+    setError(null);
+    onClose();
+  };
+
+  // Build the delegation transaction and decode it for review
+  const buildDelegation = async () => {
+    if (!wallet || !account || networkMismatch) return;
+
+    let target: VoteDelegationTarget;
+    if (delegationType === "drep") {
+      const normalized = normalizeDRepId(drepId);
+      if (!normalized) {
+        setError("Please enter a valid DRep ID (drep1...).");
+        return;
+      }
+      target = { type: "drep", drepId: normalized };
+    } else {
+      target = { type: delegationType };
+    }
+    if (isSameDelegation(target, account.delegation)) {
+      setError("Your stake is already delegated to this choice.");
+      return;
+    }
+
+    setIsBuilding(true);
+    setError(null);
+    try {
+      const utxos = await wallet.getUtxos();
+      const changeAddress = await wallet.getChangeAddress();
+      const txBuilder = new MeshTxBuilder({
+        verbose: true,
+      });
+
+      // Only registered stake keys can delegate
+      if (!account.isRegistered) {
+        txBuilder.registerStakeCertificate(account.stakeAddress);
+      }
+      txBuilder.voteDelegationCertificate(
+        toMeshDRep(target),
+        account.stakeAddress
+      );
+
+      // Check the wallet can pay the fee and any stake key deposit
+      // The delegation certificate is also witnessed by the stake key
+      await assertTxPreflight(utxos, {
+        certificates: account.isRegistered ? 1 : 2,
+        extraWitnesses: 1,
+        deposits: account.isRegistered
+          ? []
+          : [
+              {
+                label: "stake key deposit",
+                lovelace: BigInt(account.stakeKeyDeposit),
+              },
+            ],
+      });
+
+      await txBuilder
+        .selectUtxosFrom(utxos)
+        .changeAddress(changeAddress)
+        .complete();
+
+      const unsignedTx = txBuilder.txHex;
+      setPendingTx({
+        target,
+        unsignedTx,
+        preview: decodeTxPreview(unsignedTx, changeAddress),
+      });
+    } catch (err) {
+      console.error("Delegation build error:", err);
+      setError(toTxErrorMessage(err, "Failed to build delegation"));
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  // Track the delegation tx and reload the delegation once indexed
+  const trackSubmission = async (txHash: string) => {
+    pollingAbortRef.current?.abort();
+    const controller = new AbortController();
+    pollingAbortRef.current = controller;
+    setSubmittedTx({ txHash, status: null, isPolling: true });
+
+    const lastStatus = await pollTxStatus(txHash, {
+      fetchStatus: fetchTxStatus,
+      signal: controller.signal,
+      onStatus: (status) =>
+        setSubmittedTx((prev) => (prev ? { ...prev, status } : prev)),
+    });
+    if (controller.signal.aborted) return;
+    pollingAbortRef.current = null;
+
+    setSubmittedTx((prev) => (prev ? { ...prev, isPolling: false } : prev));
+    if (lastStatus?.state === "indexed") {
+      onReload();
+    }
+  };
+
+  // Sign and submit the reviewed transaction
+  const submitDelegation = async () => {
+    if (!wallet || !pendingTx) return;
+    if (networkMismatch) {
+      setError(networkMismatch);
+      return;
+    }
+
+    setIsSigning(true);
+    setError(null);
+    try {
+      const signedTx = await wallet.signTx(pendingTx.unsignedTx);
+      const txHash = await wallet.submitTx(signedTx);
+
+      setPendingTx(null);
+      setDrepId("");
+      trackSubmission(txHash);
+    } catch (err) {
+      console.error("Delegation submission error:", err);
+      setError(toTxErrorMessage(err, "Failed to submit delegation"));
+    } finally {
+      setIsSigning(false);
+    }
+  };
+
+  const renderContent = () => {
+    if (isLoading && !account) {
+      return (
+        <div className="flex flex-col items-center justify-center py-8">
+          <Loader2 className="h-8 w-8 animate-spin text-primary mb-4" />
+          <p className="text-muted-foreground">Loading delegation...</p>
+        </div>
+      );
+    }
+
+    if (loadError || !account) {
+      return (
+        <div className="space-y-4">
+          <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>{loadError ?? "Failed to load delegation"}</span>
+          </div>
+          <Button variant="outline" onClick={onReload}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Retry
+          </Button>
+        </div>
+      );
+    }
+
+    if (pendingTx) {
+      return (
+        <div className="space-y-4">
+          <NetworkMismatchAlert message={networkMismatch} />
+          {error && (
+            <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+              <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+              <span>{error}</span>
+            </div>
+          )}
+          <p className="text-sm">
+            <span className="text-muted-foreground">Delegate to: </span>
+            <span className="break-all">
+              {formatDelegationTarget(pendingTx.target)}
+            </span>
+          </p>
+          <TxPreviewPanel
+            preview={pendingTx.preview}
+            isSigning={isSigning}
+            acceptLabel="Sign & Submit"
+            isBlocked={!!networkMismatch}
+            onAccept={submitDelegation}
+            onBack={() => {
+              setPendingTx(null);
+              setError(null);
+            }}
+          />
+        </div>
+      );
+    }
+
+    return (
+      <div className="space-y-4">
+        <div className="bg-secondary/50 p-4 rounded-lg space-y-2 text-sm">
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-muted-foreground">Current delegation</span>
+            <span className="font-medium text-right break-all">
+              {account.delegation
+                ? formatDelegationTarget(account.delegation)
+                : "Not delegated"}
+            </span>
+          </div>
+          {account.delegation?.type === "drep" && (
+            <p className="font-mono text-xs text-muted-foreground break-all">
+              {account.delegation.drepId}
+            </p>
+          )}
+        </div>
+
+        {submittedTx && (
+          <div className="bg-secondary/50 p-4 rounded-lg space-y-2 text-sm">
+            <div className="flex items-center justify-between gap-4">
+              <span className="font-medium flex items-center gap-2">
+                <CheckCircle className="h-4 w-4 text-success" />
+                Delegation Submitted
+              </span>
+              <a
+                href={getExplorerTxUrl(submittedTx.txHash, network)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-primary text-xs flex items-center gap-1 hover:underline"
+              >
+                View on AdaStat
+                <ExternalLink className="h-3 w-3" />
+              </a>
+            </div>
+            <p className="text-muted-foreground flex items-center gap-2">
+              {submittedTx.isPolling && (
+                <RefreshCw className="h-4 w-4 animate-spin text-primary" />
+              )}
+              {TX_STATE_LABELS[submittedTx.status?.state ?? "pending"]}
+            </p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {DELEGATION_TYPES.map((type) => (
+            <button
+              key={type}
+              className={`w-full text-left p-3 rounded-lg border transition-colors disabled:opacity-50 ${
+                delegationType === type
+                  ? "border-primary bg-primary/10"
+                  : "border-border bg-secondary/30 hover:bg-secondary/60"
+              }`}
+              onClick={() => {
+                setDelegationType(type);
+                setError(null);
+              }}
+              disabled={isBuilding}
+            >
+              <p className="text-sm font-medium">
+                {VOTE_DELEGATION_LABELS[type]}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                {DELEGATION_DESCRIPTIONS[type]}
+              </p>
+            </button>
+          ))}
+        </div>
+
+        {delegationType === "drep" && (
+          <div className="space-y-2">
+            <Label htmlFor="delegationDRepId">DRep ID</Label>
+            <Input
+              id="delegationDRepId"
+              placeholder="drep1..."
+              value={drepId}
+              onChange={(e) => setDrepId(e.target.value)}
+              disabled={isBuilding}
+            />
+          </div>
+        )}
+
+        {!account.isRegistered && (
+          <p className="text-xs text-muted-foreground">
+            Your stake key is not registered yet. It will be registered in
+            the same transaction, locking a refundable deposit of{" "}
+            {formatLovelace(BigInt(account.stakeKeyDeposit))}.
+          </p>
+        )}
+
+        <NetworkMismatchAlert message={networkMismatch} />
+
+        {error && (
+          <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+            <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
+
+        <Button
+          className="w-full"
+          onClick={buildDelegation}
+          disabled={isBuilding || !!networkMismatch}
+        >
+          {isBuilding ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              Building...
+            </>
+          ) : (
+            "Review Delegation"
+          )}
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Vote className="h-5 w-5" />
+            Vote Delegation
+          </DialogTitle>
+          <DialogDescription>
+            Choose who votes on governance actions with your stake.
+          </DialogDescription>
+        </DialogHeader>
+        {renderContent()}
+      </DialogContent>
+    </Dialog>
+  );
+}
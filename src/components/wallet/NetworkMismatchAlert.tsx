@@ -0,0 +1,73 @@
+import { useEffect, useState } from "react";
+import { useWallet } from "@meshsdk/react";
+import { useAppSelector } from "@/store/hooks";
+import { getNetworkMismatchMessage } from "@/lib/network";
+import { AlertCircle, Loader2 } from "lucide-react";
+
+// Blocks signing until the wallet has reported its network
+const NETWORK_CHECK_PENDING = "Checking the wallet's network...";
+
+/**
+ * Check the connected wallet against the selected network
+ * An unknown network blocks like a mismatch, while it is read and when it
+ * can't be read
+ * @returns why the wallet can't sign here, or null when it matches
+ */
+export function useWalletNetworkMismatch(): string | null {
+  const { connected, wallet } = useWallet();
+  const network = useAppSelector((state) => state.network.network);
+  const [mismatch, setMismatch] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!connected || !wallet) {
+      setMismatch(null);
+      return;
+    }
+
+    let isCurrent = true;
+    setMismatch(NETWORK_CHECK_PENDING);
+    wallet
+      .getNetworkId()
+      .then((networkId) => {
+        if (isCurrent) {
+          setMismatch(getNetworkMismatchMessage(networkId, network));
+        }
+      })
+      .catch((err) => {
+        console.error("Failed to read wallet network:", err);
+        if (isCurrent) {
+          setMismatch(
+            "Could not read the wallet's network. Reconnect your wallet and try again."
+          );
+        }
+      });
+    return () => {
+      isCurrent = false;
+    };
+  }, [connected, wallet, network]);
+
+  return mismatch;
+}
+
+/**
+ * Error box shown in transaction flows while the wallet is on another network
+ */
+export function NetworkMismatchAlert({ message }: { message: string | null }) {
+  if (!message) return null;
+
+  if (message === NETWORK_CHECK_PENDING) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span>{message}</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+      <AlertCircle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+      <span>{message}</span>
+    </div>
+  );
+}
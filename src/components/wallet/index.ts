@@ -1,2 +1,8 @@
 export { ConnectWalletButton } from "./ConnectWalletButton";
 export { ConnectWalletModal } from "./ConnectWalletModal";
+export { DelegationButton } from "./DelegationButton";
+export { DelegationModal } from "./DelegationModal";
+export {
+  NetworkMismatchAlert,
+  useWalletNetworkMismatch,
+} from "./NetworkMismatchAlert";
@@ -6,17 +6,79 @@
  * the backend API key secure on the server side.
  */
 
+import type { ProposalQuery, VoteQuery } from "@/types/governance";
+import { toProposalSearchParams } from "@/lib/proposalQuery";
+import { toVoteSearchParams } from "@/lib/voteQuery";
+
 // API endpoints - these point to local Next.js API routes
 // The actual backend URL and API key are configured via server-side
 // environment variables (BACKEND_API_URL and BACKEND_API_KEY)
 export const API_ENDPOINTS = {
   // Overview endpoints
   overview: "/api/overview",
-  proposals: "/api/overview/proposals",
+  // Paginated, sortable and filterable proposal list
+  proposals: (query: ProposalQuery = {}) => {
+    const params = toProposalSearchParams(query).toString();
+    return `/api/overview/proposals${params ? `?${params}` : ""}`;
+  },
   ncl: "/api/overview/ncl",
   nclByYear: (year: number) => `/api/overview/ncl/${year}`,
 
   // Proposal detail endpoint (requires proposal_id parameter)
   proposalDetail: (proposalId: string) =>
     `/api/proposal/${encodeURIComponent(proposalId)}`,
+
+  // Server-side check of a proposal's anchor document against its on-chain hash
+  proposalAnchor: (proposalId: string) =>
+    `/api/proposal/${encodeURIComponent(proposalId)}/anchor`,
+
+  // Paginated vote records for a proposal
+  proposalVotes: (proposalId: string, query: VoteQuery = {}) => {
+    const params = toVoteSearchParams(query).toString();
+    return `/api/proposal/${encodeURIComponent(proposalId)}/votes${
+      params ? `?${params}` : ""
+    }`;
+  },
+
+  // Server-side fetch of any http(s) or ipfs:// anchor document
+  anchor: (anchorUrl: string, anchorHash?: string) => {
+    const params = new URLSearchParams({ url: anchorUrl });
+    if (anchorHash) params.set("hash", anchorHash);
+    return `/api/anchor?${params.toString()}`;
+  },
+  // Reachability check for a metadata reference link
+  anchorCheck: (url: string) =>
+    `/api/anchor/check?${new URLSearchParams({ url }).toString()}`,
+
+  // Vote rationale (CIP-136) storage and hosting
+  rationale: "/api/rationale",
+  rationaleDocument: (hash: string) =>
+    `/api/rationale/${encodeURIComponent(hash)}`,
+
+  // Public DRep profile with voting power and full vote history
+  drepProfile: (drepId: string) => `/api/drep/${encodeURIComponent(drepId)}`,
+  // DRep registration state and CIP-119 metadata storage and hosting
+  drepRegistration: (drepId: string) =>
+    `/api/drep/${encodeURIComponent(drepId)}/registration`,
+  drepMetadata: "/api/drep/metadata",
+  drepMetadataDocument: (hash: string) =>
+    `/api/drep/metadata/${encodeURIComponent(hash)}`,
+
+  // Governance action (CIP-108) metadata storage and hosting
+  proposalMetadata: "/api/proposal/metadata",
+  proposalMetadataDocument: (hash: string) =>
+    `/api/proposal/metadata/${encodeURIComponent(hash)}`,
+  // Deposit and previous action IDs for new governance actions
+  proposalParameters: "/api/governance/proposal-parameters",
+  // Fee and minimum output parameters for the transaction preflight
+  feeParameters: "/api/governance/fee-parameters",
+
+  // Vote delegation state of a stake account
+  accountDelegation: (stakeAddress: string) =>
+    `/api/account/${encodeURIComponent(stakeAddress)}/delegation`,
+
+  // Submitted transaction confirmation status
+  txStatus: (txHash: string) => `/api/tx/${encodeURIComponent(txHash)}`,
+  // Signed transaction submission for offline signing
+  txSubmit: "/api/tx/submit",
 } as const;
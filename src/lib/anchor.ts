@@ -0,0 +1,88 @@
+/**
+ * Vote anchor helpers
+ * Fetches a rationale document and computes its Blake2b-256 anchor hash
+ */
+
+import { core, type Anchor } from "@meshsdk/core";
+import { fetchAnchorContent } from "@/services/api";
+import type { AnchorVerificationStatus } from "@/types/governance";
+
+export const ANCHOR_VERIFICATION_LABELS: Record<
+  AnchorVerificationStatus,
+  string
+> = {
+  verified: "Verified",
+  mismatch: "Hash mismatch",
+  unreachable: "Unreachable",
+};
+
+// Public gateway for links the user opens; documents are fetched via the proxy
+const IPFS_VIEW_GATEWAY = "https://ipfs.io/ipfs/";
+
+/**
+ * Browser-openable URL for an anchor or reference link
+ * @returns null for schemes that are unsafe or unsupported (javascript:, data:, ...)
+ */
+export function toViewableAnchorUrl(url: string): string | null {
+  const trimmed = url.trim();
+  if (trimmed.startsWith("ipfs://")) {
+    return IPFS_VIEW_GATEWAY + trimmed.slice("ipfs://".length);
+  }
+  return /^https?:\/\//i.test(trimmed) ? trimmed : null;
+}
+
+/**
+ * Blake2b-256 hash of an anchor document's raw bytes
+ * This is what the on-chain anchor hash commits to
+ */
+export function hashAnchorContent(content: Uint8Array): string {
+  return core.blake2b.hash(core.HexBlob.fromBytes(content), 32);
+}
+
+/**
+ * Verify anchor document bytes against the on-chain hash
+ */
+export function verifyAnchorContent(
+  content: Uint8Array,
+  expectedHash: string
+): { status: AnchorVerificationStatus; computedHash: string } {
+  const computedHash = hashAnchorContent(content);
+  return {
+    status:
+      computedHash === expectedHash.trim().toLowerCase()
+        ? "verified"
+        : "mismatch",
+    computedHash,
+  };
+}
+
+/**
+ * Build a vote anchor from a rationale URL
+ * @returns undefined when no URL is provided
+ * @throws Error if the content cannot be fetched or is not valid JSON
+ */
+export async function resolveAnchor(
+  anchorUrl: string
+): Promise<Anchor | undefined> {
+  const trimmedUrl = anchorUrl.trim();
+  if (!trimmedUrl) return undefined;
+
+  // Fetch the content through the anchor proxy and hash the bytes as served,
+  // which is what verifiers compare against
+  try {
+    const content = await fetchAnchorContent(trimmedUrl);
+    JSON.parse(new TextDecoder().decode(content));
+    const anchorDataHash = hashAnchorContent(content);
+
+    return {
+      anchorUrl: trimmedUrl,
+      anchorDataHash,
+    };
+  } catch (fetchError) {
+    throw new Error(
+      `Failed to fetch or hash anchor content: ${
+        fetchError instanceof Error ? fetchError.message : "Unknown error"
+      }. ` + `Please ensure the URL is accessible and contains valid JSON.`
+    );
+  }
+}
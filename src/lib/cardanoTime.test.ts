@@ -0,0 +1,93 @@
+import { describe, expect, it } from "vitest";
+import {
+  dateToEpoch,
+  dateToSlot,
+  epochToDate,
+  formatExpiryCountdown,
+  getExpiryCountdown,
+  slotToDate,
+  type CardanoNetwork,
+} from "./cardanoTime";
+
+// A known epoch start and slot time on each network
+const REFERENCE_POINTS: Record<
+  CardanoNetwork,
+  { epoch: number; epochStart: string; slot: number; slotTime: string }
+> = {
+  mainnet: {
+    epoch: 500,
+    epochStart: "2024-07-28T21:44:51.000Z",
+    slot: 4492800,
+    slotTime: "2020-07-29T21:44:51.000Z",
+  },
+  preprod: {
+    epoch: 4,
+    epochStart: "2022-06-21T00:00:00.000Z",
+    slot: 86400 + 3600,
+    slotTime: "2022-06-21T01:00:00.000Z",
+  },
+  preview: {
+    epoch: 10,
+    epochStart: "2022-11-04T00:00:00.000Z",
+    slot: 86400,
+    slotTime: "2022-10-26T00:00:00.000Z",
+  },
+};
+
+describe.each(Object.entries(REFERENCE_POINTS))("%s", (network, point) => {
+  const net = network as CardanoNetwork;
+
+  it("converts between epochs and their start time", () => {
+    expect(epochToDate(point.epoch, net).toISOString()).toBe(point.epochStart);
+    expect(dateToEpoch(new Date(point.epochStart), net)).toBe(point.epoch);
+    const justBefore = new Date(new Date(point.epochStart).getTime() - 1000);
+    expect(dateToEpoch(justBefore, net)).toBe(point.epoch - 1);
+  });
+
+  it("converts between slots and time", () => {
+    expect(slotToDate(point.slot, net).toISOString()).toBe(point.slotTime);
+    expect(dateToSlot(new Date(point.slotTime), net)).toBe(point.slot);
+  });
+});
+
+describe("getExpiryCountdown", () => {
+  const now = new Date("2024-07-29T00:00:00Z"); // mainnet epoch 500
+
+  it("counts down to the end of the expiry epoch", () => {
+    const countdown = getExpiryCountdown(500, "mainnet", now);
+
+    expect(countdown.expiresAt.toISOString()).toBe("2024-08-02T21:44:51.000Z");
+    expect(countdown).toMatchObject({
+      daysLeft: 5,
+      epochsLeft: 1,
+      isExpired: false,
+      isUrgent: true,
+    });
+    expect(formatExpiryCountdown(countdown)).toBe(
+      "expires in 5 days / 1 epoch"
+    );
+  });
+
+  it("reports actions past their expiry epoch as expired", () => {
+    const countdown = getExpiryCountdown(499, "mainnet", now);
+
+    expect(countdown).toMatchObject({
+      daysLeft: 0,
+      epochsLeft: 0,
+      isExpired: true,
+      isUrgent: false,
+    });
+    expect(formatExpiryCountdown(countdown)).toBe("expired");
+  });
+
+  it("uses the network's epoch length", () => {
+    const countdown = getExpiryCountdown(
+      20,
+      "preview",
+      new Date("2022-11-04T12:00:00Z") // preview epoch 10
+    );
+
+    expect(countdown.epochsLeft).toBe(11);
+    expect(countdown.isUrgent).toBe(false);
+  });
+});
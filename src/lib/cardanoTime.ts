@@ -0,0 +1,161 @@
+/**
+ * Cardano epoch and slot time conversions
+ * Network-aware, based on each network's Shelley hard fork point
+ */
+
+import { format, formatDistanceToNow } from "date-fns";
+
+export type CardanoNetwork = "mainnet" | "preprod" | "preview";
+
+export const DEFAULT_NETWORK: CardanoNetwork = "mainnet";
+
+interface NetworkTimeConfig {
+  // Unix time (seconds), slot and epoch of the first Shelley slot
+  shelleyStartTime: number;
+  shelleyStartSlot: number;
+  shelleyStartEpoch: number;
+  // Shelley epoch length in seconds (1 second slots)
+  epochLength: number;
+}
+
+export const NETWORK_TIME_CONFIG: Record<CardanoNetwork, NetworkTimeConfig> = {
+  mainnet: {
+    shelleyStartTime: 1596059091, // 2020-07-29T21:44:51Z
+    shelleyStartSlot: 4492800,
+    shelleyStartEpoch: 208,
+    epochLength: 432000,
+  },
+  preprod: {
+    shelleyStartTime: 1655769600, // 2022-06-21T00:00:00Z
+    shelleyStartSlot: 86400,
+    shelleyStartEpoch: 4,
+    epochLength: 432000,
+  },
+  preview: {
+    shelleyStartTime: 1666656000, // 2022-10-25T00:00:00Z
+    shelleyStartSlot: 0,
+    shelleyStartEpoch: 0,
+    epochLength: 86400,
+  },
+};
+
+// Actions within this many epochs of expiry are highlighted
+export const EXPIRY_URGENCY_EPOCHS = 2;
+
+const SECONDS_PER_DAY = 86400;
+
+/**
+ * Start time of an epoch
+ * Only Shelley-era epochs are supported, which covers all governance data
+ */
+export function epochToDate(
+  epoch: number,
+  network: CardanoNetwork = DEFAULT_NETWORK
+): Date {
+  const config = NETWORK_TIME_CONFIG[network];
+  const seconds =
+    config.shelleyStartTime +
+    (epoch - config.shelleyStartEpoch) * config.epochLength;
+  return new Date(seconds * 1000);
+}
+
+/**
+ * Epoch containing the given time
+ */
+export function dateToEpoch(
+  date: Date,
+  network: CardanoNetwork = DEFAULT_NETWORK
+): number {
+  const config = NETWORK_TIME_CONFIG[network];
+  const elapsed = date.getTime() / 1000 - config.shelleyStartTime;
+  return config.shelleyStartEpoch + Math.floor(elapsed / config.epochLength);
+}
+
+/**
+ * Time of a Shelley-era slot
+ */
+export function slotToDate(
+  slot: number,
+  network: CardanoNetwork = DEFAULT_NETWORK
+): Date {
+  const config = NETWORK_TIME_CONFIG[network];
+  return new Date(
+    (config.shelleyStartTime + (slot - config.shelleyStartSlot)) * 1000
+  );
+}
+
+/**
+ * Slot at the given time
+ */
+export function dateToSlot(
+  date: Date,
+  network: CardanoNetwork = DEFAULT_NETWORK
+): number {
+  const config = NETWORK_TIME_CONFIG[network];
+  return (
+    config.shelleyStartSlot +
+    Math.floor(date.getTime() / 1000 - config.shelleyStartTime)
+  );
+}
+
+export function getCurrentEpoch(
+  network: CardanoNetwork = DEFAULT_NETWORK,
+  now: Date = new Date()
+): number {
+  return dateToEpoch(now, network);
+}
+
+export const formatEpoch = (
+  epoch: number,
+  network: CardanoNetwork = DEFAULT_NETWORK
+): string => format(epochToDate(epoch, network), "MMM d, yyyy");
+
+export const epochTimeUntil = (
+  epoch: number,
+  network: CardanoNetwork = DEFAULT_NETWORK
+): string =>
+  formatDistanceToNow(epochToDate(epoch, network), { addSuffix: true });
+
+export interface ExpiryCountdown {
+  // Actions can still be ratified during the expiry epoch, so they lapse when it ends
+  expiresAt: Date;
+  daysLeft: number;
+  epochsLeft: number;
+  isExpired: boolean;
+  isUrgent: boolean;
+}
+
+/**
+ * Countdown until a governance action's expiry epoch ends
+ */
+export function getExpiryCountdown(
+  expiryEpoch: number,
+  network: CardanoNetwork = DEFAULT_NETWORK,
+  now: Date = new Date()
+): ExpiryCountdown {
+  const expiresAt = epochToDate(expiryEpoch + 1, network);
+  const secondsLeft = (expiresAt.getTime() - now.getTime()) / 1000;
+  const isExpired = secondsLeft <= 0;
+  const epochsLeft = isExpired
+    ? 0
+    : expiryEpoch - getCurrentEpoch(network, now) + 1;
+
+  return {
+    expiresAt,
+    daysLeft: isExpired ? 0 : Math.ceil(secondsLeft / SECONDS_PER_DAY),
+    epochsLeft,
+    isExpired,
+    isUrgent: !isExpired && epochsLeft <= EXPIRY_URGENCY_EPOCHS,
+  };
+}
+
+/**
+ * Human readable countdown, e.g. "expires in 6 days / 2 epochs"
+ */
+export function formatExpiryCountdown(countdown: ExpiryCountdown): string {
+  if (countdown.isExpired) return "expired";
+
+  const days = `${countdown.daysLeft} ${countdown.daysLeft === 1 ? "day" : "days"}`;
+  const epochs = `${countdown.epochsLeft} ${countdown.epochsLeft === 1 ? "epoch" : "epochs"}`;
+  return `expires in ${days} / ${epochs}`;
+}
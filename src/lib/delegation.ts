@@ -0,0 +1,72 @@
+/**
+ * Vote delegation helpers
+ * Maps delegation targets to Mesh certificate input and display labels
+ */
+
+import { core, type DRep } from "@meshsdk/core";
+import type { VoteDelegationTarget } from "@/types/governance";
+
+export type VoteDelegationType = VoteDelegationTarget["type"];
+
+export const VOTE_DELEGATION_LABELS: Record<VoteDelegationType, string> = {
+  drep: "DRep",
+  abstain: "Always Abstain",
+  no_confidence: "Always No Confidence",
+};
+
+/**
+ * Normalize a CIP-105 or CIP-129 DRep ID to its CIP-105 form
+ * @returns null when the input is not a valid DRep ID
+ */
+export function normalizeDRepId(drepId: string): string | null {
+  const trimmed = drepId.trim();
+  // Cheap shape check first, getDRepIds logs on malformed input
+  if (!/^drep(_script)?1[02-9ac-hj-np-z]+$/.test(trimmed)) return null;
+  try {
+    return core.getDRepIds(trimmed).cip105;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Mesh certificate input for a delegation target
+ */
+export function toMeshDRep(target: VoteDelegationTarget): DRep {
+  switch (target.type) {
+    case "drep":
+      return { dRepId: target.drepId };
+    case "abstain":
+      return { alwaysAbstain: null };
+    case "no_confidence":
+      return { alwaysNoConfidence: null };
+  }
+}
+
+/**
+ * Whether two delegation targets point at the same DRep or option
+ * DRep IDs are compared in CIP-105 form so either encoding matches
+ */
+export function isSameDelegation(
+  a: VoteDelegationTarget | null,
+  b: VoteDelegationTarget | null
+): boolean {
+  if (!a || !b || a.type !== b.type) return false;
+  if (a.type !== "drep" || b.type !== "drep") return true;
+  return (
+    (normalizeDRepId(a.drepId) ?? a.drepId) ===
+    (normalizeDRepId(b.drepId) ?? b.drepId)
+  );
+}
+
+/**
+ * Short display label for a delegation target
+ */
+export function formatDelegationTarget(target: VoteDelegationTarget): string {
+  if (target.type !== "drep") return VOTE_DELEGATION_LABELS[target.type];
+  if (target.drepName) return target.drepName;
+  const { drepId } = target;
+  return drepId.length > 20
+    ? `${drepId.slice(0, 12)}...${drepId.slice(-6)}`
+    : drepId;
+}
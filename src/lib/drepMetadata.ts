@@ -0,0 +1,264 @@
+/**
+ * CIP-119 DRep metadata documents
+ * Builds and validates CIP-100 JSON-LD documents with a CIP-119 body
+ */
+
+export const DREP_GIVEN_NAME_MAX_LENGTH = 80;
+export const DREP_STATEMENT_MAX_LENGTH = 1000;
+
+export const DREP_REFERENCE_TYPES = ["Link", "Identity", "Other"] as const;
+
+export type DRepReferenceType = (typeof DREP_REFERENCE_TYPES)[number];
+
+export interface DRepReference {
+  "@type": DRepReferenceType;
+  label: string;
+  uri: string;
+}
+
+export interface DRepMetadataBody {
+  givenName: string;
+  objectives?: string;
+  motivations?: string;
+  qualifications?: string;
+  paymentAddress?: string;
+  references?: DRepReference[];
+}
+
+export interface DRepMetadataDocument {
+  "@context": typeof CIP119_CONTEXT;
+  authors: { name: string }[];
+  hashAlgorithm: "blake2b-256";
+  body: DRepMetadataBody;
+}
+
+/**
+ * Form input for the DRep metadata editor
+ */
+export interface DRepMetadataInput {
+  givenName: string;
+  objectives: string;
+  motivations: string;
+  qualifications: string;
+  paymentAddress: string;
+  references: DRepReference[];
+}
+
+// Long-form statements share the same CIP-119 length limit
+export const DREP_STATEMENT_FIELDS = [
+  "objectives",
+  "motivations",
+  "qualifications",
+] as const;
+
+/**
+ * JSON-LD context from the CIP-119 specification
+ */
+export const CIP119_CONTEXT = {
+  "@language": "en-us",
+  CIP100:
+    "https://github.com/cardano-foundation/CIPs/blob/master/CIP-0100/README.md#",
+  CIP119:
+    "https://github.com/cardano-foundation/CIPs/blob/master/CIP-0119/README.md#",
+  hashAlgorithm: "CIP100:hashAlgorithm",
+  body: {
+    "@id": "CIP119:body",
+    "@context": {
+      references: {
+        "@id": "CIP119:references",
+        "@container": "@set",
+        "@context": {
+          GovernanceMetadata: "CIP100:GovernanceMetadataReference",
+          Identity: "CIP119:IdentityReference",
+          Link: "CIP119:LinkReference",
+          Other: "CIP100:OtherReference",
+          label: "CIP100:reference-label",
+          uri: "CIP100:reference-uri",
+        },
+      },
+      paymentAddress: "CIP119:paymentAddress",
+      givenName: "CIP119:givenName",
+      image: {
+        "@id": "CIP119:image",
+        "@context": {
+          ImageObject: "https://schema.org/ImageObject",
+        },
+      },
+      objectives: "CIP119:objectives",
+      motivations: "CIP119:motivations",
+      qualifications: "CIP119:qualifications",
+      doNotList: "CIP119:doNotList",
+    },
+  },
+  authors: {
+    "@id": "CIP100:authors",
+    "@container": "@set",
+    "@context": {
+      name: "http://xmlns.com/foaf/0.1/name",
+      witness: {
+        "@id": "CIP100:witness",
+        "@context": {
+          witnessAlgorithm: "CIP100:witnessAlgorithm",
+          publicKey: "CIP100:publicKey",
+          signature: "CIP100:signature",
+        },
+      },
+    },
+  },
+} as const;
+
+/**
+ * Build a CIP-119 document from editor input
+ * Empty optional fields are omitted from the body
+ */
+export function buildDRepMetadata(
+  input: DRepMetadataInput
+): DRepMetadataDocument {
+  const body: DRepMetadataBody = { givenName: input.givenName.trim() };
+
+  for (const field of DREP_STATEMENT_FIELDS) {
+    if (input[field].trim()) {
+      body[field] = input[field].trim();
+    }
+  }
+  if (input.paymentAddress.trim()) {
+    body.paymentAddress = input.paymentAddress.trim();
+  }
+
+  const references = input.references
+    .map((ref) => ({ ...ref, label: ref.label.trim(), uri: ref.uri.trim() }))
+    .filter((ref) => ref.label || ref.uri);
+  if (references.length > 0) {
+    body.references = references;
+  }
+
+  return {
+    "@context": CIP119_CONTEXT,
+    authors: [],
+    hashAlgorithm: "blake2b-256",
+    body,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isReferenceType(value: unknown): value is DRepReferenceType {
+  return DREP_REFERENCE_TYPES.includes(value as DRepReferenceType);
+}
+
+/**
+ * Validate a DRep metadata document against the CIP-119 schema rules
+ * Accepts untrusted input so it can run on the API route as well
+ * @returns list of validation errors, empty when the document is valid
+ */
+export function validateDRepMetadata(document: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isRecord(document)) {
+    return ["DRep metadata must be a JSON object"];
+  }
+  if (!isRecord(document["@context"])) {
+    errors.push("@context is required");
+  }
+  if (document.hashAlgorithm !== "blake2b-256") {
+    errors.push('hashAlgorithm must be "blake2b-256"');
+  }
+
+  const body = document.body;
+  if (!isRecord(body)) {
+    errors.push("body is required");
+    return errors;
+  }
+
+  if (typeof body.givenName !== "string" || !body.givenName.trim()) {
+    errors.push("Name is required");
+  } else if (body.givenName.length > DREP_GIVEN_NAME_MAX_LENGTH) {
+    errors.push(
+      `Name must be at most ${DREP_GIVEN_NAME_MAX_LENGTH} characters`
+    );
+  }
+
+  for (const field of DREP_STATEMENT_FIELDS) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (typeof value !== "string") {
+      errors.push(`${field} must be a string`);
+    } else if (value.length > DREP_STATEMENT_MAX_LENGTH) {
+      errors.push(
+        `${field} must be at most ${DREP_STATEMENT_MAX_LENGTH} characters`
+      );
+    }
+  }
+
+  if (
+    body.paymentAddress !== undefined &&
+    (typeof body.paymentAddress !== "string" ||
+      !/^addr(_test)?1[0-9a-z]+$/.test(body.paymentAddress))
+  ) {
+    errors.push("Payment address must be a bech32 Cardano address");
+  }
+
+  if (body.references !== undefined) {
+    if (!Array.isArray(body.references)) {
+      errors.push("references must be an array");
+    } else {
+      body.references.forEach((ref: unknown, index) => {
+        const position = index + 1;
+        if (!isRecord(ref)) {
+          errors.push(`Reference ${position} must be an object`);
+          return;
+        }
+        if (!isReferenceType(ref["@type"])) {
+          errors.push(`Reference ${position} has an invalid type`);
+        }
+        if (typeof ref.label !== "string" || !ref.label.trim()) {
+          errors.push(`Reference ${position} needs a label`);
+        }
+        if (typeof ref.uri !== "string" || !ref.uri.trim()) {
+          errors.push(`Reference ${position} needs a URI`);
+        }
+      });
+    }
+  }
+
+  return errors;
+}
+
+function readText(value: unknown): string {
+  // Some tools wrap JSON-LD strings as { "@value": "..." }
+  if (isRecord(value) && typeof value["@value"] === "string") {
+    return value["@value"];
+  }
+  return typeof value === "string" ? value : "";
+}
+
+/**
+ * Read editor input back from a published CIP-119 document
+ * Used to prefill the form when updating existing metadata
+ * @returns null when the document has no CIP-119 body
+ */
+export function toDRepMetadataInput(
+  document: unknown
+): DRepMetadataInput | null {
+  if (!isRecord(document) || !isRecord(document.body)) return null;
+  const body = document.body;
+
+  const references = Array.isArray(body.references)
+    ? body.references.filter(isRecord).map((ref) => ({
+        "@type": isReferenceType(ref["@type"]) ? ref["@type"] : "Other",
+        label: readText(ref.label),
+        uri: readText(ref.uri),
+      }))
+    : [];
+
+  return {
+    givenName: readText(body.givenName),
+    objectives: readText(body.objectives),
+    motivations: readText(body.motivations),
+    qualifications: readText(body.qualifications),
+    paymentAddress: readText(body.paymentAddress),
+    references,
+  };
+}
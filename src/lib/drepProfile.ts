@@ -0,0 +1,77 @@
+/**
+ * DRep voting statistics
+ * Participation, rationale share and agreement with outcomes, derived from a
+ * DRep's vote history
+ */
+
+import type { DRepProfile, DRepVoteRecord } from "@/types/governance";
+
+export interface DRepVotingStats {
+  votedActionCount: number; // Distinct actions voted on
+  participationRate: number | null; // Percent of eligible actions
+  rationaleShare: number | null; // Percent of votes with a rationale anchor
+  outcomeAgreement: number | null; // Percent of decided votes matching outcomes
+  decidedVoteCount: number; // Yes/No votes on actions that are no longer open
+}
+
+function toPercent(count: number, total: number): number | null {
+  return total > 0 ? (count / total) * 100 : null;
+}
+
+/**
+ * Keep the latest vote per action, since a later vote replaces earlier ones
+ * Expects votes latest first, as returned by the API
+ */
+export function getEffectiveVotes(votes: DRepVoteRecord[]): DRepVoteRecord[] {
+  const seen = new Set<string>();
+  return votes.filter((vote) => {
+    if (seen.has(vote.actionId)) return false;
+    seen.add(vote.actionId);
+    return true;
+  });
+}
+
+/**
+ * Whether a vote matched the final outcome of its action
+ * @returns null for abstentions and actions still open for voting
+ */
+export function isVoteWithOutcome(vote: DRepVoteRecord): boolean | null {
+  if (vote.vote === "Abstain") return null;
+  switch (vote.actionStatus) {
+    case "Ratified":
+    case "Enacted":
+      return vote.vote === "Yes";
+    case "Expired":
+    case "Closed":
+      return vote.vote === "No";
+    default:
+      return null;
+  }
+}
+
+export function computeDRepVotingStats(profile: DRepProfile): DRepVotingStats {
+  const votes = getEffectiveVotes(profile.votes);
+  const decided = votes
+    .map(isVoteWithOutcome)
+    .filter((agreed): agreed is boolean => agreed !== null);
+
+  return {
+    votedActionCount: votes.length,
+    participationRate:
+      profile.eligibleActionCount === null
+        ? null
+        : toPercent(
+            votes.length,
+            Math.max(profile.eligibleActionCount, votes.length)
+          ),
+    rationaleShare: toPercent(
+      votes.filter((vote) => Boolean(vote.anchorUrl)).length,
+      votes.length
+    ),
+    outcomeAgreement: toPercent(
+      decided.filter(Boolean).length,
+      decided.length
+    ),
+    decidedVoteCount: decided.length,
+  };
+}
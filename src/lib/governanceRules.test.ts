@@ -0,0 +1,343 @@
+import { describe, expect, it } from "vitest";
+import {
+  BOOTSTRAP_EXCEPTIONS,
+  CC_THRESHOLD,
+  DREP_THRESHOLDS,
+  PARAMETER_GROUP_THRESHOLDS,
+  SPO_THRESHOLDS,
+  getActionTypeRules,
+  getGovernanceActionRules,
+  getRatificationStatus,
+  getThresholdPercent,
+  isVoterBodyApplicable,
+  parseProposalHash,
+} from "./governanceRules";
+import type {
+  GovernanceAction,
+  GovernanceActionKind,
+  ProtocolParamGroup,
+  VoterType,
+} from "@/types/governance";
+
+function makeAction(
+  overrides: Partial<GovernanceAction> = {}
+): GovernanceAction {
+  return {
+    hash: "a".repeat(64) + ":0",
+    title: "Test action",
+    type: "Info Action",
+    status: "Active",
+    constitutionality: "Constitutional",
+    drepYesPercent: 0,
+    drepNoPercent: 0,
+    drepYesAda: "0",
+    drepNoAda: "0",
+    totalYes: 0,
+    totalNo: 0,
+    totalAbstain: 0,
+    submissionEpoch: 500,
+    expiryEpoch: 506,
+    ...overrides,
+  };
+}
+
+const ACTION_KIND_RULES: {
+  type: GovernanceActionKind;
+  voterBodies: VoterType[];
+  thresholds: Record<VoterType, number | null>;
+  isRatifiable: boolean;
+}[] = [
+  {
+    type: "No Confidence",
+    voterBodies: ["DRep", "SPO"],
+    thresholds: {
+      DRep: DREP_THRESHOLDS.motionNoConfidence,
+      SPO: SPO_THRESHOLDS.motionNoConfidence,
+      CC: null,
+    },
+    isRatifiable: true,
+  },
+  {
+    type: "Update Committee",
+    voterBodies: ["DRep", "SPO"],
+    thresholds: {
+      DRep: DREP_THRESHOLDS.committeeNormal,
+      SPO: SPO_THRESHOLDS.committeeNormal,
+      CC: null,
+    },
+    isRatifiable: true,
+  },
+  {
+    type: "New Constitution",
+    voterBodies: ["DRep", "CC"],
+    thresholds: {
+      DRep: DREP_THRESHOLDS.updateToConstitution,
+      SPO: null,
+      CC: CC_THRESHOLD,
+    },
+    isRatifiable: true,
+  },
+  {
+    type: "Hard Fork Initiation",
+    voterBodies: ["DRep", "SPO", "CC"],
+    thresholds: {
+      DRep: DREP_THRESHOLDS.hardForkInitiation,
+      SPO: SPO_THRESHOLDS.hardForkInitiation,
+      CC: CC_THRESHOLD,
+    },
+    isRatifiable: true,
+  },
+  {
+    type: "Protocol Parameter Change",
+    voterBodies: ["DRep", "CC"],
+    thresholds: {
+      DRep: DREP_THRESHOLDS.ppGovGroup,
+      SPO: null,
+      CC: CC_THRESHOLD,
+    },
+    isRatifiable: true,
+  },
+  {
+    type: "Treasury Withdrawals",
+    voterBodies: ["DRep", "CC"],
+    thresholds: {
+      DRep: DREP_THRESHOLDS.treasuryWithdrawal,
+      SPO: null,
+      CC: CC_THRESHOLD,
+    },
+    isRatifiable: true,
+  },
+  {
+    type: "Info Action",
+    voterBodies: ["DRep", "SPO", "CC"],
+    thresholds: { DRep: 1, SPO: 1, CC: CC_THRESHOLD },
+    isRatifiable: false,
+  },
+];
+
+describe("getActionTypeRules", () => {
+  it.each(ACTION_KIND_RULES)(
+    "resolves voter bodies and thresholds for $type",
+    ({ type, voterBodies, thresholds, isRatifiable }) => {
+      const rules = getActionTypeRules(type);
+      expect(rules.voterBodies).toEqual(voterBodies);
+      expect(rules.thresholds).toEqual(thresholds);
+      expect(rules.isRatifiable).toBe(isRatifiable);
+      expect(rules.isBootstrapException).toBe(false);
+    }
+  );
+
+  it("lets every body vote on unknown action types", () => {
+    const rules = getActionTypeRules("Something New");
+    expect(rules.voterBodies).toEqual(["DRep", "SPO", "CC"]);
+    expect(rules.thresholds).toEqual({ DRep: null, SPO: null, CC: null });
+  });
+
+  it("only sets parameter groups for protocol parameter changes", () => {
+    expect(getActionTypeRules("Treasury Withdrawals").parameterGroups).toBe(
+      undefined
+    );
+    expect(
+      getActionTypeRules("Protocol Parameter Change").parameterGroups
+    ).toBeDefined();
+  });
+});
+
+describe("protocol parameter groups", () => {
+  const DREP_GROUPS: {
+    group: ProtocolParamGroup;
+    threshold: number;
+  }[] = [
+    { group: "network", threshold: DREP_THRESHOLDS.ppNetworkGroup },
+    { group: "economic", threshold: DREP_THRESHOLDS.ppEconomicGroup },
+    { group: "technical", threshold: DREP_THRESHOLDS.ppTechnicalGroup },
+    { group: "governance", threshold: DREP_THRESHOLDS.ppGovGroup },
+  ];
+
+  it.each(DREP_GROUPS)(
+    "requires DReps and CC but not SPOs for the $group group",
+    ({ group, threshold }) => {
+      const rules = getActionTypeRules("Protocol Parameter Change", [group]);
+      expect(rules.voterBodies).toEqual(["DRep", "CC"]);
+      expect(rules.thresholds).toEqual({
+        DRep: threshold,
+        SPO: null,
+        CC: CC_THRESHOLD,
+      });
+      expect(rules.parameterGroups).toEqual([
+        PARAMETER_GROUP_THRESHOLDS[group],
+      ]);
+    }
+  );
+
+  it("requires DReps and SPOs for the security group alone", () => {
+    const rules = getActionTypeRules("Protocol Parameter Change", [
+      "security",
+    ]);
+    expect(rules.voterBodies).toEqual(["DRep", "SPO", "CC"]);
+    expect(rules.thresholds).toEqual({
+      DRep: Math.max(
+        DREP_THRESHOLDS.ppNetworkGroup,
+        DREP_THRESHOLDS.ppEconomicGroup,
+        DREP_THRESHOLDS.ppTechnicalGroup
+      ),
+      SPO: SPO_THRESHOLDS.ppSecurityGroup,
+      CC: CC_THRESHOLD,
+    });
+  });
+
+  it("adds SPOs when a security parameter is changed with its group", () => {
+    const rules = getActionTypeRules("Protocol Parameter Change", [
+      "economic",
+      "security",
+    ]);
+    expect(rules.voterBodies).toEqual(["DRep", "SPO", "CC"]);
+    expect(rules.thresholds.DRep).toBe(DREP_THRESHOLDS.ppEconomicGroup);
+    expect(rules.thresholds.SPO).toBe(SPO_THRESHOLDS.ppSecurityGroup);
+  });
+
+  it("uses the highest threshold of all affected groups", () => {
+    const rules = getActionTypeRules("Protocol Parameter Change", [
+      "network",
+      "governance",
+    ]);
+    expect(rules.thresholds.DRep).toBe(DREP_THRESHOLDS.ppGovGroup);
+    expect(rules.parameterGroups?.map((g) => g.group)).toEqual([
+      "network",
+      "governance",
+    ]);
+  });
+
+  it("assumes every DRep group when the changed groups are unknown", () => {
+    const rules = getActionTypeRules("Protocol Parameter Change", []);
+    expect(rules.parameterGroups?.map((g) => g.group)).toEqual([
+      "network",
+      "economic",
+      "technical",
+      "governance",
+    ]);
+    expect(rules.thresholds.DRep).toBe(DREP_THRESHOLDS.ppGovGroup);
+    expect(rules.thresholds.SPO).toBe(null);
+  });
+});
+
+describe("bootstrap exceptions", () => {
+  it.each(BOOTSTRAP_EXCEPTIONS)(
+    "overrides the voter bodies of $actionId",
+    ({ actionId, voterBodies }) => {
+      const action = makeAction({
+        hash: actionId,
+        type: "Hard Fork Initiation",
+      });
+      const rules = getGovernanceActionRules(action);
+      expect(rules.voterBodies).toEqual(voterBodies);
+      expect(rules.isBootstrapException).toBe(true);
+    }
+  );
+
+  it("matches exceptions by proposal ID as well as routing hash", () => {
+    const [exception] = BOOTSTRAP_EXCEPTIONS;
+    const action = makeAction({ proposalId: exception.actionId });
+    expect(getGovernanceActionRules(action).voterBodies).toEqual(
+      exception.voterBodies
+    );
+  });
+
+  it("leaves DReps out of bootstrap actions", () => {
+    for (const { actionId } of BOOTSTRAP_EXCEPTIONS) {
+      const action = makeAction({ hash: actionId, type: "Info Action" });
+      expect(isVoterBodyApplicable(action, "DRep")).toBe(false);
+      expect(getThresholdPercent(action, "DRep")).toBe(undefined);
+    }
+  });
+
+  it("applies type-based rules to other actions", () => {
+    const rules = getGovernanceActionRules(
+      makeAction({ type: "Hard Fork Initiation" })
+    );
+    expect(rules.voterBodies).toEqual(["DRep", "SPO", "CC"]);
+    expect(rules.isBootstrapException).toBe(false);
+  });
+});
+
+describe("getRatificationStatus", () => {
+  it("would ratify when every body clears its threshold", () => {
+    const status = getRatificationStatus(
+      makeAction({
+        type: "Treasury Withdrawals",
+        drepYesPercent: 70,
+        ccYesPercent: 80,
+      })
+    );
+    expect(status.bodies.map((b) => b.body)).toEqual(["DRep", "CC"]);
+    expect(status.bodies.every((b) => b.meetsThreshold)).toBe(true);
+    expect(status.wouldRatify).toBe(true);
+  });
+
+  it("does not ratify when one body is below its threshold", () => {
+    const status = getRatificationStatus(
+      makeAction({
+        type: "Hard Fork Initiation",
+        drepYesPercent: 90,
+        spoYesPercent: 40,
+        ccYesPercent: 100,
+      })
+    );
+    const spo = status.bodies.find((b) => b.body === "SPO");
+    expect(spo?.meetsThreshold).toBe(false);
+    expect(status.wouldRatify).toBe(false);
+  });
+
+  it("never ratifies info actions", () => {
+    const status = getRatificationStatus(
+      makeAction({
+        type: "Info Action",
+        drepYesPercent: 100,
+        spoYesPercent: 100,
+        ccYesPercent: 100,
+      })
+    );
+    expect(status.isRatifiable).toBe(false);
+    expect(status.wouldRatify).toBe(false);
+  });
+
+  it("needs SPOs on a security-only parameter change", () => {
+    const action = makeAction({
+      type: "Protocol Parameter Change",
+      protocolParamGroups: ["security"],
+      drepYesPercent: 80,
+      ccYesPercent: 80,
+      spoYesPercent: 10,
+    });
+    const status = getRatificationStatus(action);
+    expect(status.bodies.map((b) => b.body)).toEqual(["DRep", "SPO", "CC"]);
+    expect(status.wouldRatify).toBe(false);
+  });
+
+  it("only counts the bodies left by a bootstrap exception", () => {
+    const [exception] = BOOTSTRAP_EXCEPTIONS;
+    const status = getRatificationStatus(
+      makeAction({
+        hash: exception.actionId,
+        type: "Treasury Withdrawals",
+        drepYesPercent: 0,
+        ccYesPercent: 100,
+      })
+    );
+    expect(status.bodies.map((b) => b.body)).toEqual(["CC"]);
+    expect(status.wouldRatify).toBe(true);
+  });
+});
+
+describe("parseProposalHash", () => {
+  it("accepts colon and hash separators", () => {
+    const txHash = "b".repeat(64);
+    expect(parseProposalHash(`${txHash}:2`)).toEqual({ txHash, certIndex: 2 });
+    expect(parseProposalHash(`${txHash}#0`)).toEqual({ txHash, certIndex: 0 });
+  });
+
+  it("rejects hashes without an index", () => {
+    expect(parseProposalHash("")).toBe(null);
+    expect(parseProposalHash("b".repeat(64))).toBe(null);
+  });
+});
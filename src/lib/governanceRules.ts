@@ -0,0 +1,393 @@
+/**
+ * Governance action rules
+ * Single source for which voter bodies vote on an action and the
+ * ratification thresholds they need, following the Conway ledger rules
+ */
+
+import type {
+  GovernanceAction,
+  GovernanceActionKind,
+  ProtocolParamGroup,
+  VoterType,
+} from "@/types/governance";
+
+export interface ParameterGroupThreshold {
+  group: ProtocolParamGroup;
+  drep: number | null;
+  spo: number | null;
+}
+
+export interface GovernanceActionRules {
+  voterBodies: VoterType[];
+  // Yes fraction needed (stake for DRep/SPO, members for CC), null if not voting
+  thresholds: Record<VoterType, number | null>;
+  // Per-group thresholds, only set for protocol parameter changes
+  parameterGroups?: ParameterGroupThreshold[];
+  isRatifiable: boolean; // Info actions can be voted on but never ratified
+  isBootstrapException: boolean;
+}
+
+/**
+ * Actions from the bootstrap era whose voter bodies differ from the type-based rules
+ * DReps could not vote during bootstrap, and some early actions predate SPO voting
+ */
+export const BOOTSTRAP_EXCEPTIONS: {
+  actionId: string;
+  voterBodies: VoterType[];
+}[] = [
+  {
+    actionId:
+      "gov_action1k2jertppnnndejjcglszfqq4yzw8evzrd2nt66rr6rqlz54xp0zsq05ecsn",
+    voterBodies: ["CC"],
+  },
+  {
+    actionId:
+      "gov_action1286ft23r7jem825s4l0y5rn8sgam0tz2ce04l7a38qmnhp3l9a6qqn850dw",
+    voterBodies: ["CC"],
+  },
+  {
+    // Hard Fork - DRep not applicable
+    actionId:
+      "gov_action1pvv5wmjqhwa4u85vu9f4ydmzu2mgt8n7et967ph2urhx53r70xusqnmm525",
+    voterBodies: ["SPO", "CC"],
+  },
+];
+
+/**
+ * Mainnet DRep voting thresholds (dRepVotingThresholds)
+ */
+export const DREP_THRESHOLDS = {
+  motionNoConfidence: 0.67,
+  committeeNormal: 0.67,
+  committeeNoConfidence: 0.6,
+  updateToConstitution: 0.75,
+  hardForkInitiation: 0.6,
+  ppNetworkGroup: 0.67,
+  ppEconomicGroup: 0.67,
+  ppTechnicalGroup: 0.67,
+  ppGovGroup: 0.75,
+  treasuryWithdrawal: 0.67,
+} as const;
+
+/**
+ * Mainnet SPO voting thresholds (poolVotingThresholds)
+ */
+export const SPO_THRESHOLDS = {
+  motionNoConfidence: 0.51,
+  committeeNormal: 0.51,
+  committeeNoConfidence: 0.51,
+  hardForkInitiation: 0.51,
+  ppSecurityGroup: 0.51,
+} as const;
+
+/**
+ * Constitutional Committee quorum (committee threshold)
+ */
+export const CC_THRESHOLD = 0.67;
+
+/**
+ * Thresholds for each protocol parameter group
+ * The security group is not a separate DRep group, it only brings in SPOs;
+ * DReps still vote on security parameters through their regular group
+ */
+export const PARAMETER_GROUP_THRESHOLDS: Record<
+  ProtocolParamGroup,
+  ParameterGroupThreshold
+> = {
+  network: {
+    group: "network",
+    drep: DREP_THRESHOLDS.ppNetworkGroup,
+    spo: null,
+  },
+  economic: {
+    group: "economic",
+    drep: DREP_THRESHOLDS.ppEconomicGroup,
+    spo: null,
+  },
+  technical: {
+    group: "technical",
+    drep: DREP_THRESHOLDS.ppTechnicalGroup,
+    spo: null,
+  },
+  governance: {
+    group: "governance",
+    drep: DREP_THRESHOLDS.ppGovGroup,
+    spo: null,
+  },
+  security: {
+    group: "security",
+    drep: null,
+    spo: SPO_THRESHOLDS.ppSecurityGroup,
+  },
+};
+
+/**
+ * Thresholds by action type
+ * Update Committee uses the normal-state thresholds; see committeeNoConfidence
+ * for the values that apply while the committee is in a state of no confidence
+ */
+export const VOTING_THRESHOLDS: Record<
+  GovernanceActionKind,
+  Record<VoterType, number | null>
+> = {
+  "No Confidence": {
+    DRep: DREP_THRESHOLDS.motionNoConfidence,
+    SPO: SPO_THRESHOLDS.motionNoConfidence,
+    CC: null,
+  },
+  "Update Committee": {
+    DRep: DREP_THRESHOLDS.committeeNormal,
+    SPO: SPO_THRESHOLDS.committeeNormal,
+    CC: null,
+  },
+  "New Constitution": {
+    DRep: DREP_THRESHOLDS.updateToConstitution,
+    SPO: null,
+    CC: CC_THRESHOLD,
+  },
+  "Hard Fork Initiation": {
+    DRep: DREP_THRESHOLDS.hardForkInitiation,
+    SPO: SPO_THRESHOLDS.hardForkInitiation,
+    CC: CC_THRESHOLD,
+  },
+  "Protocol Parameter Change": {
+    DRep: DREP_THRESHOLDS.ppGovGroup,
+    SPO: null,
+    CC: CC_THRESHOLD,
+  },
+  "Treasury Withdrawals": {
+    DRep: DREP_THRESHOLDS.treasuryWithdrawal,
+    SPO: null,
+    CC: CC_THRESHOLD,
+  },
+  // Info actions need 100% and can never be ratified
+  "Info Action": {
+    DRep: 1,
+    SPO: 1,
+    CC: CC_THRESHOLD,
+  },
+};
+
+const VOTER_BODIES: VoterType[] = ["DRep", "SPO", "CC"];
+
+// DRep groups that security-relevant parameters belong to
+const SECURITY_PARAMETER_DREP_GROUPS: ProtocolParamGroup[] = [
+  "network",
+  "economic",
+  "technical",
+];
+
+/**
+ * Parse proposal hash to extract txHash and certIndex
+ * Accepts the API "txHash:certIndex" format and "txHash#certIndex"
+ */
+export function parseProposalHash(
+  hash: string
+): { txHash: string; certIndex: number } | null {
+  if (!hash) return null;
+
+  for (const separator of [":", "#"]) {
+    if (hash.includes(separator)) {
+      const [txHash, certIndexStr] = hash.split(separator);
+      const certIndex = parseInt(certIndexStr, 10);
+      if (txHash && !isNaN(certIndex)) {
+        return { txHash, certIndex };
+      }
+    }
+  }
+
+  return null;
+}
+
+function findBootstrapException(action: GovernanceAction) {
+  const ids = [action.hash, action.proposalId].filter(Boolean) as string[];
+  return BOOTSTRAP_EXCEPTIONS.find((exception) =>
+    ids.some(
+      (id) => id === exception.actionId || id.includes(exception.actionId)
+    )
+  );
+}
+
+function isKnownActionType(type: string): type is GovernanceActionKind {
+  return type in VOTING_THRESHOLDS;
+}
+
+/**
+ * Per-group thresholds for a protocol parameter change
+ * When the changed groups are unknown, all DRep groups are assumed
+ */
+function getParameterGroupRules(groups: ProtocolParamGroup[] | undefined): {
+  parameterGroups: ParameterGroupThreshold[];
+  drep: number | null;
+  spo: number | null;
+} {
+  const affected: ProtocolParamGroup[] =
+    groups && groups.length > 0
+      ? groups
+      : ["network", "economic", "technical", "governance"];
+  const parameterGroups = affected.map(
+    (group) => PARAMETER_GROUP_THRESHOLDS[group]
+  );
+
+  // The action must clear the threshold of every affected group
+  let drepValues = parameterGroups
+    .map((g) => g.drep)
+    .filter((v): v is number => v !== null);
+  // Every parameter also sits in a DRep group, so a security-only change
+  // still needs DReps at the highest group they could fall under
+  if (drepValues.length === 0) {
+    drepValues = SECURITY_PARAMETER_DREP_GROUPS.map(
+      (group) => PARAMETER_GROUP_THRESHOLDS[group].drep as number
+    );
+  }
+  const spoValues = parameterGroups
+    .map((g) => g.spo)
+    .filter((v): v is number => v !== null);
+
+  return {
+    parameterGroups,
+    drep: drepValues.length > 0 ? Math.max(...drepValues) : null,
+    spo: spoValues.length > 0 ? Math.max(...spoValues) : null,
+  };
+}
+
+/**
+ * Type-based voter bodies and thresholds for an action type
+ * Used for actions that are not on-chain yet, so no bootstrap exceptions apply
+ */
+export function getActionTypeRules(
+  type: string,
+  protocolParamGroups?: ProtocolParamGroup[]
+): GovernanceActionRules {
+  let thresholds: Record<VoterType, number | null> = isKnownActionType(type)
+    ? { ...VOTING_THRESHOLDS[type] }
+    : { DRep: null, SPO: null, CC: null };
+  let parameterGroups: ParameterGroupThreshold[] | undefined;
+
+  if (type === "Protocol Parameter Change") {
+    const groupRules = getParameterGroupRules(protocolParamGroups);
+    parameterGroups = groupRules.parameterGroups;
+    thresholds = { ...thresholds, DRep: groupRules.drep, SPO: groupRules.spo };
+  }
+
+  // Unknown types fall back to letting every body vote
+  const voterBodies = isKnownActionType(type)
+    ? VOTER_BODIES.filter((body) => thresholds[body] !== null)
+    : VOTER_BODIES;
+
+  return {
+    voterBodies,
+    thresholds,
+    parameterGroups,
+    isRatifiable: type !== "Info Action",
+    isBootstrapException: false,
+  };
+}
+
+/**
+ * Resolve the voter bodies and ratification thresholds for a governance action
+ */
+export function getGovernanceActionRules(
+  action: GovernanceAction
+): GovernanceActionRules {
+  const rules = getActionTypeRules(action.type, action.protocolParamGroups);
+  const exception = findBootstrapException(action);
+
+  return exception
+    ? {
+        ...rules,
+        voterBodies: exception.voterBodies,
+        isBootstrapException: true,
+      }
+    : rules;
+}
+
+/**
+ * Voter bodies that vote on an action
+ */
+export function getVoterBodies(action: GovernanceAction): VoterType[] {
+  return getGovernanceActionRules(action).voterBodies;
+}
+
+/**
+ * Whether a voter body votes on an action
+ */
+export function isVoterBodyApplicable(
+  action: GovernanceAction,
+  body: VoterType
+): boolean {
+  return getVoterBodies(action).includes(body);
+}
+
+export interface BodyRatificationStatus {
+  body: VoterType;
+  yesPercent: number;
+  thresholdPercent: number;
+  meetsThreshold: boolean;
+}
+
+export interface RatificationStatus {
+  bodies: BodyRatificationStatus[];
+  parameterGroups?: ParameterGroupThreshold[];
+  isRatifiable: boolean;
+  // Whether every voting body currently clears its threshold
+  wouldRatify: boolean;
+}
+
+function getYesPercent(action: GovernanceAction, body: VoterType): number {
+  switch (body) {
+    case "DRep":
+      return action.drepYesPercent ?? 0;
+    case "SPO":
+      return action.spoYesPercent ?? 0;
+    case "CC":
+      return action.ccYesPercent ?? 0;
+  }
+}
+
+/**
+ * Compare current yes percentages against each body's threshold
+ * Reflects whether the action would ratify if the epoch ended now
+ */
+export function getRatificationStatus(
+  action: GovernanceAction
+): RatificationStatus {
+  const rules = getGovernanceActionRules(action);
+
+  const bodies = rules.voterBodies
+    .filter((body) => rules.thresholds[body] !== null)
+    .map((body) => {
+      const yesPercent = getYesPercent(action, body);
+      const thresholdPercent = (rules.thresholds[body] as number) * 100;
+      return {
+        body,
+        yesPercent,
+        thresholdPercent,
+        meetsThreshold: yesPercent >= thresholdPercent,
+      };
+    });
+
+  return {
+    bodies,
+    parameterGroups: rules.parameterGroups,
+    isRatifiable: rules.isRatifiable,
+    wouldRatify:
+      rules.isRatifiable &&
+      bodies.length > 0 &&
+      bodies.every((status) => status.meetsThreshold),
+  };
+}
+
+/**
+ * Threshold percentage a body needs on an action, undefined when it does not vote
+ */
+export function getThresholdPercent(
+  action: GovernanceAction,
+  body: VoterType
+): number | undefined {
+  const rules = getGovernanceActionRules(action);
+  const threshold = rules.thresholds[body];
+  return rules.voterBodies.includes(body) && threshold !== null
+    ? threshold * 100
+    : undefined;
+}
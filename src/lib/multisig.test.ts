@@ -0,0 +1,116 @@
+import { beforeAll, describe, expect, it } from "vitest";
+import { MeshTxBuilder, core, resolveTxHash } from "@meshsdk/core";
+import {
+  addCosignerWitnesses,
+  getWitnessKeyHashes,
+  isNativeScriptSatisfied,
+} from "./multisig";
+
+const ADDRESS =
+  "addr_test1qpvx0sacufuypa2k4sngk7q40zc5c4npl337uusdh64kv0uafhxhu32dys6pvn6wlw8dav6cmp4pmtv7cc3yel9uu0nq93swx9";
+
+function buildTx(fee: string): string {
+  return new MeshTxBuilder()
+    .txIn(
+      "a".repeat(64),
+      0,
+      [{ unit: "lovelace", quantity: "10000000" }],
+      ADDRESS
+    )
+    .txOut(ADDRESS, [{ unit: "lovelace", quantity: "2000000" }])
+    .changeAddress(ADDRESS)
+    .setFee(fee)
+    .completeSync();
+}
+
+function makeKey(seed: number): core.Ed25519PrivateKey {
+  return core.Ed25519PrivateKey.fromNormalBytes(new Uint8Array(32).fill(seed));
+}
+
+/**
+ * Bare witness set CBOR, as returned by CIP-30 signTx
+ */
+function signWitnessSet(txHex: string, key: core.Ed25519PrivateKey): string {
+  const signature = key.sign(core.HexBlob(resolveTxHash(txHex)));
+  const witnessSet = new core.TransactionWitnessSet();
+  witnessSet.setVkeys(
+    core.CborSet.fromCore(
+      [[key.toPublic().hex(), signature.hex()]],
+      core.VkeyWitness.fromCore
+    )
+  );
+  return witnessSet.toCbor();
+}
+
+describe("addCosignerWitnesses", () => {
+  let txHex: string;
+  let signer: core.Ed25519PrivateKey;
+  let signerKeyHash: string;
+
+  beforeAll(async () => {
+    await core.Crypto.ready();
+    txHex = buildTx("200000");
+    signer = makeKey(1);
+    signerKeyHash = signer.toPublic().hash().hex();
+  });
+
+  it("attaches a valid witness from a script key", async () => {
+    const signed = await addCosignerWitnesses(
+      txHex,
+      signWitnessSet(txHex, signer),
+      [signerKeyHash]
+    );
+    expect(getWitnessKeyHashes(signed)).toEqual([signerKeyHash]);
+    expect(resolveTxHash(signed)).toBe(resolveTxHash(txHex));
+  });
+
+  it("rejects a witness set signed over another body", async () => {
+    const otherSignature = signWitnessSet(buildTx("300000"), signer);
+    await expect(
+      addCosignerWitnesses(txHex, otherSignature, [signerKeyHash])
+    ).rejects.toThrow("does not match this transaction body");
+  });
+
+  it("rejects keys that are not part of the native script", async () => {
+    await expect(
+      addCosignerWitnesses(txHex, signWitnessSet(txHex, makeKey(2)), [
+        signerKeyHash,
+      ])
+    ).rejects.toThrow("is not from a key of the native script");
+  });
+
+  it("accepts any valid key when no signers are given", async () => {
+    const signed = await addCosignerWitnesses(
+      txHex,
+      signWitnessSet(txHex, makeKey(2))
+    );
+    expect(getWitnessKeyHashes(signed)).toHaveLength(1);
+  });
+
+  it("rejects witnesses that are already attached", async () => {
+    const witnessSet = signWitnessSet(txHex, signer);
+    const signed = await addCosignerWitnesses(txHex, witnessSet);
+    await expect(addCosignerWitnesses(signed, witnessSet)).rejects.toThrow(
+      "already been added"
+    );
+  });
+});
+
+describe("isNativeScriptSatisfied", () => {
+  const a = "a".repeat(56);
+  const b = "b".repeat(56);
+  const c = "c".repeat(56);
+
+  it("counts signers against an atLeast threshold", () => {
+    const script = {
+      type: "atLeast" as const,
+      required: 2,
+      scripts: [a, b, c].map((keyHash) => ({
+        type: "sig" as const,
+        keyHash,
+      })),
+    };
+    expect(isNativeScriptSatisfied(script, new Set([a]))).toBe(false);
+    expect(isNativeScriptSatisfied(script, new Set([a, c]))).toBe(true);
+  });
+});
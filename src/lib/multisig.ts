@@ -0,0 +1,244 @@
+/**
+ * Multisig (native script) DRep helpers
+ * Resolves the script DRep credential and tracks co-signer witnesses
+ * for vote transactions that require several signatures
+ */
+
+import {
+  core,
+  resolveNativeScriptHash,
+  resolveScriptHashDRepId,
+  resolveTxHash,
+  type NativeScript,
+} from "@meshsdk/core";
+
+export interface MultisigDRep {
+  scriptCbor: string;
+  script: NativeScript;
+  scriptHash: string;
+  drepId: string;
+  signers: string[]; // Key hashes referenced by the script
+  requiredSignatures: number;
+}
+
+/**
+ * Collect all key hashes referenced by a native script
+ */
+function collectKeyHashes(script: NativeScript): string[] {
+  switch (script.type) {
+    case "sig":
+      return [script.keyHash];
+    case "all":
+    case "any":
+    case "atLeast":
+      return script.scripts.flatMap(collectKeyHashes);
+    default:
+      return [];
+  }
+}
+
+/**
+ * Minimum number of signatures needed to satisfy a native script
+ * Time locks are treated as satisfied, they only constrain the validity interval
+ */
+function countRequiredSignatures(script: NativeScript): number {
+  switch (script.type) {
+    case "sig":
+      return 1;
+    case "all":
+      return script.scripts.reduce(
+        (sum, s) => sum + countRequiredSignatures(s),
+        0
+      );
+    case "any":
+      return script.scripts.length === 0
+        ? 0
+        : Math.min(...script.scripts.map(countRequiredSignatures));
+    case "atLeast":
+      return script.scripts
+        .map(countRequiredSignatures)
+        .sort((a, b) => a - b)
+        .slice(0, script.required)
+        .reduce((sum, n) => sum + n, 0);
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Check whether a set of signer key hashes satisfies a native script
+ */
+export function isNativeScriptSatisfied(
+  script: NativeScript,
+  signerKeyHashes: Set<string>
+): boolean {
+  switch (script.type) {
+    case "sig":
+      return signerKeyHashes.has(script.keyHash);
+    case "all":
+      return script.scripts.every((s) =>
+        isNativeScriptSatisfied(s, signerKeyHashes)
+      );
+    case "any":
+      return script.scripts.some((s) =>
+        isNativeScriptSatisfied(s, signerKeyHashes)
+      );
+    case "atLeast":
+      return (
+        script.scripts.filter((s) =>
+          isNativeScriptSatisfied(s, signerKeyHashes)
+        ).length >= script.required
+      );
+    default:
+      return true;
+  }
+}
+
+/**
+ * Parse a native script CBOR hex into the script DRep it controls
+ * @throws Error if the CBOR is not a valid native script
+ */
+export function parseMultisigDRep(scriptCbor: string): MultisigDRep {
+  const trimmed = scriptCbor.trim();
+  let script: NativeScript;
+  try {
+    script = core.fromNativeScript(core.deserializeNativeScript(trimmed));
+  } catch {
+    throw new Error("Invalid native script CBOR. Please check the script hex.");
+  }
+
+  const scriptHash = resolveNativeScriptHash(script);
+  const signers = Array.from(new Set(collectKeyHashes(script)));
+
+  return {
+    scriptCbor: trimmed,
+    script,
+    scriptHash,
+    drepId: resolveScriptHashDRepId(scriptHash),
+    signers,
+    requiredSignatures: countRequiredSignatures(script),
+  };
+}
+
+/**
+ * Read a witness set from either a full transaction or a bare witness set CBOR
+ * CIP-30 wallets return the witness set only, while some tools return a full tx
+ */
+function readWitnessSet(cbor: string): {
+  witnessSet: core.TransactionWitnessSet;
+  txHash?: string;
+} {
+  const trimmed = cbor.trim();
+  try {
+    const tx = core.deserializeTx(trimmed);
+    return { witnessSet: tx.witnessSet(), txHash: resolveTxHash(trimmed) };
+  } catch {
+    try {
+      return {
+        witnessSet: core.TransactionWitnessSet.fromCbor(core.HexBlob(trimmed)),
+      };
+    } catch {
+      throw new Error(
+        "Invalid signature data. Paste a signed transaction or witness set CBOR."
+      );
+    }
+  }
+}
+
+/**
+ * Key hashes of all vkey witnesses attached to a transaction
+ */
+export function getWitnessKeyHashes(txHex: string): string[] {
+  const { witnessSet } = readWitnessSet(txHex);
+  const vkeys = witnessSet.vkeys()?.values() ?? [];
+  return vkeys.map((witness) =>
+    core.Ed25519PublicKey.fromHex(witness.vkey()).hash().hex()
+  );
+}
+
+/**
+ * Check that every vkey witness signs the given transaction body hash
+ * @throws Error naming the first key whose signature does not verify
+ */
+export async function assertVkeyWitnessSignatures(
+  vkeys: readonly core.VkeyWitness[],
+  txHash: string
+): Promise<void> {
+  // Signature checks need libsodium to be loaded
+  await core.Crypto.ready();
+  for (const witness of vkeys) {
+    const publicKey = core.Ed25519PublicKey.fromHex(witness.vkey());
+    const isValid = publicKey.verify(
+      core.Ed25519Signature.fromHex(witness.signature()),
+      core.HexBlob(txHash)
+    );
+    if (!isValid) {
+      throw new Error(
+        `The signature from key ${publicKey
+          .hash()
+          .hex()
+          .slice(0, 10)}... does not match this transaction body.`
+      );
+    }
+  }
+}
+
+/**
+ * Add the vkey witnesses from a co-signer's signature to the transaction
+ * Every signature is verified, since a bare witness set carries no body hash
+ * @param allowedKeyHashes - Keys that may sign, e.g. the native script signers
+ * @throws Error if a signature is for a different body or from another key
+ */
+export async function addCosignerWitnesses(
+  txHex: string,
+  signature: string,
+  allowedKeyHashes?: string[]
+): Promise<string> {
+  const { witnessSet, txHash } = readWitnessSet(signature);
+  const bodyHash = resolveTxHash(txHex);
+
+  if (txHash && txHash !== bodyHash) {
+    throw new Error(
+      "This signature was made for a different transaction. Ask the co-signer to sign the exported CBOR."
+    );
+  }
+
+  const vkeys = witnessSet.vkeys()?.values() ?? [];
+  if (vkeys.length === 0) {
+    throw new Error("No signatures found in the provided CBOR.");
+  }
+
+  if (allowedKeyHashes) {
+    const allowed = new Set(allowedKeyHashes);
+    for (const witness of vkeys) {
+      const keyHash = core.Ed25519PublicKey.fromHex(witness.vkey())
+        .hash()
+        .hex();
+      if (!allowed.has(keyHash)) {
+        throw new Error(
+          `The signature from key ${keyHash.slice(0, 10)}... is not from a key of the native script.`
+        );
+      }
+    }
+  }
+  await assertVkeyWitnessSignatures(vkeys, bodyHash);
+
+  // Skip witnesses that are already attached to avoid duplicates
+  const existing = new Set(getWitnessKeyHashes(txHex));
+  const newVkeys = vkeys.filter(
+    (witness) =>
+      !existing.has(core.Ed25519PublicKey.fromHex(witness.vkey()).hash().hex())
+  );
+  if (newVkeys.length === 0) {
+    throw new Error("These signatures have already been added.");
+  }
+
+  const vkeyOnly = new core.TransactionWitnessSet();
+  vkeyOnly.setVkeys(
+    core.CborSet.fromCore(
+      newVkeys.map((witness) => witness.toCore()),
+      core.VkeyWitness.fromCore
+    )
+  );
+  return core.addVKeyWitnessSetToTransaction(txHex, vkeyOnly.toCbor());
+}
@@ -0,0 +1,74 @@
+/**
+ * Cardano network selection
+ * Wallet network IDs, labels and explorer links for each supported network
+ */
+
+import type { CardanoNetwork } from "@/lib/cardanoTime";
+
+export const CARDANO_NETWORKS: CardanoNetwork[] = [
+  "mainnet",
+  "preprod",
+  "preview",
+];
+
+interface NetworkConfig {
+  label: string;
+  // CIP-30 network ID, testnets share 0
+  networkId: number;
+  explorerUrl: string;
+}
+
+export const NETWORK_CONFIG: Record<CardanoNetwork, NetworkConfig> = {
+  mainnet: {
+    label: "Mainnet",
+    networkId: 1,
+    explorerUrl: "https://adastat.net",
+  },
+  preprod: {
+    label: "Preprod",
+    networkId: 0,
+    explorerUrl: "https://preprod.adastat.net",
+  },
+  preview: {
+    label: "Preview",
+    networkId: 0,
+    explorerUrl: "https://preview.adastat.net",
+  },
+};
+
+// Request header the API proxy reads to pick the backend network
+export const NETWORK_HEADER = "X-Cardano-Network";
+
+// localStorage key for the selected network
+export const NETWORK_STORAGE_KEY = "cgov.network";
+
+export function isCardanoNetwork(value: unknown): value is CardanoNetwork {
+  return (
+    typeof value === "string" &&
+    CARDANO_NETWORKS.includes(value as CardanoNetwork)
+  );
+}
+
+/**
+ * Explorer page for a transaction on the given network
+ */
+export function getExplorerTxUrl(
+  txHash: string,
+  network: CardanoNetwork
+): string {
+  return `${NETWORK_CONFIG[network].explorerUrl}/transactions/${txHash}`;
+}
+
+/**
+ * Explain why a wallet can't sign for the selected network
+ * Preprod and preview share network ID 0, so they can't be told apart
+ * @returns null when the wallet network matches
+ */
+export function getNetworkMismatchMessage(
+  walletNetworkId: number,
+  network: CardanoNetwork
+): string | null {
+  if (walletNetworkId === NETWORK_CONFIG[network].networkId) return null;
+  const walletNetwork = walletNetworkId === 1 ? "mainnet" : "a testnet";
+  return `Your wallet is connected to ${walletNetwork}, but ${NETWORK_CONFIG[network].label} is selected. Switch your wallet network or select a matching network in the header.`;
+}
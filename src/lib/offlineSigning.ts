@@ -0,0 +1,168 @@
+/**
+ * Offline (air-gapped) signing helpers
+ * Exports unsigned transactions for cardano-cli and attaches the signatures
+ * that come back, checking each one against the original transaction body
+ */
+
+import { core, resolveTxHash } from "@meshsdk/core";
+import { addCosignerWitnesses } from "@/lib/multisig";
+
+/**
+ * cardano-cli TextEnvelope file
+ */
+export interface TextEnvelope {
+  type: string;
+  description: string;
+  cborHex: string;
+}
+
+const HEX_REGEX = /^[0-9a-fA-F]+$/;
+
+// cardano-cli wraps key witnesses as [0, vkeywitness], bootstrap ones as [1, ...]
+const KEY_WITNESS_TAG = BigInt(0);
+
+/**
+ * Wrap an unsigned transaction in a cardano-cli TextEnvelope
+ */
+export function toTextEnvelope(txHex: string): TextEnvelope {
+  return {
+    type: "Unwitnessed Tx ConwayEra",
+    description: "Ledger Cddl Format",
+    cborHex: txHex,
+  };
+}
+
+function isTextEnvelope(value: unknown): value is TextEnvelope {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as TextEnvelope).type === "string" &&
+    typeof (value as TextEnvelope).cborHex === "string"
+  );
+}
+
+/**
+ * Split uploaded signature content into CBOR items
+ * Accepts raw CBOR hex, a TextEnvelope or a JSON array of TextEnvelopes
+ * @throws Error if the content is neither hex nor TextEnvelope JSON
+ */
+export function parseSignatureContent(content: string): TextEnvelope[] {
+  const trimmed = content.trim();
+  if (!trimmed) return [];
+
+  if (trimmed.startsWith("{") || trimmed.startsWith("[")) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      throw new Error("The signature file is not valid JSON.");
+    }
+    const envelopes = Array.isArray(parsed) ? parsed : [parsed];
+    if (!envelopes.every(isTextEnvelope)) {
+      throw new Error(
+        "Expected a cardano-cli TextEnvelope with a type and cborHex."
+      );
+    }
+    return envelopes;
+  }
+
+  if (!HEX_REGEX.test(trimmed)) {
+    throw new Error(
+      "Paste a signed transaction, witness set or key witness as CBOR hex."
+    );
+  }
+  return [{ type: "", description: "", cborHex: trimmed }];
+}
+
+/**
+ * Decode a cardano-cli key witness ([0, vkeywitness])
+ */
+function readKeyWitness(cborHex: string): core.VkeyWitness {
+  const reader = new core.Serialization.CborReader(core.HexBlob(cborHex));
+  reader.readStartArray();
+  if (reader.readInt() !== KEY_WITNESS_TAG) {
+    throw new Error("Bootstrap (Byron) witnesses are not supported.");
+  }
+  return core.VkeyWitness.fromCbor(
+    core.HexBlob.fromBytes(reader.readEncodedValue())
+  );
+}
+
+function tryDeserializeTx(cborHex: string): core.Transaction | null {
+  try {
+    return core.deserializeTx(cborHex);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Vkey witnesses carried by one signature item
+ * Signed transactions must share the original body, so their hash is compared
+ */
+function readVkeyWitnesses(
+  item: TextEnvelope,
+  txHash: string
+): readonly core.VkeyWitness[] {
+  const cborHex = item.cborHex.trim();
+
+  if (item.type.startsWith("TxWitness")) {
+    return [readKeyWitness(cborHex)];
+  }
+
+  const tx = tryDeserializeTx(cborHex);
+  if (tx) {
+    if (resolveTxHash(cborHex) !== txHash) {
+      throw new Error(
+        "This signed transaction has a different body than the exported one. Sign the exported file without rebuilding it."
+      );
+    }
+    return tx.witnessSet().vkeys()?.values() ?? [];
+  }
+
+  try {
+    const witnessSet = core.TransactionWitnessSet.fromCbor(
+      core.HexBlob(cborHex)
+    );
+    return witnessSet.vkeys()?.values() ?? [];
+  } catch {
+    // Fall through to the cardano-cli key witness layout
+  }
+
+  try {
+    return [readKeyWitness(cborHex)];
+  } catch {
+    throw new Error(
+      "Unrecognized signature data. Provide a signed transaction, witness set or cardano-cli witness file."
+    );
+  }
+}
+
+/**
+ * Attach offline signatures to a transaction
+ * Every signature must verify against the transaction body hash
+ * @returns the transaction with the new vkey witnesses added
+ * @throws Error if a signature is for another body or no new signature is found
+ */
+export async function attachOfflineSignatures(
+  txHex: string,
+  content: string
+): Promise<string> {
+  const txHash = resolveTxHash(txHex);
+  const vkeys = parseSignatureContent(content).flatMap((item) =>
+    readVkeyWitnesses(item, txHash)
+  );
+  if (vkeys.length === 0) {
+    throw new Error("No signatures found in the provided data.");
+  }
+
+  const witnessSet = new core.TransactionWitnessSet();
+  witnessSet.setVkeys(
+    core.CborSet.fromCore(
+      vkeys.map((witness) => witness.toCore()),
+      core.VkeyWitness.fromCore
+    )
+  );
+  // Each signature is verified against the body hash before it is attached
+  return addCosignerWitnesses(txHex, witnessSet.toCbor());
+}
@@ -0,0 +1,411 @@
+/**
+ * Governance action proposals
+ * Turns proposal wizard input into Mesh governance actions
+ */
+
+import type {
+  GovernanceAction as MeshGovernanceAction,
+  GovernanceActionId,
+  ProtocolParamUpdate,
+  Rational,
+} from "@meshsdk/core";
+import { parseProposalHash } from "@/lib/governanceRules";
+import type {
+  GovernanceActionKind,
+  GovernancePurpose,
+  ProtocolParamGroup,
+} from "@/types/governance";
+
+/**
+ * Action types the proposal wizard can submit
+ */
+export const PROPOSAL_ACTION_TYPES = [
+  "Info Action",
+  "Treasury Withdrawals",
+  "Protocol Parameter Change",
+] as const satisfies readonly GovernanceActionKind[];
+
+export type ProposalActionType = (typeof PROPOSAL_ACTION_TYPES)[number];
+
+/**
+ * Mainnet constitution guardrails script
+ * Treasury withdrawals and parameter changes must be witnessed by it.
+ * Only a fallback, the proposal parameters carry the selected network's hash
+ */
+export const GUARDRAILS_SCRIPT_HASH =
+  "fa24fb305126805cf2164c161d852a0e7330cf988f1fe558cf7d4a64";
+
+// count: plain integer, coin: lovelace integer, rational: "numerator/denominator"
+export type ProtocolParamKind = "count" | "coin" | "rational";
+
+export interface ProtocolParamDefinition {
+  key: keyof ProtocolParamUpdate;
+  label: string;
+  kind: ProtocolParamKind;
+  groups: ProtocolParamGroup[];
+}
+
+/**
+ * Scalar protocol parameters editable in the wizard, with their Conway groups
+ * Cost models, prices, execution limits and voting thresholds are not supported
+ */
+export const PROTOCOL_PARAMETERS: ProtocolParamDefinition[] = [
+  {
+    key: "maxBlockBodySize",
+    label: "Max block body size (bytes)",
+    kind: "count",
+    groups: ["network", "security"],
+  },
+  {
+    key: "maxTxSize",
+    label: "Max transaction size (bytes)",
+    kind: "count",
+    groups: ["network", "security"],
+  },
+  {
+    key: "maxBlockHeaderSize",
+    label: "Max block header size (bytes)",
+    kind: "count",
+    groups: ["network", "security"],
+  },
+  {
+    key: "maxValueSize",
+    label: "Max value size (bytes)",
+    kind: "count",
+    groups: ["network", "security"],
+  },
+  {
+    key: "maxCollateralInputs",
+    label: "Max collateral inputs",
+    kind: "count",
+    groups: ["network"],
+  },
+  {
+    key: "minFeeA",
+    label: "Fee per byte (lovelace)",
+    kind: "coin",
+    groups: ["economic", "security"],
+  },
+  {
+    key: "minFeeB",
+    label: "Fixed fee (lovelace)",
+    kind: "coin",
+    groups: ["economic", "security"],
+  },
+  {
+    key: "keyDeposit",
+    label: "Stake key deposit (lovelace)",
+    kind: "coin",
+    groups: ["economic"],
+  },
+  {
+    key: "poolDeposit",
+    label: "Pool deposit (lovelace)",
+    kind: "coin",
+    groups: ["economic"],
+  },
+  {
+    key: "minPoolCost",
+    label: "Min pool cost (lovelace)",
+    kind: "coin",
+    groups: ["economic"],
+  },
+  {
+    key: "adaPerUtxoByte",
+    label: "UTxO cost per byte (lovelace)",
+    kind: "coin",
+    groups: ["economic", "security"],
+  },
+  {
+    key: "expansionRate",
+    label: "Monetary expansion (rho)",
+    kind: "rational",
+    groups: ["economic"],
+  },
+  {
+    key: "treasuryGrowthRate",
+    label: "Treasury cut (tau)",
+    kind: "rational",
+    groups: ["economic"],
+  },
+  {
+    key: "refScriptCostPerByte",
+    label: "Reference script cost per byte",
+    kind: "rational",
+    groups: ["economic", "security"],
+  },
+  {
+    key: "poolPledgeInfluence",
+    label: "Pool pledge influence (a0)",
+    kind: "rational",
+    groups: ["technical"],
+  },
+  {
+    key: "maxEpoch",
+    label: "Pool retirement max epoch (eMax)",
+    kind: "count",
+    groups: ["technical"],
+  },
+  {
+    key: "nOpt",
+    label: "Target number of pools (k)",
+    kind: "count",
+    groups: ["technical"],
+  },
+  {
+    key: "collateralPercentage",
+    label: "Collateral percentage",
+    kind: "count",
+    groups: ["technical"],
+  },
+  {
+    key: "minCommitteeSize",
+    label: "Min committee size",
+    kind: "count",
+    groups: ["governance"],
+  },
+  {
+    key: "committeeTermLimit",
+    label: "Committee term limit (epochs)",
+    kind: "count",
+    groups: ["governance"],
+  },
+  {
+    key: "govActionValidityPeriod",
+    label: "Governance action lifetime (epochs)",
+    kind: "count",
+    groups: ["governance"],
+  },
+  {
+    key: "govActionDeposit",
+    label: "Governance action deposit (lovelace)",
+    kind: "coin",
+    groups: ["governance", "security"],
+  },
+  {
+    key: "drepDeposit",
+    label: "DRep deposit (lovelace)",
+    kind: "coin",
+    groups: ["governance"],
+  },
+  {
+    key: "drepInactivityPeriod",
+    label: "DRep activity (epochs)",
+    kind: "count",
+    groups: ["governance"],
+  },
+];
+
+export interface TreasuryWithdrawalInput {
+  stakeAddress: string;
+  amountAda: string;
+}
+
+export interface ParameterChangeInput {
+  key: ProtocolParamDefinition["key"];
+  value: string;
+}
+
+/**
+ * Action-specific wizard input
+ */
+export interface ProposalDraft {
+  type: ProposalActionType;
+  withdrawals: TreasuryWithdrawalInput[];
+  parameterChanges: ParameterChangeInput[];
+}
+
+const STAKE_ADDRESS_REGEX = /^stake(_test)?1[0-9a-z]+$/;
+const ADA_AMOUNT_REGEX = /^\d+(\.\d{1,6})?$/;
+const COUNT_REGEX = /^\d+$/;
+const RATIONAL_REGEX = /^(\d+)\s*\/\s*(\d+)$/;
+
+function findParameter(key: string): ProtocolParamDefinition | undefined {
+  return PROTOCOL_PARAMETERS.find((param) => param.key === key);
+}
+
+/**
+ * Convert an ADA amount with up to 6 decimals to lovelace
+ * @returns null when the amount is not a valid ADA value
+ */
+export function adaToLovelace(amountAda: string): string | null {
+  const trimmed = amountAda.trim();
+  if (!ADA_AMOUNT_REGEX.test(trimmed)) return null;
+  const [whole, fraction = ""] = trimmed.split(".");
+  return (
+    BigInt(whole) * BigInt(1_000_000) + BigInt(fraction.padEnd(6, "0"))
+  ).toString();
+}
+
+function parseRational(value: string): Rational | null {
+  const match = RATIONAL_REGEX.exec(value.trim());
+  if (!match || BigInt(match[2]) === BigInt(0)) return null;
+  return { numerator: match[1], denominator: match[2] };
+}
+
+/**
+ * Purpose whose last enacted action the new action must reference
+ * Info actions and treasury withdrawals are not chained
+ */
+export function getPreviousActionPurpose(
+  type: ProposalActionType
+): GovernancePurpose | null {
+  return type === "Protocol Parameter Change" ? "protocolParameters" : null;
+}
+
+/**
+ * Parameter groups touched by the draft's parameter changes
+ */
+export function getParameterGroups(
+  changes: ParameterChangeInput[]
+): ProtocolParamGroup[] {
+  const groups = new Set<ProtocolParamGroup>();
+  for (const change of changes) {
+    findParameter(change.key)?.groups.forEach((group) => groups.add(group));
+  }
+  return Array.from(groups);
+}
+
+/**
+ * Validate the action-specific part of a proposal draft
+ * @returns list of validation errors, empty when the draft is valid
+ */
+export function validateProposalDraft(draft: ProposalDraft): string[] {
+  const errors: string[] = [];
+
+  if (draft.type === "Treasury Withdrawals") {
+    if (draft.withdrawals.length === 0) {
+      errors.push("Add at least one withdrawal");
+    }
+    const seen = new Set<string>();
+    draft.withdrawals.forEach((withdrawal, index) => {
+      const position = index + 1;
+      const stakeAddress = withdrawal.stakeAddress.trim();
+      if (!STAKE_ADDRESS_REGEX.test(stakeAddress)) {
+        errors.push(`Withdrawal ${position} needs a valid stake address`);
+      } else if (seen.has(stakeAddress)) {
+        errors.push(`Withdrawal ${position} repeats a stake address`);
+      }
+      seen.add(stakeAddress);
+
+      const lovelace = adaToLovelace(withdrawal.amountAda);
+      if (!lovelace || BigInt(lovelace) === BigInt(0)) {
+        errors.push(`Withdrawal ${position} needs a positive ADA amount`);
+      }
+    });
+  }
+
+  if (draft.type === "Protocol Parameter Change") {
+    if (draft.parameterChanges.length === 0) {
+      errors.push("Add at least one parameter change");
+    }
+    const seen = new Set<string>();
+    for (const change of draft.parameterChanges) {
+      const param = findParameter(change.key);
+      if (!param) {
+        errors.push(`Unknown parameter ${change.key}`);
+        continue;
+      }
+      if (seen.has(change.key)) {
+        errors.push(`${param.label} is changed more than once`);
+      }
+      seen.add(change.key);
+
+      const isValid =
+        param.kind === "rational"
+          ? parseRational(change.value) !== null
+          : COUNT_REGEX.test(change.value.trim());
+      if (!isValid) {
+        errors.push(
+          param.kind === "rational"
+            ? `${param.label} must be a fraction like 3/10`
+            : `${param.label} must be a whole number`
+        );
+      }
+    }
+  }
+
+  return errors;
+}
+
+function toProtocolParamUpdate(
+  changes: ParameterChangeInput[]
+): ProtocolParamUpdate {
+  const update: Record<string, number | string | Rational> = {};
+  for (const change of changes) {
+    const param = findParameter(change.key);
+    if (!param) continue;
+    const value = change.value.trim();
+    switch (param.kind) {
+      case "count":
+        update[param.key] = Number(value);
+        break;
+      case "coin":
+        update[param.key] = value;
+        break;
+      case "rational": {
+        const rational = parseRational(value);
+        if (rational) update[param.key] = rational;
+        break;
+      }
+    }
+  }
+  return update as ProtocolParamUpdate;
+}
+
+/**
+ * Convert a txHash#index action ID to the Mesh previous action reference
+ */
+export function toGovernanceActionId(
+  actionId: string | null
+): GovernanceActionId | undefined {
+  const parsed = actionId ? parseProposalHash(actionId) : null;
+  return parsed
+    ? { transactionId: parsed.txHash, govActionIndex: parsed.certIndex }
+    : undefined;
+}
+
+/**
+ * Build the Mesh governance action for a validated draft
+ * @param previousActionId - Last enacted action of the draft's purpose, as txHash#index
+ * @param policyHash - Constitution guardrails script hash
+ */
+export function buildGovernanceAction(
+  draft: ProposalDraft,
+  previousActionId: string | null,
+  policyHash: string = GUARDRAILS_SCRIPT_HASH
+): MeshGovernanceAction {
+  switch (draft.type) {
+    case "Info Action":
+      return { kind: "InfoAction", action: {} };
+    case "Treasury Withdrawals":
+      return {
+        kind: "TreasuryWithdrawalsAction",
+        action: {
+          withdrawals: Object.fromEntries(
+            draft.withdrawals.map((withdrawal) => [
+              withdrawal.stakeAddress.trim(),
+              adaToLovelace(withdrawal.amountAda) ?? "0",
+            ])
+          ),
+          policyHash: { bytes: policyHash },
+        },
+      };
+    case "Protocol Parameter Change":
+      return {
+        kind: "ParameterChangeAction",
+        action: {
+          govActionId: toGovernanceActionId(previousActionId),
+          protocolParamUpdates: toProtocolParamUpdate(draft.parameterChanges),
+          policyHash: { bytes: policyHash },
+        },
+      };
+  }
+}
+
+/**
+ * Whether the action must be witnessed by the guardrails script
+ */
+export function requiresGuardrailsScript(type: ProposalActionType): boolean {
+  return type !== "Info Action";
+}
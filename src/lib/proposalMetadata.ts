@@ -0,0 +1,284 @@
+/**
+ * CIP-108 governance action metadata documents
+ * Builds and validates CIP-100 JSON-LD documents with a CIP-108 body
+ */
+
+export const PROPOSAL_TITLE_MAX_LENGTH = 80;
+export const PROPOSAL_ABSTRACT_MAX_LENGTH = 2500;
+
+export const PROPOSAL_REFERENCE_TYPES = ["Other", "GovernanceMetadata"] as const;
+
+export type ProposalReferenceType = (typeof PROPOSAL_REFERENCE_TYPES)[number];
+
+export interface ProposalReference {
+  "@type": ProposalReferenceType;
+  label: string;
+  uri: string;
+  // Blake2b-256 digest of the referenced document, if the author committed to one
+  referenceHash?: string;
+}
+
+export interface ProposalMetadataBody {
+  title: string;
+  abstract: string;
+  motivation: string;
+  rationale: string;
+  references?: ProposalReference[];
+}
+
+export interface ProposalMetadataDocument {
+  "@context": typeof CIP108_CONTEXT;
+  authors: { name: string }[];
+  hashAlgorithm: "blake2b-256";
+  body: ProposalMetadataBody;
+}
+
+/**
+ * CIP-108 body read from a published document
+ * Missing sections are empty strings
+ */
+export interface ParsedProposalMetadata extends Required<ProposalMetadataBody> {
+  authors: string[];
+}
+
+/**
+ * Form input for the proposal metadata editor
+ */
+export interface ProposalMetadataInput {
+  authorName: string;
+  title: string;
+  abstract: string;
+  motivation: string;
+  rationale: string;
+  references: ProposalReference[];
+}
+
+/**
+ * JSON-LD context from the CIP-108 specification
+ */
+export const CIP108_CONTEXT = {
+  "@language": "en-us",
+  CIP100:
+    "https://github.com/cardano-foundation/CIPs/blob/master/CIP-0100/README.md#",
+  CIP108:
+    "https://github.com/cardano-foundation/CIPs/blob/master/CIP-0108/README.md#",
+  hashAlgorithm: "CIP100:hashAlgorithm",
+  body: {
+    "@id": "CIP108:body",
+    "@context": {
+      references: {
+        "@id": "CIP108:references",
+        "@container": "@set",
+        "@context": {
+          GovernanceMetadata: "CIP100:GovernanceMetadataReference",
+          Other: "CIP100:OtherReference",
+          label: "CIP100:reference-label",
+          uri: "CIP100:reference-uri",
+          referenceHash: {
+            "@id": "CIP108:referenceHash",
+            "@context": {
+              hashDigest: "CIP108:hashDigest",
+              hashAlgorithm: "CIP100:hashAlgorithm",
+            },
+          },
+        },
+      },
+      title: "CIP108:title",
+      abstract: "CIP108:abstract",
+      motivation: "CIP108:motivation",
+      rationale: "CIP108:rationale",
+    },
+  },
+  authors: {
+    "@id": "CIP100:authors",
+    "@container": "@set",
+    "@context": {
+      name: "http://xmlns.com/foaf/0.1/name",
+      witness: {
+        "@id": "CIP100:witness",
+        "@context": {
+          witnessAlgorithm: "CIP100:witnessAlgorithm",
+          publicKey: "CIP100:publicKey",
+          signature: "CIP100:signature",
+        },
+      },
+    },
+  },
+} as const;
+
+/**
+ * Build a CIP-108 document from editor input
+ * Empty references are omitted from the body
+ */
+export function buildProposalMetadata(
+  input: ProposalMetadataInput
+): ProposalMetadataDocument {
+  const body: ProposalMetadataBody = {
+    title: input.title.trim(),
+    abstract: input.abstract.trim(),
+    motivation: input.motivation.trim(),
+    rationale: input.rationale.trim(),
+  };
+
+  const references = input.references
+    .map((ref) => ({ ...ref, label: ref.label.trim(), uri: ref.uri.trim() }))
+    .filter((ref) => ref.label || ref.uri);
+  if (references.length > 0) {
+    body.references = references;
+  }
+
+  return {
+    "@context": CIP108_CONTEXT,
+    authors: input.authorName.trim() ? [{ name: input.authorName.trim() }] : [],
+    hashAlgorithm: "blake2b-256",
+    body,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate a governance action metadata document against the CIP-108 schema rules
+ * Accepts untrusted input so it can run on the API route as well
+ * @returns list of validation errors, empty when the document is valid
+ */
+export function validateProposalMetadata(document: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isRecord(document)) {
+    return ["Proposal metadata must be a JSON object"];
+  }
+  if (!isRecord(document["@context"])) {
+    errors.push("@context is required");
+  }
+  if (document.hashAlgorithm !== "blake2b-256") {
+    errors.push('hashAlgorithm must be "blake2b-256"');
+  }
+  if (!Array.isArray(document.authors)) {
+    errors.push("authors must be an array");
+  }
+
+  const body = document.body;
+  if (!isRecord(body)) {
+    errors.push("body is required");
+    return errors;
+  }
+
+  if (typeof body.title !== "string" || !body.title.trim()) {
+    errors.push("Title is required");
+  } else if (body.title.length > PROPOSAL_TITLE_MAX_LENGTH) {
+    errors.push(
+      `Title must be at most ${PROPOSAL_TITLE_MAX_LENGTH} characters`
+    );
+  }
+  if (typeof body.abstract !== "string" || !body.abstract.trim()) {
+    errors.push("Abstract is required");
+  } else if (body.abstract.length > PROPOSAL_ABSTRACT_MAX_LENGTH) {
+    errors.push(
+      `Abstract must be at most ${PROPOSAL_ABSTRACT_MAX_LENGTH} characters`
+    );
+  }
+  if (typeof body.motivation !== "string" || !body.motivation.trim()) {
+    errors.push("Motivation is required");
+  }
+  if (typeof body.rationale !== "string" || !body.rationale.trim()) {
+    errors.push("Rationale is required");
+  }
+
+  if (body.references !== undefined) {
+    if (!Array.isArray(body.references)) {
+      errors.push("references must be an array");
+    } else {
+      body.references.forEach((ref: unknown, index) => {
+        const position = index + 1;
+        if (!isRecord(ref)) {
+          errors.push(`Reference ${position} must be an object`);
+          return;
+        }
+        if (
+          !PROPOSAL_REFERENCE_TYPES.includes(
+            ref["@type"] as ProposalReferenceType
+          )
+        ) {
+          errors.push(`Reference ${position} has an invalid type`);
+        }
+        if (typeof ref.label !== "string" || !ref.label.trim()) {
+          errors.push(`Reference ${position} needs a label`);
+        }
+        if (typeof ref.uri !== "string" || !ref.uri.trim()) {
+          errors.push(`Reference ${position} needs a URI`);
+        }
+      });
+    }
+  }
+
+  return errors;
+}
+
+function readText(value: unknown): string {
+  // Some tools wrap JSON-LD strings as { "@value": "..." }
+  const text =
+    isRecord(value) && typeof value["@value"] === "string"
+      ? value["@value"]
+      : typeof value === "string"
+        ? value
+        : "";
+  // Double-escaped documents carry literal \n sequences instead of line breaks
+  return text.replace(/\\n/g, "\n").trim();
+}
+
+function isReferenceType(value: unknown): value is ProposalReferenceType {
+  return PROPOSAL_REFERENCE_TYPES.includes(value as ProposalReferenceType);
+}
+
+/**
+ * Read the CIP-108 body of a published governance action document
+ * Accepts untrusted input; sections with the wrong type read as empty
+ * @returns null when the document has no CIP-108 body
+ */
+export function parseProposalMetadata(
+  document: unknown
+): ParsedProposalMetadata | null {
+  if (!isRecord(document) || !isRecord(document.body)) return null;
+  const body = document.body;
+
+  const references = Array.isArray(body.references)
+    ? body.references.filter(isRecord).map((ref) => {
+        const reference: ProposalReference = {
+          "@type": isReferenceType(ref["@type"]) ? ref["@type"] : "Other",
+          label: readText(ref.label),
+          uri: readText(ref.uri),
+        };
+        if (isRecord(ref.referenceHash)) {
+          const hashDigest = readText(ref.referenceHash.hashDigest);
+          if (hashDigest) reference.referenceHash = hashDigest;
+        }
+        return reference;
+      })
+    : [];
+
+  const parsed: ParsedProposalMetadata = {
+    title: readText(body.title),
+    abstract: readText(body.abstract),
+    motivation: readText(body.motivation),
+    rationale: readText(body.rationale),
+    references: references.filter((ref) => ref.uri),
+    authors: Array.isArray(document.authors)
+      ? document.authors
+          .filter(isRecord)
+          .map((author) => readText(author.name))
+          .filter(Boolean)
+      : [],
+  };
+  if (
+    !parsed.title &&
+    !parsed.abstract &&
+    !parsed.motivation &&
+    !parsed.rationale
+  ) {
+    return null;
+  }
+  return parsed;
+}
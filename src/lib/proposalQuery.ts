@@ -0,0 +1,292 @@
+/**
+ * Proposal list query helpers
+ * Shared by the proposals API route (parsing, paging) and the client (query strings)
+ */
+
+import type {
+  GovernanceAction,
+  GovernanceActionStatus,
+  GovernanceActionType,
+  GovernanceFilters,
+  ProposalPage,
+  ProposalQuery,
+  ProposalSortKey,
+  SortOrder,
+} from "@/types/governance";
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+export const DEFAULT_GOVERNANCE_FILTERS: GovernanceFilters = {
+  type: "All",
+  status: "All",
+  searchQuery: "",
+  voteFilter: "All",
+  sort: "submissionEpoch",
+  order: "desc",
+  fromEpoch: null,
+  toEpoch: null,
+};
+
+export const PROPOSAL_SORT_KEYS: ProposalSortKey[] = [
+  "submissionEpoch",
+  "expiryEpoch",
+  "drepYesPercent",
+];
+
+const STATUSES: GovernanceActionStatus[] = [
+  "All",
+  "Active",
+  "Ratified",
+  "Enacted",
+  "Expired",
+  "Closed",
+];
+
+const TYPES: GovernanceActionType[] = [
+  "All",
+  "Info Action",
+  "Treasury Withdrawals",
+  "New Constitution",
+  "Hard Fork Initiation",
+  "Protocol Parameter Change",
+  "No Confidence",
+  "Update Committee",
+];
+
+/**
+ * Build the query string for a proposal query, omitting defaults
+ */
+export function toProposalSearchParams(query: ProposalQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.cursor) params.set("cursor", query.cursor);
+  if (query.limit) params.set("limit", String(query.limit));
+  if (query.sort) params.set("sort", query.sort);
+  if (query.order) params.set("order", query.order);
+  if (query.status && query.status !== "All") {
+    params.set("status", query.status);
+  }
+  if (query.type && query.type !== "All") params.set("type", query.type);
+  if (query.search) params.set("search", query.search);
+  if (query.fromEpoch !== undefined) {
+    params.set("fromEpoch", String(query.fromEpoch));
+  }
+  if (query.toEpoch !== undefined) {
+    params.set("toEpoch", String(query.toEpoch));
+  }
+  return params;
+}
+
+function single(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function parseEpoch(value: string | undefined): number | undefined | null {
+  if (value === undefined || value === "") return undefined;
+  const epoch = Number(value);
+  return Number.isInteger(epoch) && epoch >= 0 ? epoch : null;
+}
+
+/**
+ * Parse and validate request query parameters
+ * @returns the parsed query, or an error message for a 400 response
+ */
+export function parseProposalQuery(
+  raw: Partial<Record<string, string | string[]>>
+): { query: ProposalQuery } | { error: string } {
+  const query: ProposalQuery = {};
+
+  const cursor = single(raw.cursor);
+  if (cursor) {
+    if (decodeCursor(cursor) === null) return { error: "Invalid cursor" };
+    query.cursor = cursor;
+  }
+
+  const limit = single(raw.limit);
+  if (limit) {
+    const parsed = Number(limit);
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_PAGE_SIZE) {
+      return { error: `limit must be between 1 and ${MAX_PAGE_SIZE}` };
+    }
+    query.limit = parsed;
+  }
+
+  const sort = single(raw.sort);
+  if (sort) {
+    if (!PROPOSAL_SORT_KEYS.includes(sort as ProposalSortKey)) {
+      return { error: `sort must be one of ${PROPOSAL_SORT_KEYS.join(", ")}` };
+    }
+    query.sort = sort as ProposalSortKey;
+  }
+
+  const order = single(raw.order);
+  if (order) {
+    if (order !== "asc" && order !== "desc") {
+      return { error: "order must be asc or desc" };
+    }
+    query.order = order as SortOrder;
+  }
+
+  const status = single(raw.status);
+  if (status) {
+    if (!STATUSES.includes(status as GovernanceActionStatus)) {
+      return { error: "Invalid status filter" };
+    }
+    query.status = status as GovernanceActionStatus;
+  }
+
+  const type = single(raw.type);
+  if (type) {
+    if (!TYPES.includes(type as GovernanceActionType)) {
+      return { error: "Invalid type filter" };
+    }
+    query.type = type as GovernanceActionType;
+  }
+
+  const search = single(raw.search)?.trim();
+  if (search) query.search = search;
+
+  const fromEpoch = parseEpoch(single(raw.fromEpoch));
+  const toEpoch = parseEpoch(single(raw.toEpoch));
+  if (fromEpoch === null || toEpoch === null) {
+    return { error: "Epoch range must be non-negative integers" };
+  }
+  if (
+    fromEpoch !== undefined &&
+    toEpoch !== undefined &&
+    fromEpoch > toEpoch
+  ) {
+    return { error: "fromEpoch must not be after toEpoch" };
+  }
+  query.fromEpoch = fromEpoch;
+  query.toEpoch = toEpoch;
+
+  return { query };
+}
+
+/**
+ * Cursors are opaque to clients; they encode the offset of the next item
+ */
+export function encodeCursor(offset: number): string {
+  return Buffer.from(`o:${offset}`).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): number | null {
+  try {
+    const decoded = Buffer.from(cursor, "base64url").toString("utf8");
+    const match = /^o:(\d+)$/.exec(decoded);
+    return match ? parseInt(match[1], 10) : null;
+  } catch {
+    return null;
+  }
+}
+
+function getSortValue(action: GovernanceAction, sort: ProposalSortKey): number {
+  if (sort === "drepYesPercent") {
+    // Raw backend rows carry the percentage on the drep vote info object
+    return action.drep?.yesPercent ?? action.drepYesPercent ?? 0;
+  }
+  return action[sort] ?? 0;
+}
+
+/**
+ * Filter, sort and paginate a full proposal list
+ * Used when the backend returns an unpaginated array
+ */
+export function applyProposalQuery(
+  actions: GovernanceAction[],
+  query: ProposalQuery
+): ProposalPage {
+  const search = query.search?.toLowerCase();
+
+  const filtered = actions.filter(
+    (action) =>
+      (!query.status ||
+        query.status === "All" ||
+        action.status === query.status) &&
+      (!query.type || query.type === "All" || action.type === query.type) &&
+      (!search || (action.title ?? "").toLowerCase().includes(search)) &&
+      (query.fromEpoch === undefined ||
+        action.submissionEpoch >= query.fromEpoch) &&
+      (query.toEpoch === undefined || action.submissionEpoch <= query.toEpoch)
+  );
+
+  const sort = query.sort ?? "submissionEpoch";
+  const direction = (query.order ?? "desc") === "asc" ? 1 : -1;
+  const sorted = [...filtered].sort(
+    (a, b) => (getSortValue(a, sort) - getSortValue(b, sort)) * direction
+  );
+
+  const offset = query.cursor ? (decodeCursor(query.cursor) ?? 0) : 0;
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  const items = sorted.slice(offset, offset + limit);
+  const nextOffset = offset + items.length;
+
+  return {
+    items,
+    nextCursor: nextOffset < sorted.length ? encodeCursor(nextOffset) : null,
+    total: sorted.length,
+  };
+}
+
+// Dashboard filters mirrored into the page URL (the vote filter belongs to VotingRecords)
+export const DASHBOARD_QUERY_KEYS = [
+  "type",
+  "status",
+  "search",
+  "sort",
+  "order",
+  "fromEpoch",
+  "toEpoch",
+] as const;
+
+/**
+ * Read dashboard filters from page query params
+ * Unlike parseProposalQuery, invalid values are ignored so a bad link still opens
+ */
+export function filtersFromUrlQuery(
+  raw: Partial<Record<string, string | string[]>>
+): Partial<GovernanceFilters> {
+  const filters: Partial<GovernanceFilters> = {};
+
+  const type = single(raw.type);
+  if (type && TYPES.includes(type as GovernanceActionType)) {
+    filters.type = type as GovernanceActionType;
+  }
+  const status = single(raw.status);
+  if (status && STATUSES.includes(status as GovernanceActionStatus)) {
+    filters.status = status as GovernanceActionStatus;
+  }
+  const search = single(raw.search);
+  if (search) filters.searchQuery = search;
+  const sort = single(raw.sort);
+  if (sort && PROPOSAL_SORT_KEYS.includes(sort as ProposalSortKey)) {
+    filters.sort = sort as ProposalSortKey;
+  }
+  const order = single(raw.order);
+  if (order === "asc" || order === "desc") filters.order = order;
+  const fromEpoch = parseEpoch(single(raw.fromEpoch));
+  if (typeof fromEpoch === "number") filters.fromEpoch = fromEpoch;
+  const toEpoch = parseEpoch(single(raw.toEpoch));
+  if (typeof toEpoch === "number") filters.toEpoch = toEpoch;
+
+  return filters;
+}
+
+/**
+ * Page query params for the dashboard filters, omitting defaults
+ */
+export function filtersToUrlQuery(
+  filters: GovernanceFilters
+): Record<(typeof DASHBOARD_QUERY_KEYS)[number], string | undefined> {
+  const defaults = DEFAULT_GOVERNANCE_FILTERS;
+  return {
+    type: filters.type !== defaults.type ? filters.type : undefined,
+    status: filters.status !== defaults.status ? filters.status : undefined,
+    search: filters.searchQuery.trim() || undefined,
+    sort: filters.sort !== defaults.sort ? filters.sort : undefined,
+    order: filters.order !== defaults.order ? filters.order : undefined,
+    fromEpoch: filters.fromEpoch?.toString(),
+    toEpoch: filters.toEpoch?.toString(),
+  };
+}
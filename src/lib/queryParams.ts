@@ -0,0 +1,41 @@
+/**
+ * Page query param helpers for URL-synchronized views
+ */
+
+import type { NextRouter } from "next/router";
+
+export function getQueryParam(
+  query: NextRouter["query"],
+  key: string
+): string | undefined {
+  const value = query[key];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Merge params into the current URL without a navigation or scroll jump
+ * Undefined values remove the param; other params are kept as-is
+ */
+export function replaceQueryParams(
+  router: NextRouter,
+  params: Record<string, string | undefined>
+): void {
+  const query = { ...router.query };
+  let changed = false;
+
+  for (const [key, value] of Object.entries(params)) {
+    if (getQueryParam(query, key) === value) continue;
+    changed = true;
+    if (value === undefined) {
+      delete query[key];
+    } else {
+      query[key] = value;
+    }
+  }
+
+  if (!changed) return;
+  router.replace({ pathname: router.pathname, query }, undefined, {
+    shallow: true,
+    scroll: false,
+  });
+}
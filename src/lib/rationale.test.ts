@@ -0,0 +1,130 @@
+import { describe, expect, it } from "vitest";
+import {
+  EMPTY_INTERNAL_VOTE,
+  RATIONALE_SUMMARY_MAX_LENGTH,
+  buildRationaleDocument,
+  parseRationaleDocument,
+  validateRationale,
+  type RationaleInput,
+} from "./rationale";
+
+const INPUT: RationaleInput = {
+  authorName: " Alice ",
+  summary: " Supports the treasury withdrawal ",
+  rationaleStatement: "The budget is within the agreed limits.",
+  precedentDiscussion: "",
+  counterargumentDiscussion: "  ",
+  conclusion: "Yes",
+  internalVote: null,
+  references: [],
+};
+
+function withBody(body: Record<string, unknown>) {
+  const document = buildRationaleDocument(INPUT);
+  return { ...document, body: { ...document.body, ...body } };
+}
+
+describe("buildRationaleDocument", () => {
+  it("builds a valid document without empty sections", () => {
+    const document = buildRationaleDocument({
+      ...INPUT,
+      references: [
+        { "@type": "Other", label: " Budget ", uri: " https://x.io " },
+        { "@type": "Other", label: " ", uri: "" },
+      ],
+    });
+
+    expect(validateRationale(document)).toEqual([]);
+    expect(document.authors).toEqual([{ name: "Alice" }]);
+    expect(document.body).toEqual({
+      summary: "Supports the treasury withdrawal",
+      rationaleStatement: "The budget is within the agreed limits.",
+      conclusion: "Yes",
+      references: [{ "@type": "Other", label: "Budget", uri: "https://x.io" }],
+    });
+  });
+});
+
+describe("validateRationale", () => {
+  it("rejects documents that are not CIP-100 objects", () => {
+    expect(validateRationale([])).toEqual(["Rationale must be a JSON object"]);
+    expect(validateRationale({ hashAlgorithm: "sha256" })).toEqual([
+      "@context is required",
+      'hashAlgorithm must be "blake2b-256"',
+      "authors must be an array",
+      "body is required",
+    ]);
+  });
+
+  it("requires a summary and a rationale statement", () => {
+    expect(
+      validateRationale(withBody({ summary: " ", rationaleStatement: 42 }))
+    ).toEqual(["Summary is required", "Rationale statement is required"]);
+  });
+
+  it("limits the summary length", () => {
+    const atLimit = "a".repeat(RATIONALE_SUMMARY_MAX_LENGTH);
+    expect(validateRationale(withBody({ summary: atLimit }))).toEqual([]);
+    expect(validateRationale(withBody({ summary: `${atLimit}a` }))).toEqual([
+      `Summary must be at most ${RATIONALE_SUMMARY_MAX_LENGTH} characters`,
+    ]);
+  });
+
+  it("rejects optional sections that are not strings", () => {
+    expect(validateRationale(withBody({ conclusion: ["Yes"] }))).toEqual([
+      "conclusion must be a string",
+    ]);
+  });
+
+  it("requires non-negative integer internal vote counts", () => {
+    expect(
+      validateRationale(withBody({ internalVote: EMPTY_INTERNAL_VOTE }))
+    ).toEqual([]);
+    expect(
+      validateRationale(
+        withBody({ internalVote: { constitutional: -1, abstain: 1.5 } })
+      )
+    ).toEqual([
+      'Internal vote "constitutional" must be a non-negative integer',
+      'Internal vote "abstain" must be a non-negative integer',
+    ]);
+  });
+
+  it("checks the shape of each reference", () => {
+    expect(validateRationale(withBody({ references: {} }))).toEqual([
+      "references must be an array",
+    ]);
+    expect(
+      validateRationale(
+        withBody({
+          references: [
+            { "@type": "RelevantArticles", label: "Post", uri: "ipfs://Qm" },
+            "https://x.io",
+            { "@type": "Link", label: " ", uri: 1 },
+          ],
+        })
+      )
+    ).toEqual([
+      "Reference 2 must be an object",
+      "Reference 3 has an invalid type",
+      "Reference 3 needs a label",
+      "Reference 3 needs a URI",
+    ]);
+  });
+});
+
+describe("parseRationaleDocument", () => {
+  it("reads a CIP-100 comment as the rationale statement", () => {
+    const parsed = parseRationaleDocument({
+      authors: [{ name: { "@value": "Bob" } }],
+      body: { comment: "Line one\\nLine two" },
+    });
+
+    expect(parsed?.rationaleStatement).toBe("Line one\nLine two");
+    expect(parsed?.authors).toEqual(["Bob"]);
+  });
+
+  it("returns null without a summary or statement", () => {
+    expect(parseRationaleDocument({ body: { conclusion: "Yes" } })).toBeNull();
+  });
+});
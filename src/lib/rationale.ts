@@ -0,0 +1,352 @@
+/**
+ * CIP-136 vote rationale documents
+ * Builds and validates CIP-100 JSON-LD documents with a CIP-136 body
+ */
+
+export const RATIONALE_SUMMARY_MAX_LENGTH = 300;
+
+export const RATIONALE_REFERENCE_TYPES = [
+  "Other",
+  "GovernanceMetadata",
+  "RelevantArticles",
+] as const;
+
+export type RationaleReferenceType = (typeof RATIONALE_REFERENCE_TYPES)[number];
+
+export interface RationaleReference {
+  "@type": RationaleReferenceType;
+  label: string;
+  uri: string;
+}
+
+export interface RationaleInternalVote {
+  constitutional: number;
+  unconstitutional: number;
+  abstain: number;
+  didNotVote: number;
+  againstVote: number;
+}
+
+export interface RationaleBody {
+  summary: string;
+  rationaleStatement: string;
+  precedentDiscussion?: string;
+  counterargumentDiscussion?: string;
+  conclusion?: string;
+  internalVote?: RationaleInternalVote;
+  references?: RationaleReference[];
+}
+
+export interface RationaleDocument {
+  "@context": typeof CIP136_CONTEXT;
+  authors: { name: string }[];
+  hashAlgorithm: "blake2b-256";
+  body: RationaleBody;
+}
+
+/**
+ * Vote rationale read from a published CIP-136 or plain CIP-100 document
+ * A CIP-100 comment is read as the rationale statement; missing sections
+ * are empty strings
+ */
+export interface ParsedRationale {
+  summary: string;
+  rationaleStatement: string;
+  precedentDiscussion: string;
+  counterargumentDiscussion: string;
+  conclusion: string;
+  internalVote: RationaleInternalVote | null;
+  references: RationaleReference[];
+  authors: string[];
+}
+
+/**
+ * Form input for the rationale editor
+ */
+export interface RationaleInput {
+  authorName: string;
+  summary: string;
+  rationaleStatement: string;
+  precedentDiscussion: string;
+  counterargumentDiscussion: string;
+  conclusion: string;
+  internalVote: RationaleInternalVote | null;
+  references: RationaleReference[];
+}
+
+/**
+ * JSON-LD context from the CIP-136 specification
+ */
+export const CIP136_CONTEXT = {
+  "@language": "en-us",
+  CIP100:
+    "https://github.com/cardano-foundation/CIPs/blob/master/CIP-0100/README.md#",
+  CIP136:
+    "https://github.com/cardano-foundation/CIPs/blob/master/CIP-0136/README.md#",
+  hashAlgorithm: "CIP100:hashAlgorithm",
+  body: {
+    "@id": "CIP136:body",
+    "@context": {
+      references: {
+        "@id": "CIP100:references",
+        "@container": "@set",
+        "@context": {
+          GovernanceMetadata: "CIP100:GovernanceMetadataReference",
+          Other: "CIP100:OtherReference",
+          label: "CIP100:reference-label",
+          uri: "CIP100:reference-uri",
+          RelevantArticles: "CIP136:RelevantArticles",
+        },
+      },
+      summary: "CIP136:summary",
+      rationaleStatement: "CIP136:rationaleStatement",
+      precedentDiscussion: "CIP136:precedentDiscussion",
+      counterargumentDiscussion: "CIP136:counterargumentDiscussion",
+      conclusion: "CIP136:conclusion",
+      internalVote: {
+        "@id": "CIP136:internalVote",
+        "@container": "@set",
+        "@context": {
+          constitutional: "CIP136:constitutional",
+          unconstitutional: "CIP136:unconstitutional",
+          abstain: "CIP136:abstain",
+          didNotVote: "CIP136:didNotVote",
+          againstVote: "CIP136:againstVote",
+        },
+      },
+    },
+  },
+  authors: {
+    "@id": "CIP100:authors",
+    "@container": "@set",
+    "@context": {
+      name: "http://xmlns.com/foaf/0.1/name",
+      witness: {
+        "@id": "CIP100:witness",
+        "@context": {
+          witnessAlgorithm: "CIP100:witnessAlgorithm",
+          publicKey: "CIP100:publicKey",
+          signature: "CIP100:signature",
+        },
+      },
+    },
+  },
+} as const;
+
+export const EMPTY_INTERNAL_VOTE: RationaleInternalVote = {
+  constitutional: 0,
+  unconstitutional: 0,
+  abstain: 0,
+  didNotVote: 0,
+  againstVote: 0,
+};
+
+/**
+ * Build a CIP-136 document from editor input
+ * Empty optional sections are omitted from the body
+ */
+export function buildRationaleDocument(input: RationaleInput): RationaleDocument {
+  const body: RationaleBody = {
+    summary: input.summary.trim(),
+    rationaleStatement: input.rationaleStatement.trim(),
+  };
+
+  if (input.precedentDiscussion.trim()) {
+    body.precedentDiscussion = input.precedentDiscussion.trim();
+  }
+  if (input.counterargumentDiscussion.trim()) {
+    body.counterargumentDiscussion = input.counterargumentDiscussion.trim();
+  }
+  if (input.conclusion.trim()) {
+    body.conclusion = input.conclusion.trim();
+  }
+  if (input.internalVote) {
+    body.internalVote = input.internalVote;
+  }
+
+  const references = input.references
+    .map((ref) => ({ ...ref, label: ref.label.trim(), uri: ref.uri.trim() }))
+    .filter((ref) => ref.label || ref.uri);
+  if (references.length > 0) {
+    body.references = references;
+  }
+
+  return {
+    "@context": CIP136_CONTEXT,
+    authors: input.authorName.trim() ? [{ name: input.authorName.trim() }] : [],
+    hashAlgorithm: "blake2b-256",
+    body,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate a rationale document against the CIP-136 schema rules
+ * Accepts untrusted input so it can run on the API route as well
+ * @returns list of validation errors, empty when the document is valid
+ */
+export function validateRationale(document: unknown): string[] {
+  const errors: string[] = [];
+
+  if (!isRecord(document)) {
+    return ["Rationale must be a JSON object"];
+  }
+  if (!isRecord(document["@context"])) {
+    errors.push("@context is required");
+  }
+  if (document.hashAlgorithm !== "blake2b-256") {
+    errors.push('hashAlgorithm must be "blake2b-256"');
+  }
+  if (!Array.isArray(document.authors)) {
+    errors.push("authors must be an array");
+  }
+
+  const body = document.body;
+  if (!isRecord(body)) {
+    errors.push("body is required");
+    return errors;
+  }
+
+  if (typeof body.summary !== "string" || !body.summary.trim()) {
+    errors.push("Summary is required");
+  } else if (body.summary.length > RATIONALE_SUMMARY_MAX_LENGTH) {
+    errors.push(
+      `Summary must be at most ${RATIONALE_SUMMARY_MAX_LENGTH} characters`
+    );
+  }
+  if (
+    typeof body.rationaleStatement !== "string" ||
+    !body.rationaleStatement.trim()
+  ) {
+    errors.push("Rationale statement is required");
+  }
+
+  for (const field of [
+    "precedentDiscussion",
+    "counterargumentDiscussion",
+    "conclusion",
+  ]) {
+    if (body[field] !== undefined && typeof body[field] !== "string") {
+      errors.push(`${field} must be a string`);
+    }
+  }
+
+  if (body.internalVote !== undefined) {
+    if (!isRecord(body.internalVote)) {
+      errors.push("internalVote must be an object");
+    } else {
+      const internalVote = body.internalVote;
+      for (const key of Object.keys(EMPTY_INTERNAL_VOTE)) {
+        const count = internalVote[key];
+        if (
+          count !== undefined &&
+          (typeof count !== "number" || !Number.isInteger(count) || count < 0)
+        ) {
+          errors.push(`Internal vote "${key}" must be a non-negative integer`);
+        }
+      }
+    }
+  }
+
+  if (body.references !== undefined) {
+    if (!Array.isArray(body.references)) {
+      errors.push("references must be an array");
+    } else {
+      body.references.forEach((ref: unknown, index) => {
+        const position = index + 1;
+        if (!isRecord(ref)) {
+          errors.push(`Reference ${position} must be an object`);
+          return;
+        }
+        if (
+          !RATIONALE_REFERENCE_TYPES.includes(
+            ref["@type"] as RationaleReferenceType
+          )
+        ) {
+          errors.push(`Reference ${position} has an invalid type`);
+        }
+        if (typeof ref.label !== "string" || !ref.label.trim()) {
+          errors.push(`Reference ${position} needs a label`);
+        }
+        if (typeof ref.uri !== "string" || !ref.uri.trim()) {
+          errors.push(`Reference ${position} needs a URI`);
+        }
+      });
+    }
+  }
+
+  return errors;
+}
+
+function readText(value: unknown): string {
+  // Some tools wrap JSON-LD strings as { "@value": "..." }
+  const text =
+    isRecord(value) && typeof value["@value"] === "string"
+      ? value["@value"]
+      : typeof value === "string"
+        ? value
+        : "";
+  // Double-escaped documents carry literal \n sequences instead of line breaks
+  return text.replace(/\\n/g, "\n").trim();
+}
+
+function isReferenceType(value: unknown): value is RationaleReferenceType {
+  return RATIONALE_REFERENCE_TYPES.includes(value as RationaleReferenceType);
+}
+
+function readInternalVote(value: unknown): RationaleInternalVote | null {
+  if (!isRecord(value)) return null;
+  const internalVote = { ...EMPTY_INTERNAL_VOTE };
+  for (const key of Object.keys(EMPTY_INTERNAL_VOTE)) {
+    const count = value[key];
+    if (typeof count === "number" && Number.isInteger(count) && count >= 0) {
+      internalVote[key as keyof RationaleInternalVote] = count;
+    }
+  }
+  return internalVote;
+}
+
+/**
+ * Read the body of a published vote rationale document
+ * Accepts untrusted input; sections with the wrong type read as empty
+ * @returns null when the document has neither a CIP-136 body nor a CIP-100 comment
+ */
+export function parseRationaleDocument(
+  document: unknown
+): ParsedRationale | null {
+  if (!isRecord(document) || !isRecord(document.body)) return null;
+  const body = document.body;
+
+  const references = Array.isArray(body.references)
+    ? body.references
+        .filter(isRecord)
+        .map((ref) => ({
+          "@type": isReferenceType(ref["@type"]) ? ref["@type"] : "Other",
+          label: readText(ref.label),
+          uri: readText(ref.uri),
+        }))
+        .filter((ref) => ref.uri)
+    : [];
+
+  const parsed: ParsedRationale = {
+    summary: readText(body.summary),
+    rationaleStatement:
+      readText(body.rationaleStatement) || readText(body.comment),
+    precedentDiscussion: readText(body.precedentDiscussion),
+    counterargumentDiscussion: readText(body.counterargumentDiscussion),
+    conclusion: readText(body.conclusion),
+    internalVote: readInternalVote(body.internalVote),
+    references,
+    authors: Array.isArray(document.authors)
+      ? document.authors
+          .filter(isRecord)
+          .map((author) => readText(author.name))
+          .filter(Boolean)
+      : [],
+  };
+  if (!parsed.summary && !parsed.rationaleStatement) return null;
+  return parsed;
+}
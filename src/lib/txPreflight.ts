@@ -0,0 +1,277 @@
+/**
+ * Transaction preflight
+ * Estimates the fee and deposits of a governance tx from protocol parameters
+ * and checks the wallet can cover them before the tx is built, and turns
+ * wallet errors into messages users can act on
+ */
+
+import {
+  DEFAULT_PROTOCOL_PARAMETERS,
+  DEFAULT_REDEEMER_BUDGET,
+  type UTxO,
+} from "@meshsdk/core";
+import { formatLovelace } from "@/lib/txPreview";
+import { fetchFeeParameters } from "@/services/api";
+import type { FeeParameters } from "@/types/governance";
+
+// Serialized sizes in bytes, rounded up so the fee isn't under-estimated
+const TX_BASE_SIZE = 220; // Body fields, change output and one key witness
+const INPUT_SIZE = 40;
+const WITNESS_SIZE = 100;
+const VOTE_SIZE = 90;
+const CERTIFICATE_SIZE = 80;
+const PROPOSAL_SIZE = 400;
+const ANCHOR_SIZE = 40; // Hash and encoding, the URL is counted separately
+const REDEEMER_SIZE = 30;
+
+// An ADA-only change output plus the ledger's per-entry overhead
+const MIN_CHANGE_OUTPUT_SIZE = 65 + 160;
+
+// Headroom over the estimate for encoding differences
+const FEE_MARGIN_PERCENT = BigInt(10);
+
+export interface TxPreflightDeposit {
+  label: string; // e.g. "DRep deposit"
+  lovelace: bigint;
+}
+
+/**
+ * Contents of the tx about to be built
+ */
+export interface TxPreflightRequest {
+  votes?: number;
+  certificates?: number;
+  proposals?: number;
+  anchorUrls?: (string | null | undefined)[];
+  extraWitnesses?: number; // Signers besides the payment key
+  scriptBytes?: number; // Attached native or Plutus scripts
+  scriptExecutions?: number; // Plutus scripts run with the default budget
+  deposits?: TxPreflightDeposit[];
+  refund?: bigint; // Deposit returned to the wallet by the tx
+}
+
+export interface TxPreflightResult {
+  estimatedSize: number;
+  estimatedFee: bigint;
+  deposits: TxPreflightDeposit[];
+  minChange: bigint;
+  requiredLovelace: bigint; // Inputs needed for fee, deposits and change
+  availableLovelace: bigint; // Sum of the wallet's UTxOs
+  shortfall: bigint; // 0 when the wallet can pay
+}
+
+function getUtxoLovelace(utxo: UTxO): bigint {
+  const lovelace = utxo.output.amount.find(
+    (asset) => asset.unit === "lovelace"
+  );
+  return lovelace ? BigInt(lovelace.quantity) : BigInt(0);
+}
+
+/**
+ * Estimate the serialized size of a tx spending the given number of inputs
+ */
+export function estimateTxSize(
+  request: TxPreflightRequest,
+  inputCount: number
+): number {
+  const anchorBytes = (request.anchorUrls ?? [])
+    .filter((url): url is string => Boolean(url))
+    .reduce((total, url) => total + ANCHOR_SIZE + url.length, 0);
+  return (
+    TX_BASE_SIZE +
+    inputCount * INPUT_SIZE +
+    (request.extraWitnesses ?? 0) * WITNESS_SIZE +
+    (request.votes ?? 0) * VOTE_SIZE +
+    (request.certificates ?? 0) * CERTIFICATE_SIZE +
+    (request.proposals ?? 0) * PROPOSAL_SIZE +
+    anchorBytes +
+    (request.scriptBytes ?? 0) +
+    (request.scriptExecutions ?? 0) * REDEEMER_SIZE
+  );
+}
+
+/**
+ * Minimum fee of a tx: size fee plus script execution at the default budget
+ */
+export function estimateTxFee(
+  size: number,
+  scriptExecutions: number,
+  params: FeeParameters
+): bigint {
+  const sizeFee =
+    BigInt(params.minFeeA) * BigInt(size) + BigInt(params.minFeeB);
+  const executionFee = BigInt(
+    Math.ceil(
+      scriptExecutions *
+        (params.priceMem * DEFAULT_REDEEMER_BUDGET.mem +
+          params.priceStep * DEFAULT_REDEEMER_BUDGET.steps)
+    )
+  );
+  const fee = sizeFee + executionFee;
+  return fee + (fee * FEE_MARGIN_PERCENT) / BigInt(100);
+}
+
+/**
+ * Check whether the wallet's UTxOs cover the fee, deposits and change of a tx
+ * Inputs are counted largest first, as Mesh selects them
+ */
+export function runTxPreflight(
+  utxos: UTxO[],
+  request: TxPreflightRequest,
+  params: FeeParameters
+): TxPreflightResult {
+  const deposits = request.deposits ?? [];
+  const depositTotal = deposits.reduce(
+    (total, deposit) => total + deposit.lovelace,
+    BigInt(0)
+  );
+  const minChange = BigInt(MIN_CHANGE_OUTPUT_SIZE * params.coinsPerUtxoSize);
+  const balances = utxos.map(getUtxoLovelace).sort((a, b) =>
+    a === b ? 0 : a > b ? -1 : 1
+  );
+  const availableLovelace = balances.reduce(
+    (total, value) => total + value,
+    BigInt(0)
+  );
+
+  let inputCount = 0;
+  let selected = BigInt(0);
+  let estimatedSize = 0;
+  let estimatedFee = BigInt(0);
+  let requiredLovelace = BigInt(0);
+  do {
+    selected += balances[inputCount] ?? BigInt(0);
+    inputCount++;
+    estimatedSize = estimateTxSize(request, inputCount);
+    estimatedFee = estimateTxFee(
+      estimatedSize,
+      request.scriptExecutions ?? 0,
+      params
+    );
+    requiredLovelace =
+      estimatedFee + depositTotal + minChange - (request.refund ?? BigInt(0));
+    if (requiredLovelace < BigInt(0)) requiredLovelace = BigInt(0);
+  } while (selected < requiredLovelace && inputCount < balances.length);
+
+  const shortfall =
+    requiredLovelace > availableLovelace
+      ? requiredLovelace - availableLovelace
+      : BigInt(0);
+  return {
+    estimatedSize,
+    estimatedFee,
+    deposits,
+    minChange,
+    requiredLovelace,
+    availableLovelace,
+    shortfall,
+  };
+}
+
+/**
+ * Load the fee parameters, falling back to Mesh's mainnet defaults
+ * The tx builder uses those defaults too, so the check stays meaningful
+ */
+async function loadFeeParameters(): Promise<FeeParameters> {
+  try {
+    return await fetchFeeParameters();
+  } catch {
+    return DEFAULT_PROTOCOL_PARAMETERS;
+  }
+}
+
+/**
+ * Run the preflight and throw an actionable error when the tx can't be paid
+ * @returns the estimate, for callers that want to show it
+ */
+export async function assertTxPreflight(
+  utxos: UTxO[],
+  request: TxPreflightRequest
+): Promise<TxPreflightResult> {
+  if (utxos.length === 0) {
+    throw new Error(
+      "Your wallet has no spendable funds. Send some ADA to it to pay the transaction fee, then try again."
+    );
+  }
+
+  const params = await loadFeeParameters();
+  const result = runTxPreflight(utxos, request, params);
+
+  if (result.estimatedSize > params.maxTxSize) {
+    throw new Error(
+      `This transaction would be about ${result.estimatedSize} bytes, above the ${params.maxTxSize} byte limit. Include fewer votes or use shorter anchor URLs.`
+    );
+  }
+
+  if (result.shortfall > BigInt(0)) {
+    const costs = [
+      `fee about ${formatLovelace(result.estimatedFee)}`,
+      ...result.deposits.map(
+        (deposit) => `${deposit.label} ${formatLovelace(deposit.lovelace)}`
+      ),
+      `minimum change ${formatLovelace(result.minChange)}`,
+    ];
+    throw new Error(
+      `Insufficient funds: this transaction needs about ${formatLovelace(
+        result.requiredLovelace
+      )} (${costs.join(", ")}), but your wallet holds ${formatLovelace(
+        result.availableLovelace
+      )}. Add at least ${formatLovelace(
+        result.shortfall
+      )} to your wallet and try again.`
+    );
+  }
+
+  return result;
+}
+
+// CIP-30 APIError.Refused, raised when the user rejects a wallet request
+const CIP30_REFUSED_CODE = -3;
+
+function getErrorText(err: unknown): string {
+  if (err instanceof Error) return err.message;
+  if (typeof err === "string") return err;
+  try {
+    return JSON.stringify(err);
+  } catch {
+    return "";
+  }
+}
+
+function getErrorCode(err: unknown): number | null {
+  if (typeof err === "object" && err !== null && "code" in err) {
+    const code = (err as { code: unknown }).code;
+    if (typeof code === "number") return code;
+  }
+  return null;
+}
+
+/**
+ * Turn a Mesh or CIP-30 wallet error into a message users can act on
+ * Unrecognized errors keep their own message, or the fallback if they have none
+ */
+export function toTxErrorMessage(err: unknown, fallback: string): string {
+  const text = getErrorText(err);
+
+  if (
+    getErrorCode(err) === CIP30_REFUSED_CODE ||
+    /user (declined|rejected|canceled|cancelled)|declined by user|rejected by user/i.test(
+      text
+    )
+  ) {
+    return "The transaction was declined in your wallet. Nothing was submitted; approve it in your wallet to continue.";
+  }
+  if (
+    /not enough utxos|utxo balance insufficient|insufficient (input|balance)|ValueNotConserved/i.test(
+      text
+    )
+  ) {
+    return "Your wallet doesn't have enough ADA to cover this transaction's fee and deposits. Add funds to your wallet and try again.";
+  }
+  if (/wrong ?network|network ?id|network ?mismatch/i.test(text)) {
+    return "Your wallet is connected to a different network than the one selected. Switch your wallet or the selected network so they match, then try again.";
+  }
+
+  if (err instanceof Error && err.message) return err.message;
+  return fallback;
+}
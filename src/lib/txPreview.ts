@@ -0,0 +1,266 @@
+/**
+ * Unsigned transaction preview
+ * Decodes a built vote, certificate or proposal tx so users can review what
+ * they sign
+ */
+
+import { core, resolveTxHash } from "@meshsdk/core";
+import type { VoteChoice, VoterType } from "@/types/governance";
+
+export interface TxPreviewInput {
+  txHash: string;
+  index: number;
+}
+
+export interface TxPreviewOutput {
+  address: string;
+  lovelace: bigint;
+  assetCount: number;
+  isChange: boolean;
+}
+
+export interface TxPreviewVote {
+  voterType: VoterType;
+  voterCredential: string; // Key or script hash of the voter
+  isScriptVoter: boolean;
+  governanceActionId: string; // txHash#index
+  vote: VoteChoice;
+  anchorUrl: string | null;
+  anchorHash: string | null;
+}
+
+export interface TxPreviewCertificate {
+  label: string;
+  credential: string; // Key or script hash the certificate applies to
+  deposit: bigint | null; // Paid into the deposit pot
+  refund: bigint | null; // Returned from the deposit pot
+  anchorUrl: string | null;
+  anchorHash: string | null;
+  detail: string | null; // e.g. the delegation target
+}
+
+export interface TxPreviewProposal {
+  actionType: string; // Governance action type label
+  deposit: bigint;
+  returnAddress: string; // Stake address the deposit is returned to
+  previousActionId: string | null; // txHash#index of the chained action
+  withdrawals: { stakeAddress: string; lovelace: bigint }[];
+  anchorUrl: string;
+  anchorHash: string;
+}
+
+export interface TxPreview {
+  txHash: string;
+  inputs: TxPreviewInput[];
+  outputs: TxPreviewOutput[];
+  fee: bigint;
+  votes: TxPreviewVote[];
+  certificates: TxPreviewCertificate[];
+  proposals: TxPreviewProposal[];
+}
+
+// Keyed by the voter __typename of the decoded voting procedures
+const VOTER_TYPES: Record<string, { type: VoterType; isScript: boolean }> = {
+  dRepKeyHash: { type: "DRep", isScript: false },
+  dRepScriptHash: { type: "DRep", isScript: true },
+  stakePoolKeyHash: { type: "SPO", isScript: false },
+  ccHotKeyHash: { type: "CC", isScript: false },
+  ccHotScriptHash: { type: "CC", isScript: true },
+};
+
+// Keyed by the governance action __typename of the decoded proposals
+const GOVERNANCE_ACTION_LABELS: Record<string, string> = {
+  parameter_change_action: "Protocol Parameter Change",
+  hard_fork_initiation_action: "Hard Fork Initiation",
+  treasury_withdrawals_action: "Treasury Withdrawals",
+  no_confidence: "No Confidence",
+  update_committee: "Update Committee",
+  new_constitution: "New Constitution",
+  info_action: "Info Action",
+};
+
+// Indexed by the on-chain vote value
+const VOTE_CHOICES: VoteChoice[] = ["No", "Yes", "Abstain"];
+
+/**
+ * Bech32 DRep ID or predefined option a stake credential delegates to
+ */
+function describeDRep(dRep: core.Cardano.DelegateRepresentative): string {
+  if ("__typename" in dRep) {
+    return dRep.__typename === "AlwaysAbstain"
+      ? "Always Abstain"
+      : "Always No Confidence";
+  }
+  const prefix =
+    dRep.type === core.CredentialType.ScriptHash ? "drep_script" : "drep";
+  return core.hexToBech32(prefix, dRep.hash);
+}
+
+/**
+ * Describe a decoded certificate
+ * Certificate types this app does not build are listed by type name only
+ */
+function toPreviewCertificate(
+  cert: ReturnType<core.Certificate["toCore"]>
+): TxPreviewCertificate {
+  const base = {
+    deposit: null,
+    refund: null,
+    anchorUrl: null,
+    anchorHash: null,
+    detail: null,
+  };
+  switch (cert.__typename) {
+    case core.CertificateType.RegisterDelegateRepresentative:
+      return {
+        ...base,
+        label: "DRep registration",
+        credential: cert.dRepCredential.hash,
+        deposit: cert.deposit,
+        anchorUrl: cert.anchor?.url ?? null,
+        anchorHash: cert.anchor?.dataHash ?? null,
+      };
+    case core.CertificateType.UpdateDelegateRepresentative:
+      return {
+        ...base,
+        label: "DRep update",
+        credential: cert.dRepCredential.hash,
+        anchorUrl: cert.anchor?.url ?? null,
+        anchorHash: cert.anchor?.dataHash ?? null,
+      };
+    case core.CertificateType.UnregisterDelegateRepresentative:
+      return {
+        ...base,
+        label: "DRep retirement",
+        credential: cert.dRepCredential.hash,
+        refund: cert.deposit,
+      };
+    case core.CertificateType.StakeRegistration:
+      // Pre-Conway registration, the deposit is implicit
+      return {
+        ...base,
+        label: "Stake key registration",
+        credential: cert.stakeCredential.hash,
+      };
+    case core.CertificateType.Registration:
+      return {
+        ...base,
+        label: "Stake key registration",
+        credential: cert.stakeCredential.hash,
+        deposit: cert.deposit,
+      };
+    case core.CertificateType.VoteDelegation:
+      return {
+        ...base,
+        label: "Vote delegation",
+        credential: cert.stakeCredential.hash,
+        detail: describeDRep(cert.dRep),
+      };
+    default:
+      return { ...base, label: cert.__typename, credential: "" };
+  }
+}
+
+/**
+ * Describe a decoded proposal procedure
+ */
+function toPreviewProposal(
+  proposal: core.Cardano.ProposalProcedure
+): TxPreviewProposal {
+  const action = proposal.governanceAction;
+  const previousActionId =
+    "governanceActionId" in action && action.governanceActionId
+      ? `${action.governanceActionId.id}#${action.governanceActionId.actionIndex}`
+      : null;
+  const withdrawals =
+    action.__typename ===
+    core.Cardano.GovernanceActionType.treasury_withdrawals_action
+      ? Array.from(action.withdrawals).map((withdrawal) => ({
+          stakeAddress: withdrawal.rewardAccount,
+          lovelace: withdrawal.coin,
+        }))
+      : [];
+
+  return {
+    actionType:
+      GOVERNANCE_ACTION_LABELS[action.__typename] ?? action.__typename,
+    deposit: proposal.deposit,
+    returnAddress: proposal.rewardAccount,
+    previousActionId,
+    withdrawals,
+    anchorUrl: proposal.anchor.url,
+    anchorHash: proposal.anchor.dataHash,
+  };
+}
+
+/**
+ * Decode an unsigned transaction into a reviewable preview
+ * @param changeAddress - Wallet change address, used to flag change outputs
+ * @throws Error if the CBOR is not a valid transaction
+ */
+export function decodeTxPreview(
+  txHex: string,
+  changeAddress: string
+): TxPreview {
+  let tx: core.Transaction;
+  try {
+    tx = core.deserializeTx(txHex);
+  } catch {
+    throw new Error("Could not decode the transaction for preview.");
+  }
+  const body = tx.body();
+
+  const inputs = body
+    .inputs()
+    .toCore()
+    .map((input) => ({ txHash: input.txId, index: input.index }));
+
+  const outputs = body.outputs().map((output) => {
+    const address = output.address().toBech32();
+    return {
+      address,
+      lovelace: output.amount().coin(),
+      assetCount: output.amount().multiasset()?.size ?? 0,
+      isChange: address === changeAddress,
+    };
+  });
+
+  const votes = (body.votingProcedures()?.toCore() ?? []).flatMap(
+    ({ voter, votes }) =>
+      votes.map(({ actionId, votingProcedure }) => ({
+        voterType: VOTER_TYPES[voter.__typename].type,
+        voterCredential: voter.credential.hash,
+        isScriptVoter: VOTER_TYPES[voter.__typename].isScript,
+        governanceActionId: `${actionId.id}#${actionId.actionIndex}`,
+        vote: VOTE_CHOICES[votingProcedure.vote],
+        anchorUrl: votingProcedure.anchor?.url ?? null,
+        anchorHash: votingProcedure.anchor?.dataHash ?? null,
+      }))
+  );
+
+  const certificates = (body.certs()?.toCore() ?? []).map(
+    toPreviewCertificate
+  );
+
+  const proposals = (body.proposalProcedures()?.toCore() ?? []).map(
+    toPreviewProposal
+  );
+
+  return {
+    txHash: resolveTxHash(txHex),
+    inputs,
+    outputs,
+    fee: body.fee(),
+    votes,
+    certificates,
+    proposals,
+  };
+}
+
+/**
+ * Format lovelace as ADA with full precision, e.g. "0.183537 ADA"
+ */
+export function formatLovelace(lovelace: bigint): string {
+  const ada = Number(lovelace) / 1_000_000;
+  return `${ada.toLocaleString(undefined, { maximumFractionDigits: 6 })} ADA`;
+}
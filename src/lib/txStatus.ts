@@ -0,0 +1,108 @@
+/**
+ * Transaction confirmation helpers
+ * Polls the tx status route with exponential backoff until the tx is indexed
+ */
+
+import type { TxConfirmationState, TxStatus } from "@/types/governance";
+
+// First check after 5s, doubling up to once a minute, giving up after 10 minutes
+export const TX_POLL_INITIAL_DELAY_MS = 5_000;
+export const TX_POLL_MAX_DELAY_MS = 60_000;
+export const TX_POLL_TIMEOUT_MS = 10 * 60_000;
+
+export const TX_STATE_LABELS: Record<TxConfirmationState, string> = {
+  pending: "Waiting for the network",
+  mempool: "In mempool",
+  onchain: "On-chain",
+  indexed: "Indexed",
+};
+
+const TX_STATES: TxConfirmationState[] = [
+  "pending",
+  "mempool",
+  "onchain",
+  "indexed",
+];
+
+export function isValidTxHash(hash: string): boolean {
+  return /^[0-9a-f]{64}$/i.test(hash);
+}
+
+/**
+ * Delay before the given poll attempt (0-based)
+ */
+export function getTxPollDelay(attempt: number): number {
+  return Math.min(
+    TX_POLL_INITIAL_DELAY_MS * 2 ** attempt,
+    TX_POLL_MAX_DELAY_MS
+  );
+}
+
+/**
+ * Normalize a backend tx status response
+ * Unknown states are treated as pending so polling continues
+ */
+export function toTxStatus(txHash: string, raw: Partial<TxStatus>): TxStatus {
+  const state = TX_STATES.includes(raw.state as TxConfirmationState)
+    ? (raw.state as TxConfirmationState)
+    : "pending";
+  return {
+    txHash,
+    state,
+    confirmations: Math.max(0, Number(raw.confirmations) || 0),
+    blockHeight: raw.blockHeight ?? null,
+    blockTime: raw.blockTime ?? null,
+  };
+}
+
+function wait(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    // The listener is removed again so polls don't pile them up on the signal
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+interface PollTxStatusOptions {
+  fetchStatus: (txHash: string) => Promise<TxStatus>;
+  onStatus: (status: TxStatus, attempt: number) => void;
+  signal: AbortSignal;
+}
+
+/**
+ * Poll a transaction until it is indexed, the timeout passes or the signal aborts
+ * Failed checks are retried on the same schedule
+ * @returns the last known status, or null if none was received
+ */
+export async function pollTxStatus(
+  txHash: string,
+  { fetchStatus, onStatus, signal }: PollTxStatusOptions
+): Promise<TxStatus | null> {
+  const deadline = Date.now() + TX_POLL_TIMEOUT_MS;
+  let lastStatus: TxStatus | null = null;
+
+  for (let attempt = 0; Date.now() < deadline; attempt++) {
+    await wait(getTxPollDelay(attempt), signal);
+    if (signal.aborted) break;
+
+    try {
+      lastStatus = await fetchStatus(txHash);
+    } catch (error) {
+      console.error(`[Tx Status] Check #${attempt + 1} failed:`, error);
+      continue;
+    }
+    if (signal.aborted) break;
+
+    onStatus(lastStatus, attempt + 1);
+    if (lastStatus.state === "indexed") break;
+  }
+
+  return lastStatus;
+}
@@ -0,0 +1,131 @@
+/**
+ * Vote listing query helpers
+ * Shared by the proposal votes API route and the client, mirrors proposalQuery
+ */
+
+import {
+  DEFAULT_PAGE_SIZE,
+  MAX_PAGE_SIZE,
+  decodeCursor,
+  encodeCursor,
+} from "@/lib/proposalQuery";
+import type {
+  VoteChoice,
+  VotePage,
+  VoteQuery,
+  VoteRecord,
+  VoterType,
+} from "@/types/governance";
+
+const VOTE_CHOICES: VoteChoice[] = ["Yes", "No", "Abstain"];
+const VOTER_TYPES: VoterType[] = ["DRep", "SPO", "CC"];
+
+/**
+ * Build the query string for a vote query, omitting defaults
+ */
+export function toVoteSearchParams(query: VoteQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.cursor) params.set("cursor", query.cursor);
+  if (query.limit) params.set("limit", String(query.limit));
+  if (query.search) params.set("search", query.search);
+  if (query.vote) params.set("vote", query.vote);
+  if (query.voterType) params.set("voterType", query.voterType);
+  return params;
+}
+
+function single(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Parse and validate request query parameters
+ * @returns the parsed query, or an error message for a 400 response
+ */
+export function parseVoteQuery(
+  raw: Partial<Record<string, string | string[]>>
+): { query: VoteQuery } | { error: string } {
+  const query: VoteQuery = {};
+
+  const cursor = single(raw.cursor);
+  if (cursor) {
+    if (decodeCursor(cursor) === null) return { error: "Invalid cursor" };
+    query.cursor = cursor;
+  }
+
+  const limit = single(raw.limit);
+  if (limit) {
+    const parsed = Number(limit);
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > MAX_PAGE_SIZE) {
+      return { error: `limit must be between 1 and ${MAX_PAGE_SIZE}` };
+    }
+    query.limit = parsed;
+  }
+
+  const search = single(raw.search)?.trim();
+  if (search) query.search = search;
+
+  const vote = single(raw.vote);
+  if (vote) {
+    if (!VOTE_CHOICES.includes(vote as VoteChoice)) {
+      return { error: "vote must be Yes, No or Abstain" };
+    }
+    query.vote = vote as VoteChoice;
+  }
+
+  const voterType = single(raw.voterType);
+  if (voterType) {
+    if (!VOTER_TYPES.includes(voterType as VoterType)) {
+      return { error: "voterType must be DRep, SPO or CC" };
+    }
+    query.voterType = voterType as VoterType;
+  }
+
+  return { query };
+}
+
+function matchesSearch(vote: VoteRecord, search: string): boolean {
+  return [vote.voterName, vote.drepName, vote.voterId, vote.drepId].some(
+    (value) => value?.toLowerCase().includes(search)
+  );
+}
+
+/**
+ * Filter and paginate a full vote list, latest votes first
+ * Used when the backend only returns votes inline with the proposal detail
+ */
+export function applyVoteQuery(
+  votes: VoteRecord[],
+  query: VoteQuery
+): VotePage {
+  const search = query.search?.toLowerCase();
+
+  const filtered = votes
+    .filter(
+      (vote) =>
+        (!search || matchesSearch(vote, search)) &&
+        (!query.vote || vote.vote === query.vote) &&
+        (!query.voterType || vote.voterType === query.voterType)
+    )
+    .sort((a, b) => {
+      const dateA = a.votedAt ? new Date(a.votedAt).getTime() : 0;
+      const dateB = b.votedAt ? new Date(b.votedAt).getTime() : 0;
+      return dateB - dateA;
+    });
+
+  const offset = query.cursor ? (decodeCursor(query.cursor) ?? 0) : 0;
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  const items = filtered.slice(offset, offset + limit);
+  const nextOffset = offset + items.length;
+
+  return {
+    items,
+    nextCursor: nextOffset < filtered.length ? encodeCursor(nextOffset) : null,
+    total: filtered.length,
+    counts: {
+      total: votes.length,
+      yes: votes.filter((v) => v.vote === "Yes").length,
+      no: votes.filter((v) => v.vote === "No").length,
+      abstain: votes.filter((v) => v.vote === "Abstain").length,
+    },
+  };
+}
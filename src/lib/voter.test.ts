@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { core } from "@meshsdk/core";
+import { parseCcHotKeyHash, parseDRepId, parsePoolKeyHash } from "./voter";
+
+const KEY_HASH = "a".repeat(56);
+const DREP_ID = "drep1424242424242424242424242424242424242424242425q64qv4";
+
+describe("parseDRepId", () => {
+  it("accepts a CIP-105 DRep ID", () => {
+    expect(parseDRepId(` ${DREP_ID} `)).toBe(DREP_ID);
+  });
+
+  it("accepts a CIP-129 DRep ID", () => {
+    const { cip129 } = core.getDRepIds(DREP_ID);
+    expect(parseDRepId(cip129)).toBe(cip129);
+  });
+
+  it("converts a DRep key hash into its DRep ID", () => {
+    expect(parseDRepId(KEY_HASH.toUpperCase())).toBe(DREP_ID);
+  });
+
+  it("rejects anything else", () => {
+    expect(() => parseDRepId("")).toThrow("Invalid DRep ID");
+    expect(() => parseDRepId("drep1abc")).toThrow("Invalid DRep ID");
+    expect(() => parseDRepId("a".repeat(55))).toThrow("Invalid DRep ID");
+  });
+});
+
+describe("parsePoolKeyHash", () => {
+  it("accepts a cold key hash", () => {
+    expect(parsePoolKeyHash(KEY_HASH.toUpperCase())).toBe(KEY_HASH);
+  });
+
+  it("rejects invalid pool IDs", () => {
+    expect(() => parsePoolKeyHash("pool1abc")).toThrow("Invalid pool ID");
+  });
+});
+
+describe("parseCcHotKeyHash", () => {
+  it("rejects anything but a key hash", () => {
+    expect(parseCcHotKeyHash(KEY_HASH)).toBe(KEY_HASH);
+    expect(() => parseCcHotKeyHash(DREP_ID)).toThrow("Invalid CC hot key");
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Voter role helpers
+ * Builds the Mesh voter credential for DRep, SPO and CC votes
+ */
+
+import {
+  core,
+  deserializePoolId,
+  resolvePoolId,
+  type IWallet,
+  type Voter,
+} from "@meshsdk/core";
+import { getWitnessKeyHashes } from "@/lib/multisig";
+import type { VoteRecord, VoterType } from "@/types/governance";
+
+export const VOTER_ROLE_LABELS: Record<VoterType, string> = {
+  DRep: "DRep",
+  SPO: "Stake Pool Operator",
+  CC: "Constitutional Committee",
+};
+
+const KEY_HASH_REGEX = /^[0-9a-fA-F]{56}$/;
+
+export interface ResolvedVoter {
+  voter: Voter;
+  // Key hash that must witness the vote (cold key for SPOs, hot key for CC)
+  signerKeyHash?: string;
+}
+
+/**
+ * Parse a pool ID (bech32 pool1... or hex) into the pool cold key hash
+ */
+export function parsePoolKeyHash(poolId: string): string {
+  const trimmed = poolId.trim();
+  if (KEY_HASH_REGEX.test(trimmed)) {
+    return trimmed.toLowerCase();
+  }
+  try {
+    return deserializePoolId(trimmed);
+  } catch {
+    throw new Error(
+      "Invalid pool ID. Please provide a bech32 pool ID (pool1...) or the cold key hash."
+    );
+  }
+}
+
+/**
+ * Validate a Constitutional Committee hot key hash
+ */
+export function parseCcHotKeyHash(keyHash: string): string {
+  const trimmed = keyHash.trim();
+  if (!KEY_HASH_REGEX.test(trimmed)) {
+    throw new Error(
+      "Invalid CC hot key hash. Please provide the 56 character hex key hash of your hot credential."
+    );
+  }
+  return trimmed.toLowerCase();
+}
+
+/**
+ * Parse a DRep ID (CIP-105 or CIP-129 bech32) or a DRep key hash
+ * Lets a vote be built for offline signing without reading the wallet's DRep key
+ */
+export function parseDRepId(drepId: string): string {
+  const trimmed = drepId.trim();
+  try {
+    if (KEY_HASH_REGEX.test(trimmed)) {
+      return core.DRepID.cip105FromCredential({
+        type: core.CredentialType.KeyHash,
+        hash: core.Hash28ByteBase16(trimmed.toLowerCase()),
+      });
+    }
+    return core.DRepID(trimmed);
+  } catch {
+    throw new Error(
+      "Invalid DRep ID. Please provide a bech32 DRep ID (drep1...) or the 56 character hex key hash of your DRep credential."
+    );
+  }
+}
+
+/**
+ * Resolve the voter credential for the selected role
+ * @param credential - Pool ID for SPOs, hot key hash for CC members, unused for DReps
+ */
+export async function resolveVoter(
+  wallet: IWallet,
+  role: VoterType,
+  credential: string
+): Promise<ResolvedVoter> {
+  switch (role) {
+    case "DRep": {
+      // Get DRep ID using wallet.getDRep() method (per MeshJS documentation)
+      const dRep = await wallet.getDRep();
+      if (!dRep || !dRep.dRepIDCip105) {
+        throw new Error(
+          "Could not get DRep ID. Please ensure your wallet is registered as a DRep on the DRep Management page."
+        );
+      }
+      return { voter: { type: "DRep", drepId: dRep.dRepIDCip105 } };
+    }
+    case "SPO": {
+      const keyHash = parsePoolKeyHash(credential);
+      return {
+        voter: { type: "StakingPool", keyHash },
+        signerKeyHash: keyHash,
+      };
+    }
+    case "CC": {
+      const keyHash = parseCcHotKeyHash(credential);
+      return {
+        voter: {
+          type: "ConstitutionalCommittee",
+          hotCred: { type: "KeyHash", keyHash },
+        },
+        signerKeyHash: keyHash,
+      };
+    }
+  }
+}
+
+/**
+ * Ensure the signed transaction carries a witness for the voter key
+ * @throws Error if the wallet did not sign with the pool cold key or CC hot key
+ */
+export function assertVoterWitness(
+  signedTx: string,
+  signerKeyHash: string,
+  role: VoterType
+): void {
+  if (!getWitnessKeyHashes(signedTx).includes(signerKeyHash)) {
+    const keyName = role === "SPO" ? "pool cold key" : "CC hot key";
+    throw new Error(
+      `The connected wallet did not sign with the ${keyName} (${signerKeyHash.slice(0, 10)}...). Please connect the wallet that holds this key.`
+    );
+  }
+}
+
+/**
+ * Identifiers a voter may appear under in vote records
+ * Used to find a submitted vote once the backend has indexed it
+ */
+export function getVoterIds(voter: Voter): string[] {
+  switch (voter.type) {
+    case "DRep": {
+      try {
+        const { cip105, cip129 } = core.getDRepIds(voter.drepId);
+        return [voter.drepId, cip105, cip129];
+      } catch {
+        return [voter.drepId];
+      }
+    }
+    case "StakingPool":
+      return [voter.keyHash, resolvePoolId(voter.keyHash)];
+    case "ConstitutionalCommittee":
+      return voter.hotCred.type === "KeyHash"
+        ? [voter.hotCred.keyHash]
+        : [voter.hotCred.scriptHash];
+  }
+}
+
+/**
+ * Latest vote record cast by a voter, matched on any of its identifiers
+ * A later vote replaces an earlier one, so only the newest record counts
+ */
+export function findVoteRecord(
+  votes: VoteRecord[],
+  voterIds: string[]
+): VoteRecord | undefined {
+  const ids = new Set(voterIds.map((id) => id.toLowerCase()));
+  return votes
+    .filter((vote) =>
+      ids.has((vote.voterId || vote.drepId || "").toLowerCase())
+    )
+    .sort(
+      (a, b) =>
+        (b.votedAt ? new Date(b.votedAt).getTime() : 0) -
+        (a.votedAt ? new Date(a.votedAt).getTime() : 0)
+    )[0];
+}
@@ -0,0 +1,60 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { DEFAULT_PROTOCOL_PARAMETERS } from "@meshsdk/core";
+import { callApi, getRequestNetwork } from "@/utils/apiHelper";
+import type { AccountDelegation } from "@/types/governance";
+
+const STAKE_KEY_DEPOSIT = String(DEFAULT_PROTOCOL_PARAMETERS.keyDeposit);
+
+/**
+ * Vote delegation state of a stake account
+ * Unknown accounts are reported as unregistered with the current key deposit
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { stakeAddress } = req.query;
+
+  if (
+    !stakeAddress ||
+    typeof stakeAddress !== "string" ||
+    !/^stake(_test)?1[0-9a-z]+$/.test(stakeAddress)
+  ) {
+    return res.status(400).json({ error: "Valid stake address is required" });
+  }
+
+  try {
+    const response = await callApi({
+      network: getRequestNetwork(req),
+      endpoint: `/account/${encodeURIComponent(stakeAddress)}/delegation`,
+      method: "GET",
+    });
+
+    if (response.status === 404) {
+      const unregistered: AccountDelegation = {
+        stakeAddress,
+        isRegistered: false,
+        delegation: null,
+        stakeKeyDeposit: STAKE_KEY_DEPOSIT,
+      };
+      return res.status(200).json(unregistered);
+    }
+
+    const data = await response.json();
+    if (!response.ok) {
+      return res.status(response.status).json(data);
+    }
+    return res
+      .status(200)
+      .json({ stakeKeyDeposit: STAKE_KEY_DEPOSIT, ...data });
+  } catch (error) {
+    console.error("Account delegation API error:", error);
+    return res
+      .status(500)
+      .json({ error: "Failed to fetch account delegation" });
+  }
+}
@@ -0,0 +1,42 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { checkAnchorLink } from "@/utils/anchorHelper";
+import type { AnchorLinkCheck } from "@/types/governance";
+
+/**
+ * Check that an http(s) or ipfs:// reference link resolves
+ * Runs server-side so the browser doesn't contact every linked host
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { url } = req.query;
+
+  if (!url || typeof url !== "string") {
+    return res.status(400).json({ error: "Link URL is required" });
+  }
+
+  try {
+    let check: AnchorLinkCheck;
+    try {
+      await checkAnchorLink(url);
+      check = { reachable: true, error: null };
+    } catch (linkError) {
+      check = {
+        reachable: false,
+        error:
+          linkError instanceof Error ? linkError.message : "Link unreachable",
+      };
+    }
+    // Short cache so a page of references isn't re-checked on every view
+    res.setHeader("Cache-Control", "public, max-age=300");
+    return res.status(200).json(check);
+  } catch (error) {
+    console.error("Anchor check API error:", error);
+    return res.status(500).json({ error: "Failed to check link" });
+  }
+}
@@ -0,0 +1,62 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { hashAnchorContent } from "@/lib/anchor";
+import { fetchAnchorDocument } from "@/utils/anchorHelper";
+
+/**
+ * Fetch an http(s) or ipfs:// anchor document on behalf of the browser
+ * The bytes are passed through unchanged so the caller can hash them;
+ * X-Anchor-Hash carries the Blake2b-256 hash computed here
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { url, hash } = req.query;
+
+  if (!url || typeof url !== "string") {
+    return res.status(400).json({ error: "Anchor URL is required" });
+  }
+  if (
+    hash !== undefined &&
+    (typeof hash !== "string" || !/^[0-9a-f]{64}$/i.test(hash))
+  ) {
+    return res
+      .status(400)
+      .json({ error: "Anchor hash must be 64 hex characters" });
+  }
+
+  try {
+    let content: Uint8Array;
+    try {
+      content = await fetchAnchorDocument(url, hash);
+    } catch (fetchError) {
+      return res.status(502).json({
+        error:
+          fetchError instanceof Error
+            ? fetchError.message
+            : "Failed to fetch anchor",
+      });
+    }
+
+    const computedHash = hashAnchorContent(content);
+    // Served as plain text so a hostile document can't run on this origin
+    res.setHeader("Content-Type", "text/plain; charset=utf-8");
+    res.setHeader("X-Content-Type-Options", "nosniff");
+    res.setHeader("X-Anchor-Hash", computedHash);
+    res.setHeader(
+      "Cache-Control",
+      // Content matching the requested hash can never change
+      hash?.toLowerCase() === computedHash
+        ? "public, max-age=31536000, immutable"
+        : "no-cache"
+    );
+    return res.status(200).send(Buffer.from(content));
+  } catch (error) {
+    console.error("Anchor API error:", error);
+    return res.status(500).json({ error: "Failed to fetch anchor" });
+  }
+}
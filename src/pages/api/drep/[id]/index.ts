@@ -0,0 +1,53 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { callApi, getRequestNetwork } from "@/utils/apiHelper";
+import type { DRepVoteRecord } from "@/types/governance";
+
+/**
+ * Public profile of a DRep: metadata anchor, voting power, delegators and
+ * every vote cast, latest first
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "DRep ID is required" });
+  }
+
+  try {
+    const response = await callApi({
+      network: getRequestNetwork(req),
+      endpoint: `/drep/${encodeURIComponent(id)}`,
+      method: "GET",
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      return res.status(response.status).json(data);
+    }
+
+    const votes: DRepVoteRecord[] = Array.isArray(data.votes)
+      ? [...data.votes].sort(
+          (a: DRepVoteRecord, b: DRepVoteRecord) =>
+            new Date(b.votedAt).getTime() - new Date(a.votedAt).getTime()
+        )
+      : [];
+    return res.status(200).json({
+      eligibleActionCount: null,
+      delegatorCount: 0,
+      anchorUrl: null,
+      anchorHash: null,
+      ...data,
+      votes,
+    });
+  } catch (error) {
+    console.error("DRep profile API error:", error);
+    return res.status(500).json({ error: "Failed to fetch DRep profile" });
+  }
+}
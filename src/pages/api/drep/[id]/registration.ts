@@ -0,0 +1,54 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { DREP_DEPOSIT } from "@meshsdk/core";
+import { callApi, getRequestNetwork } from "@/utils/apiHelper";
+import type { DRepRegistration } from "@/types/governance";
+
+/**
+ * Registration state of a DRep
+ * Unknown DReps are reported as unregistered with the current deposit
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "DRep ID is required" });
+  }
+
+  try {
+    const response = await callApi({
+      network: getRequestNetwork(req),
+      endpoint: `/drep/${encodeURIComponent(id)}/registration`,
+      method: "GET",
+    });
+
+    if (response.status === 404) {
+      const unregistered: DRepRegistration = {
+        drepId: id,
+        isRegistered: false,
+        deposit: null,
+        anchorUrl: null,
+        anchorHash: null,
+        drepDeposit: DREP_DEPOSIT,
+      };
+      return res.status(200).json(unregistered);
+    }
+
+    const data = await response.json();
+    if (!response.ok) {
+      return res.status(response.status).json(data);
+    }
+    return res.status(200).json({ drepDeposit: DREP_DEPOSIT, ...data });
+  } catch (error) {
+    console.error("DRep registration API error:", error);
+    return res
+      .status(500)
+      .json({ error: "Failed to fetch DRep registration" });
+  }
+}
@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { callApi } from "@/utils/apiHelper";
+
+/**
+ * Serve a stored DRep metadata document as the certificate anchor URL
+ * The content is passed through as text so the bytes match the anchor hash
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { hash } = req.query;
+
+  if (!hash || typeof hash !== "string" || !/^[0-9a-f]{64}$/i.test(hash)) {
+    return res.status(400).json({ error: "Valid metadata hash is required" });
+  }
+
+  try {
+    const response = await callApi({
+      endpoint: `/drep/metadata/${encodeURIComponent(hash)}`,
+      method: "GET",
+      isJson: false,
+    });
+
+    const content = await response.text();
+    res.setHeader("Content-Type", "application/ld+json; charset=utf-8");
+    if (response.ok) {
+      // Content is addressed by its hash, so it never changes
+      res.setHeader("Cache-Control", "public, max-age=31536000, immutable");
+    }
+    return res.status(response.status).send(content);
+  } catch (error) {
+    console.error("DRep metadata fetch API error:", error);
+    return res.status(500).json({ error: "Failed to fetch DRep metadata" });
+  }
+}
@@ -0,0 +1,59 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { hashDrepAnchor } from "@meshsdk/core";
+import { callApi, getPublicBaseUrl } from "@/utils/apiHelper";
+import { validateDRepMetadata } from "@/lib/drepMetadata";
+
+/**
+ * Store a CIP-119 DRep metadata document
+ * The document is hashed here so the anchor hash always matches the stored bytes
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const document = req.body?.document;
+  const errors = validateDRepMetadata(document);
+  if (errors.length > 0) {
+    return res
+      .status(400)
+      .json({ error: "Invalid DRep metadata", details: errors });
+  }
+
+  // The URL ends up in the DRep registration, so the caller's Host header
+  // must not decide where it points
+  const baseUrl = getPublicBaseUrl();
+  if (!baseUrl) {
+    console.error("DRep metadata store API error: PUBLIC_BASE_URL is not set");
+    return res
+      .status(500)
+      .json({ error: "DRep metadata hosting is not configured" });
+  }
+
+  try {
+    // hashDrepAnchor hashes the 2-space indented JSON, so store exactly that
+    const content = JSON.stringify(document, null, 2);
+    const hash = hashDrepAnchor(document);
+
+    const response = await callApi({
+      endpoint: "/drep/metadata",
+      method: "POST",
+      body: JSON.stringify({ hash, content }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      return res.status(response.status).json(data);
+    }
+
+    const url = `${baseUrl}/api/drep/metadata/${hash}`;
+
+    return res.status(201).json({ url, hash });
+  } catch (error) {
+    console.error("DRep metadata store API error:", error);
+    return res.status(500).json({ error: "Failed to store DRep metadata" });
+  }
+}
@@ -0,0 +1,40 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { DEFAULT_PROTOCOL_PARAMETERS } from "@meshsdk/core";
+import { callApi, getRequestNetwork } from "@/utils/apiHelper";
+
+/**
+ * Protocol parameters that set transaction fees and minimum output values
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const response = await callApi({
+      network: getRequestNetwork(req),
+      endpoint: "/governance/fee-parameters",
+      method: "GET",
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      return res.status(response.status).json(data);
+    }
+    return res.status(200).json({
+      minFeeA: DEFAULT_PROTOCOL_PARAMETERS.minFeeA,
+      minFeeB: DEFAULT_PROTOCOL_PARAMETERS.minFeeB,
+      coinsPerUtxoSize: DEFAULT_PROTOCOL_PARAMETERS.coinsPerUtxoSize,
+      priceMem: DEFAULT_PROTOCOL_PARAMETERS.priceMem,
+      priceStep: DEFAULT_PROTOCOL_PARAMETERS.priceStep,
+      maxTxSize: DEFAULT_PROTOCOL_PARAMETERS.maxTxSize,
+      ...data,
+    });
+  } catch (error) {
+    console.error("Fee parameters API error:", error);
+    return res.status(500).json({ error: "Failed to fetch fee parameters" });
+  }
+}
@@ -0,0 +1,44 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { VOTING_PROPOSAL_DEPOSIT } from "@meshsdk/core";
+import { GUARDRAILS_SCRIPT_HASH } from "@/lib/proposal";
+import { callApi, getRequestNetwork } from "@/utils/apiHelper";
+
+// Mainnet govActionLifetime, used when the backend omits it
+const DEFAULT_GOV_ACTION_LIFETIME = 6;
+
+/**
+ * Deposit, lifetime, previous action IDs and constitution script hash
+ * for new governance actions
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  try {
+    const response = await callApi({
+      network: getRequestNetwork(req),
+      endpoint: "/governance/proposal-parameters",
+      method: "GET",
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      return res.status(response.status).json(data);
+    }
+    return res.status(200).json({
+      govActionDeposit: VOTING_PROPOSAL_DEPOSIT,
+      govActionLifetime: DEFAULT_GOV_ACTION_LIFETIME,
+      constitutionScriptHash: GUARDRAILS_SCRIPT_HASH,
+      ...data,
+    });
+  } catch (error) {
+    console.error("Proposal parameters API error:", error);
+    return res
+      .status(500)
+      .json({ error: "Failed to fetch proposal parameters" });
+  }
+}
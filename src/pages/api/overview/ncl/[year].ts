@@ -1,5 +1,5 @@
 import type { NextApiRequest, NextApiResponse } from "next";
-import { callApi } from "@/utils/apiHelper";
+import { callApi, getRequestNetwork } from "@/utils/apiHelper";
 
 export default async function handler(
   req: NextApiRequest,
@@ -17,6 +17,7 @@ export default async function handler(
 
   try {
     const response = await callApi({
+      network: getRequestNetwork(req),
       endpoint: `/overview/ncl/${encodeURIComponent(year)}`,
       method: "GET",
     });
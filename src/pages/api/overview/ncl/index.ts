@@ -1,5 +1,5 @@
 import type { NextApiRequest, NextApiResponse } from "next";
-import { callApi } from "@/utils/apiHelper";
+import { callApi, getRequestNetwork } from "@/utils/apiHelper";
 
 export default async function handler(
   req: NextApiRequest,
@@ -11,6 +11,7 @@ export default async function handler(
 
   try {
     const response = await callApi({
+      network: getRequestNetwork(req),
       endpoint: "/overview/ncl",
       method: "GET",
     });
@@ -1,5 +1,10 @@
 import type { NextApiRequest, NextApiResponse } from "next";
-import { callApi } from "@/utils/apiHelper";
+import { callApi, getRequestNetwork } from "@/utils/apiHelper";
+import {
+  applyProposalQuery,
+  parseProposalQuery,
+  toProposalSearchParams,
+} from "@/lib/proposalQuery";
 
 export default async function handler(
   req: NextApiRequest,
@@ -9,14 +14,40 @@ export default async function handler(
     return res.status(405).json({ error: "Method not allowed" });
   }
 
+  const parsed = parseProposalQuery(req.query);
+  if ("error" in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+
   try {
+    const network = getRequestNetwork(req);
+    const params = toProposalSearchParams(parsed.query).toString();
     const response = await callApi({
-      endpoint: "/overview/proposals",
+      network,
+      endpoint: `/overview/proposals${params ? `?${params}` : ""}`,
       method: "GET",
     });
 
     const data = await response.json();
-    return res.status(response.status).json(data);
+    if (!response.ok || !Array.isArray(data)) {
+      return res.status(response.status).json(data);
+    }
+
+    // A plain list means the backend doesn't page, and it may or may not have
+    // filtered it; page the unfiltered list here so nothing is applied twice
+    if (!params) {
+      return res.status(200).json(applyProposalQuery(data, parsed.query));
+    }
+    const fullResponse = await callApi({
+      network,
+      endpoint: "/overview/proposals",
+      method: "GET",
+    });
+    const fullData = await fullResponse.json();
+    if (!fullResponse.ok || !Array.isArray(fullData)) {
+      return res.status(fullResponse.status).json(fullData);
+    }
+    return res.status(200).json(applyProposalQuery(fullData, parsed.query));
   } catch (error) {
     console.error("Proposals API error:", error);
     return res.status(500).json({ error: "Failed to fetch proposals data" });
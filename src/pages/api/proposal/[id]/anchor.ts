@@ -0,0 +1,85 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { verifyAnchorContent } from "@/lib/anchor";
+import { callApi, getRequestNetwork } from "@/utils/apiHelper";
+import { fetchAnchorDocument } from "@/utils/anchorHelper";
+import type {
+  AnchorVerification,
+  GovernanceActionDetail,
+} from "@/types/governance";
+
+/**
+ * Fetch a governance action's anchor document and check it against the
+ * on-chain anchor hash
+ * The anchor is read from the backend, never from the request, so the
+ * result can't be spoofed by the caller
+ * Anchor URLs are set by whoever submitted the action, so the document is
+ * only fetched through fetchAnchorDocument, which blocks private networks
+ * and caps the size and duration of every request
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { id } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Proposal ID is required" });
+  }
+
+  try {
+    const response = await callApi({
+      network: getRequestNetwork(req),
+      endpoint: `/proposal/${encodeURIComponent(id)}`,
+      method: "GET",
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      return res.status(response.status).json(data);
+    }
+
+    const { anchorUrl, anchorHash } = data as GovernanceActionDetail;
+    if (!anchorUrl || !anchorHash) {
+      return res
+        .status(404)
+        .json({ error: "No anchor is recorded for this governance action" });
+    }
+
+    let verification: AnchorVerification;
+    try {
+      const content = await fetchAnchorDocument(anchorUrl, anchorHash);
+      const { status, computedHash } = verifyAnchorContent(
+        content,
+        anchorHash
+      );
+      verification = {
+        status,
+        anchorUrl,
+        expectedHash: anchorHash,
+        computedHash,
+        content: new TextDecoder().decode(content),
+        error: null,
+      };
+    } catch (fetchError) {
+      verification = {
+        status: "unreachable",
+        anchorUrl,
+        expectedHash: anchorHash,
+        computedHash: null,
+        content: null,
+        error:
+          fetchError instanceof Error
+            ? fetchError.message
+            : "Failed to fetch anchor",
+      };
+    }
+    return res.status(200).json(verification);
+  } catch (error) {
+    console.error("Proposal anchor API error:", error);
+    return res.status(500).json({ error: "Failed to verify proposal anchor" });
+  }
+}
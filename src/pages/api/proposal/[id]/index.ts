@@ -1,5 +1,5 @@
 import type { NextApiRequest, NextApiResponse } from "next";
-import { callApi } from "@/utils/apiHelper";
+import { callApi, getRequestNetwork } from "@/utils/apiHelper";
 
 export default async function handler(
   req: NextApiRequest,
@@ -17,11 +17,17 @@ export default async function handler(
 
   try {
     const response = await callApi({
+      network: getRequestNetwork(req),
       endpoint: `/proposal/${encodeURIComponent(id)}`,
       method: "GET",
     });
 
     const data = await response.json();
+    if (response.ok && data && typeof data === "object") {
+      // Votes are served page by page from /api/proposal/[id]/votes
+      delete data.votes;
+      delete data.ccVotes;
+    }
     return res.status(response.status).json(data);
   } catch (error) {
     console.error("Proposal detail API error:", error);
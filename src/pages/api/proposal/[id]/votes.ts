@@ -0,0 +1,61 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { callApi, getRequestNetwork } from "@/utils/apiHelper";
+import {
+  applyVoteQuery,
+  parseVoteQuery,
+  toVoteSearchParams,
+} from "@/lib/voteQuery";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { id, ...rawQuery } = req.query;
+
+  if (!id || typeof id !== "string") {
+    return res.status(400).json({ error: "Proposal ID is required" });
+  }
+
+  const parsed = parseVoteQuery(rawQuery);
+  if ("error" in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+
+  try {
+    const params = toVoteSearchParams(parsed.query).toString();
+    const votesEndpoint = `/proposal/${encodeURIComponent(id)}/votes`;
+    const response = await callApi({
+      network: getRequestNetwork(req),
+      endpoint: params ? `${votesEndpoint}?${params}` : votesEndpoint,
+      method: "GET",
+    });
+
+    // The backend listing pages and filters itself, so it is passed through
+    if (response.status !== 404) {
+      const data = await response.json();
+      return res.status(response.status).json(data);
+    }
+
+    // Backends without a vote listing only return votes inline with the
+    // detail; the query is applied here instead
+    const detailResponse = await callApi({
+      network: getRequestNetwork(req),
+      endpoint: `/proposal/${encodeURIComponent(id)}`,
+      method: "GET",
+    });
+    const detail = await detailResponse.json();
+    if (!detailResponse.ok) {
+      return res.status(detailResponse.status).json(detail);
+    }
+
+    const votes = [...(detail.votes ?? []), ...(detail.ccVotes ?? [])];
+    return res.status(200).json(applyVoteQuery(votes, parsed.query));
+  } catch (error) {
+    console.error("Proposal votes API error:", error);
+    return res.status(500).json({ error: "Failed to fetch proposal votes" });
+  }
+}
@@ -0,0 +1,56 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { hashDrepAnchor } from "@meshsdk/core";
+import { callApi, getPublicBaseUrl } from "@/utils/apiHelper";
+import { validateRationale } from "@/lib/rationale";
+
+/**
+ * Store a CIP-136 rationale document
+ * The document is hashed here so the anchor hash always matches the stored bytes
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const document = req.body?.document;
+  const errors = validateRationale(document);
+  if (errors.length > 0) {
+    return res.status(400).json({ error: "Invalid rationale", details: errors });
+  }
+
+  // Anchor URLs are published on-chain, so they never come from the request
+  const baseUrl = getPublicBaseUrl();
+  if (!baseUrl) {
+    console.error("Rationale store API error: PUBLIC_BASE_URL is not set");
+    return res
+      .status(500)
+      .json({ error: "Rationale hosting is not configured" });
+  }
+
+  try {
+    // hashDrepAnchor hashes the 2-space indented JSON, so store exactly that
+    const content = JSON.stringify(document, null, 2);
+    const hash = hashDrepAnchor(document);
+
+    const response = await callApi({
+      endpoint: "/rationale",
+      method: "POST",
+      body: JSON.stringify({ hash, content }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      return res.status(response.status).json(data);
+    }
+
+    const url = `${baseUrl}/api/rationale/${hash}`;
+
+    return res.status(201).json({ url, hash });
+  } catch (error) {
+    console.error("Rationale store API error:", error);
+    return res.status(500).json({ error: "Failed to store rationale" });
+  }
+}
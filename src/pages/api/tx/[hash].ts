@@ -0,0 +1,46 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { callApi, getRequestNetwork } from "@/utils/apiHelper";
+import { isValidTxHash, toTxStatus } from "@/lib/txStatus";
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "GET") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const { hash } = req.query;
+
+  if (!hash || typeof hash !== "string" || !isValidTxHash(hash)) {
+    return res
+      .status(400)
+      .json({ error: "A valid transaction hash is required" });
+  }
+
+  const txHash = hash.toLowerCase();
+
+  try {
+    const response = await callApi({
+      network: getRequestNetwork(req),
+      endpoint: `/tx/${txHash}`,
+      method: "GET",
+    });
+
+    // A just-submitted tx may not have reached the backend's node yet
+    if (response.status === 404) {
+      return res.status(200).json(toTxStatus(txHash, { state: "pending" }));
+    }
+
+    const data = await response.json();
+    if (!response.ok) {
+      return res.status(response.status).json(data);
+    }
+    return res.status(200).json(toTxStatus(txHash, data));
+  } catch (error) {
+    console.error("Tx status API error:", error);
+    return res
+      .status(500)
+      .json({ error: "Failed to fetch transaction status" });
+  }
+}
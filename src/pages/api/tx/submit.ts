@@ -0,0 +1,50 @@
+import type { NextApiRequest, NextApiResponse } from "next";
+import { core, resolveTxHash } from "@meshsdk/core";
+import { callApi, getRequestNetwork } from "@/utils/apiHelper";
+
+/**
+ * Submit a signed transaction through the backend node
+ * Used for transactions signed outside the browser wallet
+ */
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse
+) {
+  if (req.method !== "POST") {
+    return res.status(405).json({ error: "Method not allowed" });
+  }
+
+  const cborHex = req.body?.cborHex;
+
+  if (typeof cborHex !== "string" || !/^[0-9a-fA-F]+$/.test(cborHex)) {
+    return res
+      .status(400)
+      .json({ error: "Signed transaction CBOR hex is required" });
+  }
+
+  let txHash: string;
+  try {
+    core.deserializeTx(cborHex);
+    txHash = resolveTxHash(cborHex);
+  } catch {
+    return res.status(400).json({ error: "Invalid transaction CBOR" });
+  }
+
+  try {
+    const response = await callApi({
+      network: getRequestNetwork(req),
+      endpoint: "/tx/submit",
+      method: "POST",
+      body: JSON.stringify({ cborHex }),
+    });
+
+    if (!response.ok) {
+      const data = await response.json();
+      return res.status(response.status).json(data);
+    }
+    return res.status(202).json({ txHash });
+  } catch (error) {
+    console.error("Tx submit API error:", error);
+    return res.status(500).json({ error: "Failed to submit transaction" });
+  }
+}
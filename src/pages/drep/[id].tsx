@@ -0,0 +1,117 @@
+import { useCallback, useEffect, useState } from "react";
+import { useRouter } from "next/router";
+import Head from "next/head";
+import Link from "next/link";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { DRepProfileCard, DRepVoteHistory } from "@/components/drep";
+import { fetchDRepProfile } from "@/services/api";
+import { useAppSelector } from "@/store/hooks";
+import type { DRepProfile } from "@/types/governance";
+import { ArrowLeft } from "lucide-react";
+
+export default function DRepProfilePage() {
+  const router = useRouter();
+  const { id } = router.query;
+  const network = useAppSelector((state) => state.network.network);
+  const [profile, setProfile] = useState<DRepProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadProfile = useCallback(async (drepId: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setProfile(await fetchDRepProfile(drepId));
+    } catch (err) {
+      console.error("DRep profile load error:", err);
+      setProfile(null);
+      setError(err instanceof Error ? err.message : "Failed to load DRep");
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // DReps and their votes differ per network
+  useEffect(() => {
+    if (typeof id === "string") {
+      loadProfile(id);
+    }
+  }, [id, network, loadProfile]);
+
+  const backLink = (
+    <Link href="/">
+      <Button variant="ghost" className="mb-6">
+        <ArrowLeft className="mr-2 h-4 w-4" />
+        Back to Dashboard
+      </Button>
+    </Link>
+  );
+
+  if (isLoading && !profile) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto py-8 px-4">
+          {backLink}
+          <Card className="p-12">
+            <div className="flex flex-col items-center justify-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mb-4"></div>
+              <p className="text-muted-foreground">Loading DRep...</p>
+            </div>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  if (!profile) {
+    return (
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto py-8 px-4">
+          {backLink}
+          <Card className="p-6 border-destructive bg-destructive/10">
+            <div className="text-center">
+              <p className="text-destructive font-medium mb-2">
+                Failed to load DRep
+              </p>
+              <p className="text-sm text-muted-foreground">{error}</p>
+              <button
+                onClick={() => {
+                  if (typeof id === "string") {
+                    loadProfile(id);
+                  }
+                }}
+                className="mt-4 px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors"
+              >
+                Retry
+              </button>
+            </div>
+          </Card>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <Head>
+        <title>
+          {`DRep ${profile.drepId.slice(0, 16)}... - Cardano Governance`}
+        </title>
+        <meta
+          name="description"
+          content="DRep metadata, voting power and voting history"
+        />
+      </Head>
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto px-4 py-8">
+          {backLink}
+          <div className="space-y-6">
+            <DRepProfileCard profile={profile} />
+            <DRepVoteHistory profile={profile} />
+          </div>
+        </div>
+      </div>
+    </>
+  );
+}
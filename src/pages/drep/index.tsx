@@ -0,0 +1,39 @@
+import Head from "next/head";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { DRepManagement } from "@/components/drep";
+import { ArrowLeft } from "lucide-react";
+
+export default function DRepPage() {
+  return (
+    <>
+      <Head>
+        <title>DRep Management - Cardano Governance</title>
+        <meta
+          name="description"
+          content="Register, update or retire your Cardano DRep"
+        />
+      </Head>
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto px-4 py-8 max-w-3xl">
+          <Link href="/">
+            <Button variant="ghost" className="mb-6">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Dashboard
+            </Button>
+          </Link>
+
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold mb-2">DRep Management</h1>
+            <p className="text-muted-foreground">
+              Register your wallet as a Delegated Representative, keep your
+              CIP-119 metadata up to date, or retire and reclaim your deposit.
+            </p>
+          </div>
+
+          <DRepManagement />
+        </div>
+      </div>
+    </>
+  );
+}
@@ -7,122 +7,23 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { VotingRecords } from "@/components/VotingRecords";
-import { VoteOnProposal } from "@/components/governance";
+import {
+  AnchorVerificationCard,
+  EpochTimeline,
+  ProposalMetadataSections,
+  RatificationStatusCard,
+  ThresholdProgress,
+  VoteOnProposal,
+} from "@/components/governance";
 import { useAppDispatch, useAppSelector } from "@/store/hooks";
 import { loadGovernanceActionDetail } from "@/store/governanceSlice";
 import { ArrowLeft } from "lucide-react";
-import type { GovernanceActionDetail } from "@/types/governance";
-
-/**
- * Parse proposal hash (txHash:certIndex format) into separate components
- * The API returns hash in format "txHash:certIndex"
- */
-function parseProposalHash(hash: string): {
-  txHash: string;
-  certIndex: number;
-} | null {
-  if (!hash) return null;
-
-  // Handle txHash:certIndex format (API format)
-  if (hash.includes(":")) {
-    const [txHash, certIndexStr] = hash.split(":");
-    const certIndex = parseInt(certIndexStr, 10);
-    if (txHash && !isNaN(certIndex)) {
-      return { txHash, certIndex };
-    }
-  }
-
-  // Handle txHash#certIndex format (alternative format)
-  if (hash.includes("#")) {
-    const [txHash, certIndexStr] = hash.split("#");
-    const certIndex = parseInt(certIndexStr, 10);
-    if (txHash && !isNaN(certIndex)) {
-      return { txHash, certIndex };
-    }
-  }
-
-  return null;
-}
-
-/**
- * Legacy governance actions with special voting rules
- */
-const LEGACY_NON_APPLICABLE_DREP_ACTIONS = [
-  "gov_action1k2jertppnnndejjcglszfqq4yzw8evzrd2nt66rr6rqlz54xp0zsq05ecsn",
-  "gov_action1286ft23r7jem825s4l0y5rn8sgam0tz2ce04l7a38qmnhp3l9a6qqn850dw",
-  "gov_action1pvv5wmjqhwa4u85vu9f4ydmzu2mgt8n7et967ph2urhx53r70xusqnmm525",
-];
-
-const LEGACY_NON_APPLICABLE_SPO_ACTIONS = [
-  "gov_action1k2jertppnnndejjcglszfqq4yzw8evzrd2nt66rr6rqlz54xp0zsq05ecsn",
-  "gov_action1286ft23r7jem825s4l0y5rn8sgam0tz2ce04l7a38qmnhp3l9a6qqn850dw",
-];
-
-const LEGACY_NON_APPLICABLE_CC_ACTIONS: string[] = [];
-
-/**
- * Governance action types where CC doesn't vote (threshold is null)
- */
-const CC_NOT_APPLICABLE_TYPES = ["No Confidence", "Update Committee"];
-
-/**
- * Governance action types where SPO doesn't vote (threshold is null)
- */
-const SPO_NOT_APPLICABLE_TYPES = [
-  "New Constitution",
-  "Protocol Parameter Change",
-  "Treasury Withdrawals",
-];
-
-function isLegacyAction(hash: string): boolean {
-  const legacyActions = [
-    ...LEGACY_NON_APPLICABLE_DREP_ACTIONS,
-    ...LEGACY_NON_APPLICABLE_SPO_ACTIONS,
-    ...LEGACY_NON_APPLICABLE_CC_ACTIONS,
-  ];
-  return legacyActions.some(
-    (actionId) => hash === actionId || hash.includes(actionId)
-  );
-}
-
-function isCcNotApplicable(action: GovernanceActionDetail): boolean {
-  if (
-    LEGACY_NON_APPLICABLE_CC_ACTIONS.some(
-      (actionId) => action.hash === actionId || action.hash.includes(actionId)
-    )
-  ) {
-    return true;
-  }
-  if (!isLegacyAction(action.hash)) {
-    return CC_NOT_APPLICABLE_TYPES.includes(action.type);
-  }
-  return false;
-}
-
-function isDrepNotApplicable(action: GovernanceActionDetail): boolean {
-  if (
-    LEGACY_NON_APPLICABLE_DREP_ACTIONS.some(
-      (actionId) => action.hash === actionId || action.hash.includes(actionId)
-    )
-  ) {
-    return true;
-  }
-  return false;
-}
-
-function isSpoNotApplicable(action: GovernanceActionDetail): boolean {
-  if (
-    LEGACY_NON_APPLICABLE_SPO_ACTIONS.some(
-      (actionId) => action.hash === actionId || action.hash.includes(actionId)
-    )
-  ) {
-    return true;
-  }
-  if (!isLegacyAction(action.hash)) {
-    return SPO_NOT_APPLICABLE_TYPES.includes(action.type);
-  }
-  return false;
-}
+import {
+  getThresholdPercent,
+  getVoterBodies,
+  isVoterBodyApplicable,
+  parseProposalHash,
+} from "@/lib/governanceRules";
 
 function getStatusColor(status: string): string {
   switch (status) {
@@ -285,10 +186,8 @@ export default function GovernanceDetail() {
             <code className="text-sm text-muted-foreground bg-secondary px-3 py-1 rounded font-mono">
               {selectedAction.proposalId || selectedAction.hash}
             </code>
-            <div className="flex flex-wrap gap-4 text-sm text-muted-foreground mt-4">
-              <span>Submission: Epoch {selectedAction.submissionEpoch}</span>
-              <span>•</span>
-              <span>Expiry: Epoch {selectedAction.expiryEpoch}</span>
+            <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground mt-4">
+              <EpochTimeline action={selectedAction} showSeparator />
             </div>
           </div>
 
@@ -296,23 +195,11 @@ export default function GovernanceDetail() {
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             {/* Left Column - Main Content */}
             <div className="lg:col-span-2 space-y-6">
-              {/* Description Card */}
-              <Card className="p-6">
-                <h2 className="text-xl font-semibold mb-4">Description</h2>
-                <div className="text-foreground/90 whitespace-pre-wrap leading-relaxed">
-                  {selectedAction.description || "No description provided."}
-                </div>
-              </Card>
+              {/* CIP-108 Abstract, Motivation, Rationale and References */}
+              <ProposalMetadataSections action={selectedAction} />
 
-              {/* Rationale Card */}
-              {selectedAction.rationale && (
-                <Card className="p-6">
-                  <h2 className="text-xl font-semibold mb-4">Rationale</h2>
-                  <div className="text-foreground/90 whitespace-pre-wrap leading-relaxed">
-                    {selectedAction.rationale}
-                  </div>
-                </Card>
-              )}
+              {/* Metadata Anchor Card */}
+              <AnchorVerificationCard proposalId={selectedAction.hash} />
             </div>
 
             {/* Right Column - Sidebar */}
@@ -325,9 +212,13 @@ export default function GovernanceDetail() {
                   proposalTitle={selectedAction.title}
                   status={selectedAction.status}
                   proposalId={selectedAction.hash}
+                  voterRoles={getVoterBodies(selectedAction)}
                 />
               )}
 
+              {/* Ratification Card */}
+              <RatificationStatusCard action={selectedAction} />
+
               {/* Constitutionality Card */}
               <Card className="p-6">
                 <h3 className="font-semibold mb-2">Constitutionality</h3>
@@ -339,7 +230,7 @@ export default function GovernanceDetail() {
               {/* DRep Votes Card */}
               <Card
                 className={`p-6 ${
-                  isDrepNotApplicable(selectedAction)
+                  !isVoterBodyApplicable(selectedAction, "DRep")
                     ? "opacity-30 blur-[1px]"
                     : ""
                 }`}
@@ -355,9 +246,10 @@ export default function GovernanceDetail() {
                         {selectedAction.drepYesAda} ₳
                       </span>
                     </div>
-                    <Progress
+                    <ThresholdProgress
                       value={selectedAction.drepYesPercent}
-                      className="h-3 bg-secondary"
+                      threshold={getThresholdPercent(selectedAction, "DRep")}
+                      className="h-3"
                     />
                   </div>
                   <div>
@@ -381,7 +273,7 @@ export default function GovernanceDetail() {
               {selectedAction.spoYesPercent !== undefined && (
                 <Card
                   className={`p-6 ${
-                    isSpoNotApplicable(selectedAction)
+                    !isVoterBodyApplicable(selectedAction, "SPO")
                       ? "opacity-30 blur-[1px]"
                       : ""
                   }`}
@@ -397,9 +289,10 @@ export default function GovernanceDetail() {
                           {selectedAction.spoYesAda || "0"} ₳
                         </span>
                       </div>
-                      <Progress
+                      <ThresholdProgress
                         value={selectedAction.spoYesPercent}
-                        className="h-3 bg-secondary"
+                        threshold={getThresholdPercent(selectedAction, "SPO")}
+                        className="h-3"
                       />
                     </div>
                     <div>
@@ -425,7 +318,7 @@ export default function GovernanceDetail() {
               {selectedAction.ccYesPercent !== undefined && (
                 <Card
                   className={`p-6 ${
-                    isCcNotApplicable(selectedAction)
+                    !isVoterBodyApplicable(selectedAction, "CC")
                       ? "opacity-30 blur-[1px]"
                       : ""
                   }`}
@@ -443,9 +336,10 @@ export default function GovernanceDetail() {
                           {selectedAction.ccYesCount || 0} votes
                         </span>
                       </div>
-                      <Progress
+                      <ThresholdProgress
                         value={selectedAction.ccYesPercent}
-                        className="h-3 bg-secondary"
+                        threshold={getThresholdPercent(selectedAction, "CC")}
+                        className="h-3"
                       />
                     </div>
                     <div>
@@ -510,13 +404,22 @@ export default function GovernanceDetail() {
           </div>
 
           {/* Voting Records Section - Combined DRep, SPO, and CC votes */}
-          {((selectedAction.votes && selectedAction.votes.length > 0) ||
-            (selectedAction.ccVotes && selectedAction.ccVotes.length > 0)) && (
+          {/* Votes are fetched page by page, so gate on the tallies */}
+          {selectedAction.totalYes +
+            selectedAction.totalNo +
+            selectedAction.totalAbstain >
+            0 && (
             <div className="mt-12">
               <VotingRecords
-                votes={selectedAction.votes || []}
-                ccVotes={selectedAction.ccVotes || []}
+                proposalId={
+                  typeof hash === "string" ? hash : selectedAction.hash
+                }
                 proposalStatus={selectedAction.status}
+                refreshKey={
+                  selectedAction.totalYes +
+                  selectedAction.totalNo +
+                  selectedAction.totalAbstain
+                }
               />
             </div>
           )}
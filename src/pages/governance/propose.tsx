@@ -0,0 +1,40 @@
+import Head from "next/head";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { ProposalWizard } from "@/components/proposal";
+import { ArrowLeft } from "lucide-react";
+
+export default function ProposePage() {
+  return (
+    <>
+      <Head>
+        <title>Submit Governance Action - Cardano Governance</title>
+        <meta
+          name="description"
+          content="Submit a Cardano governance action with CIP-108 metadata"
+        />
+      </Head>
+      <div className="min-h-screen bg-background">
+        <div className="container mx-auto px-4 py-8 max-w-3xl">
+          <Link href="/">
+            <Button variant="ghost" className="mb-6">
+              <ArrowLeft className="mr-2 h-4 w-4" />
+              Back to Dashboard
+            </Button>
+          </Link>
+
+          <div className="mb-8">
+            <h1 className="text-3xl font-bold mb-2">Submit Governance Action</h1>
+            <p className="text-muted-foreground">
+              Propose an Info Action, Treasury Withdrawal or Protocol
+              Parameter Change. The deposit is returned to your stake address
+              once the action is enacted, dropped or expires.
+            </p>
+          </div>
+
+          <ProposalWizard />
+        </div>
+      </div>
+    </>
+  );
+}
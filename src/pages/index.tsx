@@ -1,5 +1,6 @@
-import { useEffect } from "react";
+import { useEffect, useRef } from "react";
 import Head from "next/head";
+import { useRouter } from "next/router";
 import { GovernanceStats } from "@/components/GovernanceStats";
 import { GovernanceTable } from "@/components/GovernanceTable";
 import { useAppDispatch, useAppSelector } from "@/store/hooks";
@@ -7,22 +8,54 @@ import {
   loadGovernanceActions,
   loadOverviewSummary,
   loadNCLData,
+  setFilters,
 } from "@/store/governanceSlice";
+import {
+  DEFAULT_GOVERNANCE_FILTERS,
+  filtersFromUrlQuery,
+} from "@/lib/proposalQuery";
 import { Card } from "@/components/ui/card";
 
 export default function Home() {
+  const router = useRouter();
+  // Later URL changes come from the table itself, so the query is read
+  // from a ref on first load and network switches only
+  const routerRef = useRef(router);
+  routerRef.current = router;
   const dispatch = useAppDispatch();
-  const { isLoadingActions, actionsError, isLoadingOverview, overviewError } =
-    useAppSelector((state) => state.governance);
+  const {
+    hasLoadedActions,
+    isLoadingActions,
+    actionsError,
+    isLoadingOverview,
+    overviewError,
+  } = useAppSelector((state) => state.governance);
+  const network = useAppSelector((state) => state.network.network);
 
+  // Switching networks clears the loaded data, so everything reloads
   useEffect(() => {
-    dispatch(loadGovernanceActions());
     dispatch(loadOverviewSummary());
     dispatch(loadNCLData());
-  }, [dispatch]);
+  }, [dispatch, network]);
+
+  // Restore filters from the URL before the first page is requested
+  // Filters missing from the URL go back to their defaults, so ones left in
+  // the store from an earlier visit don't leak into the restored view
+  useEffect(() => {
+    if (!router.isReady) return;
+    dispatch(
+      setFilters({
+        ...DEFAULT_GOVERNANCE_FILTERS,
+        ...filtersFromUrlQuery(routerRef.current.query),
+      })
+    );
+    dispatch(loadGovernanceActions());
+  }, [router.isReady, dispatch, network]);
 
-  const isLoading = isLoadingActions || isLoadingOverview;
-  const error = actionsError || overviewError;
+  // Once the first page is in, reloads and page errors are handled by the table
+  const isLoading =
+    (isLoadingActions && !hasLoadedActions) || isLoadingOverview;
+  const error = (!hasLoadedActions && actionsError) || overviewError;
 
   return (
     <>
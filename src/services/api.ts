@@ -7,14 +7,41 @@
  */
 
 import { API_ENDPOINTS } from "@/config/api";
+import { DEFAULT_NETWORK, type CardanoNetwork } from "@/lib/cardanoTime";
+import { NETWORK_HEADER } from "@/lib/network";
 import type {
+  AccountDelegation,
+  AnchorLinkCheck,
+  AnchorVerification,
+  DRepProfile,
+  DRepRegistration,
+  FeeParameters,
   GovernanceAction,
   GovernanceActionDetail,
   OverviewSummary,
   VoteRecord,
   NCLYearData,
   NCLDisplayData,
+  ProposalPage,
+  ProposalParameters,
+  ProposalQuery,
+  TxStatus,
+  VotePage,
+  VoteQuery,
 } from "@/types/governance";
+import type { DRepMetadataDocument } from "@/lib/drepMetadata";
+import type { ProposalMetadataDocument } from "@/lib/proposalMetadata";
+import type { RationaleDocument } from "@/lib/rationale";
+
+// Network sent with every request so the proxy can pick the backend
+let apiNetwork: CardanoNetwork = DEFAULT_NETWORK;
+
+/**
+ * Set the network used by subsequent API calls
+ */
+export function setApiNetwork(network: CardanoNetwork) {
+  apiNetwork = network;
+}
 
 /**
  * Generic fetch wrapper with error handling
@@ -25,7 +52,31 @@ async function fetchApi<T>(url: string): Promise<T> {
     method: "GET",
     headers: {
       "Content-Type": "application/json",
+      [NETWORK_HEADER]: apiNetwork,
+    },
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(
+      `API Error (${response.status}): ${errorText || response.statusText}`
+    );
+  }
+
+  return response.json();
+}
+
+/**
+ * POST wrapper with the same error handling as fetchApi
+ */
+async function postApi<T>(url: string, body: unknown): Promise<T> {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      [NETWORK_HEADER]: apiNetwork,
     },
+    body: JSON.stringify(body),
   });
 
   if (!response.ok) {
@@ -97,14 +148,19 @@ export async function fetchCurrentYearNCL(): Promise<NCLDisplayData | null> {
 }
 
 /**
- * Fetch all governance actions for the dashboard
- * Returns: Array of governance actions with voting tallies
+ * Fetch a page of governance actions for the dashboard
+ * Returns: governance actions with voting tallies, plus the cursor for the next page
  */
-export async function fetchGovernanceActions(): Promise<GovernanceAction[]> {
-  const data = await fetchApi<GovernanceAction[]>(API_ENDPOINTS.proposals);
+export async function fetchGovernanceActions(
+  query: ProposalQuery = {}
+): Promise<ProposalPage> {
+  const data = await fetchApi<ProposalPage>(API_ENDPOINTS.proposals(query));
 
   // Transform API response to match frontend expected format
-  return data.map(transformGovernanceAction);
+  return {
+    ...data,
+    items: data.items.map(transformGovernanceAction),
+  };
 }
 
 /**
@@ -126,6 +182,167 @@ export async function fetchGovernanceActionDetail(
   }
 }
 
+/**
+ * Fetch a page of vote records for a governance action
+ * @param proposalId - Same identifier as fetchGovernanceActionDetail
+ * Returns: filtered vote records, the next page cursor and overall vote counts
+ */
+export async function fetchProposalVotes(
+  proposalId: string,
+  query: VoteQuery = {}
+): Promise<VotePage> {
+  const data = await fetchApi<VotePage>(
+    API_ENDPOINTS.proposalVotes(proposalId, query)
+  );
+  return {
+    ...data,
+    items: data.items.map(transformVoteRecord),
+  };
+}
+
+/**
+ * Verify a governance action's metadata anchor against its on-chain hash
+ * @param proposalId - Same identifier as fetchGovernanceActionDetail
+ * Returns: verification status, both hashes and the raw anchor document
+ */
+export async function fetchProposalAnchorVerification(
+  proposalId: string
+): Promise<AnchorVerification> {
+  return fetchApi<AnchorVerification>(API_ENDPOINTS.proposalAnchor(proposalId));
+}
+
+/**
+ * Fetch an http(s) or ipfs:// anchor document through the server-side proxy
+ * @param anchorHash - Lets the proxy answer from its content-hash cache
+ * Returns: the document's raw bytes, unchanged so they can be hashed
+ */
+export async function fetchAnchorContent(
+  anchorUrl: string,
+  anchorHash?: string
+): Promise<Uint8Array> {
+  const response = await fetch(API_ENDPOINTS.anchor(anchorUrl, anchorHash));
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(
+      `API Error (${response.status}): ${errorText || response.statusText}`
+    );
+  }
+
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Check that a metadata reference link resolves
+ * Returns: whether it is reachable and the reason when it is not
+ */
+export async function fetchAnchorLinkCheck(
+  url: string
+): Promise<AnchorLinkCheck> {
+  return fetchApi<AnchorLinkCheck>(API_ENDPOINTS.anchorCheck(url));
+}
+
+/**
+ * Fetch the public profile of a DRep
+ * Returns: metadata anchor, voting power, delegator count and every vote cast
+ */
+export async function fetchDRepProfile(drepId: string): Promise<DRepProfile> {
+  return fetchApi<DRepProfile>(API_ENDPOINTS.drepProfile(drepId));
+}
+
+/**
+ * Fetch the registration state of a DRep
+ * Returns: registration status, paid deposit and current metadata anchor
+ */
+export async function fetchDRepRegistration(
+  drepId: string
+): Promise<DRepRegistration> {
+  return fetchApi<DRepRegistration>(API_ENDPOINTS.drepRegistration(drepId));
+}
+
+/**
+ * Store a CIP-119 DRep metadata document
+ * Returns: the hosted anchor URL and its Blake2b-256 hash
+ */
+export async function storeDRepMetadata(
+  document: DRepMetadataDocument
+): Promise<{ url: string; hash: string }> {
+  return postApi<{ url: string; hash: string }>(API_ENDPOINTS.drepMetadata, {
+    document,
+  });
+}
+
+/**
+ * Store a CIP-108 governance action metadata document
+ * Returns: the hosted anchor URL and its Blake2b-256 hash
+ */
+export async function storeProposalMetadata(
+  document: ProposalMetadataDocument
+): Promise<{ url: string; hash: string }> {
+  return postApi<{ url: string; hash: string }>(
+    API_ENDPOINTS.proposalMetadata,
+    { document }
+  );
+}
+
+/**
+ * Fetch the ledger state needed to submit a governance action
+ * Returns: action deposit, voting lifetime and previous action IDs per purpose
+ */
+export async function fetchProposalParameters(): Promise<ProposalParameters> {
+  return fetchApi<ProposalParameters>(API_ENDPOINTS.proposalParameters);
+}
+
+/**
+ * Fetch the protocol parameters that set transaction fees
+ * Returns: fee coefficients, script prices, UTxO cost per byte and max tx size
+ */
+export async function fetchFeeParameters(): Promise<FeeParameters> {
+  return fetchApi<FeeParameters>(API_ENDPOINTS.feeParameters);
+}
+
+/**
+ * Fetch the vote delegation state of a stake account
+ * Returns: stake key registration, current DRep delegation and key deposit
+ */
+export async function fetchAccountDelegation(
+  stakeAddress: string
+): Promise<AccountDelegation> {
+  return fetchApi<AccountDelegation>(
+    API_ENDPOINTS.accountDelegation(stakeAddress)
+  );
+}
+
+/**
+ * Fetch the confirmation status of a submitted transaction
+ * Returns: mempool / on-chain / indexed state and confirmation depth
+ */
+export async function fetchTxStatus(txHash: string): Promise<TxStatus> {
+  return fetchApi<TxStatus>(API_ENDPOINTS.txStatus(txHash));
+}
+
+/**
+ * Submit a signed transaction through the backend
+ * Returns: the hash of the submitted transaction
+ */
+export async function submitTransaction(
+  cborHex: string
+): Promise<{ txHash: string }> {
+  return postApi<{ txHash: string }>(API_ENDPOINTS.txSubmit, { cborHex });
+}
+
+/**
+ * Store a CIP-136 rationale document
+ * Returns: the hosted anchor URL and its Blake2b-256 hash
+ */
+export async function storeRationale(
+  document: RationaleDocument
+): Promise<{ url: string; hash: string }> {
+  return postApi<{ url: string; hash: string }>(API_ENDPOINTS.rationale, {
+    document,
+  });
+}
+
 /**
  * Convert lovelace string to formatted ADA string (divide by 1,000,000, round to integer, add commas)
  */
@@ -161,6 +378,7 @@ function transformGovernanceAction(action: GovernanceAction): GovernanceAction {
     type: action.type,
     status: action.status,
     constitutionality: action.constitutionality || "Unspecified",
+    protocolParamGroups: action.protocolParamGroups,
 
     // DRep voting data (required)
     drepYesPercent: action.drep?.yesPercent ?? 0,
@@ -214,8 +432,8 @@ function transformGovernanceActionDetail(
     ...base,
     description: detail.description,
     rationale: detail.rationale,
-    votes: detail.votes?.map(transformVoteRecord) ?? [],
-    ccVotes: detail.ccVotes?.map(transformVoteRecord) ?? [],
+    anchorUrl: detail.anchorUrl,
+    anchorHash: detail.anchorHash,
   };
 }
 
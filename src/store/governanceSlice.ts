@@ -2,7 +2,12 @@ import { createSlice, createAsyncThunk, PayloadAction } from "@reduxjs/toolkit";
 import type {
   GovernanceAction,
   GovernanceActionDetail,
+  GovernanceActionStatus,
   GovernanceActionType,
+  GovernanceFilters,
+  ProposalQuery,
+  ProposalSortKey,
+  SortOrder,
   VoteType,
   OverviewSummary,
   NCLDisplayData,
@@ -13,6 +18,8 @@ import {
   fetchOverviewSummary,
   fetchCurrentYearNCL,
 } from "@/services/api";
+import { DEFAULT_GOVERNANCE_FILTERS } from "@/lib/proposalQuery";
+import { setNetwork } from "./networkSlice";
 
 interface GovernanceState {
   // Data
@@ -21,15 +28,18 @@ interface GovernanceState {
   overview: OverviewSummary | null;
   nclData: NCLDisplayData | null;
 
+  // Pagination (cursor for the next page, null when all pages are loaded)
+  nextCursor: string | null;
+  totalActions: number;
+  hasLoadedActions: boolean;
+  actionsRequestId: string | null;
+
   // Filters
-  filters: {
-    type: GovernanceActionType;
-    searchQuery: string;
-    voteFilter: VoteType;
-  };
+  filters: GovernanceFilters;
 
   // Loading states
   isLoadingActions: boolean;
+  isLoadingMoreActions: boolean;
   isLoadingDetail: boolean;
   isLoadingOverview: boolean;
   isLoadingNCL: boolean;
@@ -46,12 +56,13 @@ const initialState: GovernanceState = {
   selectedAction: null,
   overview: null,
   nclData: null,
-  filters: {
-    type: "All",
-    searchQuery: "",
-    voteFilter: "All",
-  },
+  nextCursor: null,
+  totalActions: 0,
+  hasLoadedActions: false,
+  actionsRequestId: null,
+  filters: DEFAULT_GOVERNANCE_FILTERS,
   isLoadingActions: false,
+  isLoadingMoreActions: false,
   isLoadingDetail: false,
   isLoadingOverview: false,
   isLoadingNCL: false,
@@ -61,12 +72,33 @@ const initialState: GovernanceState = {
   nclError: null,
 };
 
+/**
+ * Build the proposals query from the current filters
+ */
+function getProposalQuery(
+  filters: GovernanceFilters,
+  cursor?: string
+): ProposalQuery {
+  return {
+    cursor,
+    sort: filters.sort,
+    order: filters.order,
+    status: filters.status,
+    type: filters.type,
+    search: filters.searchQuery.trim() || undefined,
+    fromEpoch: filters.fromEpoch ?? undefined,
+    toEpoch: filters.toEpoch ?? undefined,
+  };
+}
+
 // Async thunks for API calls
+// Loads the first page for the current filters, replacing any loaded actions
 export const loadGovernanceActions = createAsyncThunk(
   "governance/loadActions",
-  async (_, { rejectWithValue }) => {
+  async (_, { getState, rejectWithValue }) => {
+    const { governance } = getState() as { governance: GovernanceState };
     try {
-      return await fetchGovernanceActions();
+      return await fetchGovernanceActions(getProposalQuery(governance.filters));
     } catch (error) {
       return rejectWithValue(
         error instanceof Error
@@ -77,6 +109,37 @@ export const loadGovernanceActions = createAsyncThunk(
   }
 );
 
+// Appends the next page of actions
+export const loadMoreGovernanceActions = createAsyncThunk(
+  "governance/loadMoreActions",
+  async (_, { getState, rejectWithValue }) => {
+    const { governance } = getState() as { governance: GovernanceState };
+    try {
+      const query = getProposalQuery(
+        governance.filters,
+        governance.nextCursor ?? undefined
+      );
+      return await fetchGovernanceActions(query);
+    } catch (error) {
+      return rejectWithValue(
+        error instanceof Error
+          ? error.message
+          : "Failed to load more governance actions"
+      );
+    }
+  },
+  {
+    condition: (_, { getState }) => {
+      const { governance } = getState() as { governance: GovernanceState };
+      return (
+        !!governance.nextCursor &&
+        !governance.isLoadingActions &&
+        !governance.isLoadingMoreActions
+      );
+    },
+  }
+);
+
 export const loadGovernanceActionDetail = createAsyncThunk(
   "governance/loadDetail",
   async (proposalId: string, { rejectWithValue }) => {
@@ -156,6 +219,32 @@ const governanceSlice = createSlice({
     setTypeFilter: (state, action: PayloadAction<GovernanceActionType>) => {
       state.filters.type = action.payload;
     },
+    setStatusFilter: (
+      state,
+      action: PayloadAction<GovernanceActionStatus>
+    ) => {
+      state.filters.status = action.payload;
+    },
+    setSort: (
+      state,
+      action: PayloadAction<{ sort: ProposalSortKey; order: SortOrder }>
+    ) => {
+      state.filters.sort = action.payload.sort;
+      state.filters.order = action.payload.order;
+    },
+    setEpochRange: (
+      state,
+      action: PayloadAction<{
+        fromEpoch: number | null;
+        toEpoch: number | null;
+      }>
+    ) => {
+      state.filters.fromEpoch = action.payload.fromEpoch;
+      state.filters.toEpoch = action.payload.toEpoch;
+    },
+    setFilters: (state, action: PayloadAction<Partial<GovernanceFilters>>) => {
+      state.filters = { ...state.filters, ...action.payload };
+    },
     setSearchQuery: (state, action: PayloadAction<string>) => {
       state.filters.searchQuery = action.payload;
     },
@@ -173,21 +262,55 @@ const governanceSlice = createSlice({
     },
   },
   extraReducers: (builder) => {
+    // Loaded data belongs to the previous network, filters are kept
+    builder.addCase(setNetwork, (state) => ({
+      ...initialState,
+      filters: state.filters,
+    }));
+
     // Load governance actions
+    // Responses from superseded requests (e.g. after a filter change) are ignored
     builder
-      .addCase(loadGovernanceActions.pending, (state) => {
+      .addCase(loadGovernanceActions.pending, (state, action) => {
         state.isLoadingActions = true;
+        state.isLoadingMoreActions = false;
         state.actionsError = null;
+        state.actionsRequestId = action.meta.requestId;
       })
       .addCase(loadGovernanceActions.fulfilled, (state, action) => {
+        if (state.actionsRequestId !== action.meta.requestId) return;
         state.isLoadingActions = false;
-        state.actions = action.payload;
+        state.hasLoadedActions = true;
+        state.actions = action.payload.items;
+        state.nextCursor = action.payload.nextCursor;
+        state.totalActions = action.payload.total;
       })
       .addCase(loadGovernanceActions.rejected, (state, action) => {
+        if (state.actionsRequestId !== action.meta.requestId) return;
         state.isLoadingActions = false;
         state.actionsError = action.payload as string;
       });
 
+    // Load more governance actions
+    builder
+      .addCase(loadMoreGovernanceActions.pending, (state, action) => {
+        state.isLoadingMoreActions = true;
+        state.actionsError = null;
+        state.actionsRequestId = action.meta.requestId;
+      })
+      .addCase(loadMoreGovernanceActions.fulfilled, (state, action) => {
+        if (state.actionsRequestId !== action.meta.requestId) return;
+        state.isLoadingMoreActions = false;
+        state.actions = [...state.actions, ...action.payload.items];
+        state.nextCursor = action.payload.nextCursor;
+        state.totalActions = action.payload.total;
+      })
+      .addCase(loadMoreGovernanceActions.rejected, (state, action) => {
+        if (state.actionsRequestId !== action.meta.requestId) return;
+        state.isLoadingMoreActions = false;
+        state.actionsError = action.payload as string;
+      });
+
     // Load governance action detail
     builder
       .addCase(loadGovernanceActionDetail.pending, (state) => {
@@ -241,6 +364,10 @@ export const {
   setOverview,
   setNCLData,
   setTypeFilter,
+  setStatusFilter,
+  setSort,
+  setEpochRange,
+  setFilters,
   setSearchQuery,
   setVoteFilter,
   resetFilters,
@@ -1,9 +1,15 @@
 import { configureStore } from "@reduxjs/toolkit";
 import governanceReducer from "./governanceSlice";
+import voteBasketReducer from "./voteBasketSlice";
+import networkReducer from "./networkSlice";
+import pendingVotesReducer from "./pendingVotesSlice";
 
 export const store = configureStore({
   reducer: {
     governance: governanceReducer,
+    voteBasket: voteBasketReducer,
+    network: networkReducer,
+    pendingVotes: pendingVotesReducer,
   },
 });
 
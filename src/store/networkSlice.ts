@@ -0,0 +1,57 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { DEFAULT_NETWORK, type CardanoNetwork } from "@/lib/cardanoTime";
+import { NETWORK_STORAGE_KEY, isCardanoNetwork } from "@/lib/network";
+import { setApiNetwork } from "@/services/api";
+import type { AppDispatch } from "./index";
+
+interface NetworkState {
+  network: CardanoNetwork;
+}
+
+const initialState: NetworkState = {
+  network: DEFAULT_NETWORK,
+};
+
+const networkSlice = createSlice({
+  name: "network",
+  initialState,
+  reducers: {
+    setNetwork: (state, action: PayloadAction<CardanoNetwork>) => {
+      state.network = action.payload;
+    },
+  },
+});
+
+export const { setNetwork } = networkSlice.actions;
+
+/**
+ * Switch the network used by API calls, explorer links and epoch dates
+ * Loaded governance data and basket items are dropped by their slices
+ */
+export const changeNetwork =
+  (network: CardanoNetwork) => (dispatch: AppDispatch) => {
+    setApiNetwork(network);
+    try {
+      localStorage.setItem(NETWORK_STORAGE_KEY, network);
+    } catch {
+      // Storage may be unavailable (private mode), the selection still applies
+    }
+    dispatch(setNetwork(network));
+  };
+
+/**
+ * Restore the network selected in a previous session
+ */
+export const restoreNetwork = () => (dispatch: AppDispatch) => {
+  let stored: string | null = null;
+  try {
+    stored = localStorage.getItem(NETWORK_STORAGE_KEY);
+  } catch {
+    return;
+  }
+  if (isCardanoNetwork(stored) && stored !== DEFAULT_NETWORK) {
+    dispatch(changeNetwork(stored));
+  }
+};
+
+export default networkSlice.reducer;
@@ -0,0 +1,248 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import type { CardanoNetwork } from "@/lib/cardanoTime";
+import { isCardanoNetwork } from "@/lib/network";
+import { isValidTxHash, pollTxStatus } from "@/lib/txStatus";
+import { fetchTxStatus } from "@/services/api";
+import type { TxStatus, VoteChoice } from "@/types/governance";
+import { loadGovernanceActionDetail } from "./governanceSlice";
+import type { AppDispatch, RootState } from "./index";
+
+// localStorage key for submitted votes that are not confirmed yet
+export const PENDING_VOTES_STORAGE_KEY = "cgov.pendingVotes";
+
+// Votes older than this are dropped on load whatever their state
+const PENDING_VOTE_MAX_AGE_MS = 7 * 24 * 60 * 60_000;
+
+/**
+ * A submitted vote tracked until the indexer has processed it
+ * A batch vote tx adds one entry per action, all sharing the tx hash
+ */
+export interface PendingVote {
+  txHash: string;
+  actionId: string; // Routing hash (txHash:certIndex) of the voted action
+  title: string;
+  vote: VoteChoice;
+  network: CardanoNetwork;
+  submittedAt: string; // ISO timestamp
+  status: TxStatus | null; // Last known confirmation status
+  isTimedOut: boolean; // Tracking stopped before the tx was indexed
+}
+
+interface PendingVotesState {
+  items: PendingVote[];
+}
+
+const initialState: PendingVotesState = {
+  items: [],
+};
+
+export function isPendingVoteConfirmed(vote: PendingVote): boolean {
+  return vote.status?.state === "indexed";
+}
+
+const pendingVotesSlice = createSlice({
+  name: "pendingVotes",
+  initialState,
+  reducers: {
+    setPendingVotes: (state, action: PayloadAction<PendingVote[]>) => {
+      state.items = action.payload;
+    },
+    addPendingVotes: (state, action: PayloadAction<PendingVote[]>) => {
+      const added = action.payload.filter(
+        (vote) =>
+          !state.items.some(
+            (item) =>
+              item.txHash === vote.txHash && item.actionId === vote.actionId
+          )
+      );
+      state.items.push(...added);
+    },
+    setPendingVoteStatus: (
+      state,
+      action: PayloadAction<{ txHash: string; status: TxStatus }>
+    ) => {
+      for (const item of state.items) {
+        if (item.txHash === action.payload.txHash) {
+          item.status = action.payload.status;
+        }
+      }
+    },
+    setPendingVoteTimedOut: (
+      state,
+      action: PayloadAction<{ txHash: string; isTimedOut: boolean }>
+    ) => {
+      for (const item of state.items) {
+        if (item.txHash === action.payload.txHash) {
+          item.isTimedOut = action.payload.isTimedOut;
+        }
+      }
+    },
+    removePendingVotes: (state, action: PayloadAction<string>) => {
+      state.items = state.items.filter(
+        (item) => item.txHash !== action.payload
+      );
+    },
+    clearConfirmedVotes: (state) => {
+      state.items = state.items.filter(
+        (item) => !isPendingVoteConfirmed(item)
+      );
+    },
+  },
+});
+
+export const {
+  setPendingVotes,
+  addPendingVotes,
+  setPendingVoteStatus,
+  setPendingVoteTimedOut,
+  removePendingVotes,
+  clearConfirmedVotes,
+} = pendingVotesSlice.actions;
+
+function savePendingVotes(items: PendingVote[]) {
+  try {
+    localStorage.setItem(PENDING_VOTES_STORAGE_KEY, JSON.stringify(items));
+  } catch {
+    // Storage may be unavailable (private mode), tracking still works in memory
+  }
+}
+
+function isPendingVote(value: unknown): value is PendingVote {
+  const vote = value as PendingVote;
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof vote.txHash === "string" &&
+    isValidTxHash(vote.txHash) &&
+    typeof vote.actionId === "string" &&
+    typeof vote.title === "string" &&
+    ["Yes", "No", "Abstain"].includes(vote.vote) &&
+    isCardanoNetwork(vote.network) &&
+    !Number.isNaN(Date.parse(vote.submittedAt))
+  );
+}
+
+/**
+ * Parse stored pending votes, dropping malformed and expired entries
+ */
+export function parsePendingVotes(raw: string | null): PendingVote[] {
+  if (!raw) return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return [];
+    const cutoff = Date.now() - PENDING_VOTE_MAX_AGE_MS;
+    return parsed
+      .filter(isPendingVote)
+      .filter((vote) => Date.parse(vote.submittedAt) > cutoff)
+      .map((vote) => ({
+        ...vote,
+        status: vote.status ?? null,
+        isTimedOut: Boolean(vote.isTimedOut),
+      }));
+  } catch {
+    return [];
+  }
+}
+
+// Polls in flight, keyed by tx hash, so each tx is tracked once per tab
+const watchers = new Map<string, AbortController>();
+
+/**
+ * Poll a pending vote tx until it is indexed or tracking times out
+ * The voted action is reloaded when it is the one on screen
+ */
+export const watchPendingVote =
+  (txHash: string) =>
+  async (dispatch: AppDispatch, getState: () => RootState) => {
+    if (watchers.has(txHash)) return;
+    const controller = new AbortController();
+    watchers.set(txHash, controller);
+    dispatch(setPendingVoteTimedOut({ txHash, isTimedOut: false }));
+
+    const lastStatus = await pollTxStatus(txHash, {
+      fetchStatus: fetchTxStatus,
+      signal: controller.signal,
+      onStatus: (status) => {
+        dispatch(setPendingVoteStatus({ txHash, status }));
+        savePendingVotes(getState().pendingVotes.items);
+      },
+    });
+    if (controller.signal.aborted) return;
+    watchers.delete(txHash);
+
+    if (lastStatus?.state === "indexed") {
+      const selectedHash = getState().governance.selectedAction?.hash;
+      const votedActions = getState()
+        .pendingVotes.items.filter((item) => item.txHash === txHash)
+        .map((item) => item.actionId);
+      if (selectedHash && votedActions.includes(selectedHash)) {
+        dispatch(loadGovernanceActionDetail(selectedHash));
+      }
+    } else {
+      dispatch(setPendingVoteTimedOut({ txHash, isTimedOut: true }));
+    }
+    savePendingVotes(getState().pendingVotes.items);
+  };
+
+/**
+ * Stop polling every pending vote tx
+ * Used when the selected network changes, since status checks follow it
+ */
+export function stopPendingVoteWatchers() {
+  watchers.forEach((controller) => controller.abort());
+  watchers.clear();
+}
+
+/**
+ * Record submitted votes and start tracking their tx
+ */
+export const trackPendingVotes =
+  (votes: Omit<PendingVote, "status" | "isTimedOut">[]) =>
+  (dispatch: AppDispatch, getState: () => RootState) => {
+    if (votes.length === 0) return;
+    dispatch(
+      addPendingVotes(
+        votes.map((vote) => ({ ...vote, status: null, isTimedOut: false }))
+      )
+    );
+    savePendingVotes(getState().pendingVotes.items);
+    for (const txHash of new Set(votes.map((vote) => vote.txHash))) {
+      dispatch(watchPendingVote(txHash));
+    }
+  };
+
+/**
+ * Stop tracking a tx and forget its votes
+ */
+export const dismissPendingVotes =
+  (txHash: string) => (dispatch: AppDispatch, getState: () => RootState) => {
+    watchers.get(txHash)?.abort();
+    watchers.delete(txHash);
+    dispatch(removePendingVotes(txHash));
+    savePendingVotes(getState().pendingVotes.items);
+  };
+
+/**
+ * Forget votes the indexer has already processed
+ */
+export const dismissConfirmedVotes =
+  () => (dispatch: AppDispatch, getState: () => RootState) => {
+    dispatch(clearConfirmedVotes());
+    savePendingVotes(getState().pendingVotes.items);
+  };
+
+/**
+ * Load pending votes saved by a previous session or another tab
+ * Tracking is resumed separately, for the selected network only
+ */
+export const restorePendingVotes = () => (dispatch: AppDispatch) => {
+  let stored: string | null = null;
+  try {
+    stored = localStorage.getItem(PENDING_VOTES_STORAGE_KEY);
+  } catch {
+    return;
+  }
+  dispatch(setPendingVotes(parsePendingVotes(stored)));
+};
+
+export default pendingVotesSlice.reducer;
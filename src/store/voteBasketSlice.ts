@@ -0,0 +1,85 @@
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import type { VoteChoice, VoterType } from "@/types/governance";
+import { setNetwork } from "./networkSlice";
+
+/**
+ * A pending vote collected in the basket for batch submission
+ */
+export interface VoteBasketItem {
+  actionHash: string; // Routing hash (txHash:certIndex)
+  txHash: string;
+  certIndex: number;
+  title: string;
+  vote: VoteChoice;
+  anchorUrl: string;
+  voterRoles: VoterType[];
+}
+
+interface VoteBasketState {
+  items: VoteBasketItem[];
+}
+
+const initialState: VoteBasketState = {
+  items: [],
+};
+
+const voteBasketSlice = createSlice({
+  name: "voteBasket",
+  initialState,
+  reducers: {
+    addBasketItem: (state, action: PayloadAction<VoteBasketItem>) => {
+      const exists = state.items.some(
+        (item) => item.actionHash === action.payload.actionHash
+      );
+      if (!exists) {
+        state.items.push(action.payload);
+      }
+    },
+    removeBasketItem: (state, action: PayloadAction<string>) => {
+      state.items = state.items.filter(
+        (item) => item.actionHash !== action.payload
+      );
+    },
+    setBasketVote: (
+      state,
+      action: PayloadAction<{ actionHash: string; vote: VoteChoice }>
+    ) => {
+      const item = state.items.find(
+        (i) => i.actionHash === action.payload.actionHash
+      );
+      if (item) {
+        item.vote = action.payload.vote;
+      }
+    },
+    setBasketAnchorUrl: (
+      state,
+      action: PayloadAction<{ actionHash: string; anchorUrl: string }>
+    ) => {
+      const item = state.items.find(
+        (i) => i.actionHash === action.payload.actionHash
+      );
+      if (item) {
+        item.anchorUrl = action.payload.anchorUrl;
+      }
+    },
+    clearBasket: (state) => {
+      state.items = [];
+    },
+  },
+  extraReducers: (builder) => {
+    // Basket items reference actions on the previous network
+    builder.addCase(setNetwork, (state) => {
+      state.items = [];
+    });
+  },
+});
+
+export const {
+  addBasketItem,
+  removeBasketItem,
+  setBasketVote,
+  setBasketAnchorUrl,
+  clearBasket,
+} = voteBasketSlice.actions;
+
+export default voteBasketSlice.reducer;
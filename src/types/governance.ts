@@ -43,6 +43,8 @@ export interface GovernanceAction {
   type: string; // Governance action type label
   status: "Active" | "Ratified" | "Enacted" | "Expired" | "Closed";
   constitutionality: string;
+  // Parameter groups touched by a Protocol Parameter Change, when the API provides them
+  protocolParamGroups?: ProtocolParamGroup[];
 
   // DRep voting data (flattened for easy access)
   drepYesPercent: number;
@@ -83,12 +85,17 @@ export interface GovernanceAction {
   cc?: CCGovernanceActionVoteInfo;
 }
 
+/**
+ * Voter bodies that can cast governance votes
+ */
+export type VoterType = "DRep" | "SPO" | "CC";
+
 /**
  * Individual vote record
  * Matches the API response for vote details
  */
 export interface VoteRecord {
-  voterType?: "DRep" | "SPO" | "CC";
+  voterType?: VoterType;
   voterId?: string;
   voterName?: string;
   // Legacy fields for backwards compatibility
@@ -103,14 +110,48 @@ export interface VoteRecord {
 }
 
 /**
- * Detailed governance action with full description and vote records
- * Matches the API response from /proposal/:id
+ * Vote choices that can be cast on a governance action
+ */
+export type VoteChoice = VoteRecord["vote"];
+
+/**
+ * Query parameters for the paginated vote listing endpoint
+ */
+export interface VoteQuery {
+  cursor?: string;
+  limit?: number;
+  search?: string;
+  vote?: VoteChoice;
+  voterType?: VoterType;
+}
+
+/**
+ * A page of vote records
+ * counts cover all votes on the action, regardless of filters
+ */
+export interface VotePage {
+  items: VoteRecord[];
+  nextCursor: string | null;
+  total: number;
+  counts: {
+    total: number;
+    yes: number;
+    no: number;
+    abstain: number;
+  };
+}
+
+/**
+ * Detailed governance action with full description
+ * Matches the API response from /proposal/:id, without its inline votes;
+ * those are listed through /proposal/:id/votes
  */
 export interface GovernanceActionDetail extends GovernanceAction {
   description?: string;
   rationale?: string;
-  votes?: VoteRecord[]; // DRep and SPO votes
-  ccVotes?: VoteRecord[]; // Constitutional Committee votes
+  // On-chain metadata anchor
+  anchorUrl?: string;
+  anchorHash?: string;
 }
 
 /**
@@ -126,6 +167,76 @@ export type GovernanceActionType =
   | "No Confidence"
   | "Update Committee";
 
+/**
+ * Concrete governance action types (excludes the "All" filter option)
+ */
+export type GovernanceActionKind = Exclude<GovernanceActionType, "All">;
+
+/**
+ * Protocol parameter groups used for Protocol Parameter Change thresholds
+ */
+export type ProtocolParamGroup =
+  | "network"
+  | "economic"
+  | "technical"
+  | "governance"
+  | "security";
+
+/**
+ * Governance action status filter options
+ */
+export type GovernanceActionStatus = "All" | GovernanceAction["status"];
+
+/**
+ * Sort keys supported by the proposals endpoint
+ */
+export type ProposalSortKey =
+  | "submissionEpoch"
+  | "expiryEpoch"
+  | "drepYesPercent";
+
+export type SortOrder = "asc" | "desc";
+
+/**
+ * Query parameters for the paginated proposals endpoint
+ */
+export interface ProposalQuery {
+  cursor?: string;
+  limit?: number;
+  sort?: ProposalSortKey;
+  order?: SortOrder;
+  status?: GovernanceActionStatus;
+  type?: GovernanceActionType;
+  search?: string;
+  fromEpoch?: number;
+  toEpoch?: number;
+}
+
+/**
+ * Dashboard and vote record filters held in the governance slice
+ * Mirrored into the URL so filtered views can be shared
+ */
+export interface GovernanceFilters {
+  type: GovernanceActionType;
+  status: GovernanceActionStatus;
+  searchQuery: string;
+  voteFilter: VoteType;
+  sort: ProposalSortKey;
+  order: SortOrder;
+  fromEpoch: number | null;
+  toEpoch: number | null;
+}
+
+/**
+ * A page of governance actions
+ * nextCursor is null on the last page
+ */
+export interface ProposalPage {
+  items: GovernanceAction[];
+  nextCursor: string | null;
+  total: number;
+}
+
 /**
  * Vote type filter options
  */
@@ -170,3 +281,154 @@ export interface NCLDisplayData {
   epoch: number;
   updatedAt: string;
 }
+
+/**
+ * Progress of a submitted transaction
+ * pending: not seen yet, mempool: awaiting inclusion,
+ * onchain: in a block, indexed: processed by the governance indexer
+ */
+export type TxConfirmationState = "pending" | "mempool" | "onchain" | "indexed";
+
+/**
+ * Transaction status from the API
+ * Matches the API response from /tx/:hash
+ */
+export interface TxStatus {
+  txHash: string;
+  state: TxConfirmationState;
+  confirmations: number; // Blocks on top of the including block, 0 until on-chain
+  blockHeight: number | null;
+  blockTime: string | null;
+}
+
+/**
+ * Result of comparing an anchor document with its on-chain hash
+ * unreachable: the document could not be fetched, so nothing was compared
+ */
+export type AnchorVerificationStatus = "verified" | "mismatch" | "unreachable";
+
+/**
+ * Server-side check of a governance action's metadata anchor
+ * Matches the API response from /api/proposal/:id/anchor
+ */
+export interface AnchorVerification {
+  status: AnchorVerificationStatus;
+  anchorUrl: string;
+  expectedHash: string; // On-chain anchor hash
+  computedHash: string | null; // Blake2b-256 of the fetched document
+  content: string | null; // Raw document, null when unreachable
+  error: string | null;
+}
+
+/**
+ * Reachability of a metadata reference link
+ * Matches the API response from /api/anchor/check
+ */
+export interface AnchorLinkCheck {
+  reachable: boolean;
+  error: string | null;
+}
+
+/**
+ * DRep registration state from the API
+ * Matches the API response from /drep/:id/registration
+ * Values are in lovelace (string for BigInt serialization)
+ */
+export interface DRepRegistration {
+  drepId: string;
+  isRegistered: boolean;
+  deposit: string | null; // Deposit paid at registration, refunded on retirement
+  anchorUrl: string | null;
+  anchorHash: string | null;
+  drepDeposit: string; // Current protocol deposit for new registrations
+}
+
+/**
+ * A vote cast by a DRep, with the current status of the voted action
+ * Matches the vote items of the API response from /drep/:id
+ */
+export interface DRepVoteRecord {
+  actionId: string; // Routing hash (txHash:certIndex) of the voted action
+  actionTitle: string;
+  actionType: string; // Governance action type label
+  actionStatus: GovernanceAction["status"];
+  vote: VoteChoice;
+  anchorUrl?: string;
+  anchorHash?: string;
+  votedAt: string;
+}
+
+/**
+ * Public profile of a DRep with its full voting history
+ * Matches the API response from /drep/:id
+ * Values are in lovelace (string for BigInt serialization)
+ */
+export interface DRepProfile {
+  drepId: string;
+  isRegistered: boolean;
+  isActive: boolean; // false once inactive for longer than drepActivity
+  votingPower: string; // Stake currently delegated to the DRep
+  delegatorCount: number;
+  anchorUrl: string | null; // CIP-119 metadata
+  anchorHash: string | null;
+  // Actions open for DRep votes while registered, null if unknown
+  eligibleActionCount: number | null;
+  votes: DRepVoteRecord[]; // Latest first
+}
+
+/**
+ * Where a stake credential delegates its voting power
+ * DReps are identified by their CIP-129 or CIP-105 bech32 ID
+ */
+export type VoteDelegationTarget =
+  | { type: "drep"; drepId: string; drepName?: string | null }
+  | { type: "abstain" }
+  | { type: "no_confidence" };
+
+/**
+ * Stake account delegation state from the API
+ * Matches the API response from /account/:stakeAddress/delegation
+ * Values are in lovelace (string for BigInt serialization)
+ */
+export interface AccountDelegation {
+  stakeAddress: string;
+  isRegistered: boolean;
+  delegation: VoteDelegationTarget | null; // null when not delegated
+  stakeKeyDeposit: string; // Current protocol deposit for stake key registration
+}
+
+/**
+ * Governance purposes whose actions must reference the last enacted action
+ */
+export type GovernancePurpose =
+  | "protocolParameters"
+  | "hardFork"
+  | "committee"
+  | "constitution";
+
+/**
+ * Ledger state needed to submit a governance action
+ * Matches the API response from /governance/proposal-parameters
+ * Values are in lovelace (string for BigInt serialization)
+ */
+export interface ProposalParameters {
+  govActionDeposit: string;
+  govActionLifetime: number; // Epochs an action stays open for voting
+  // Last enacted action per purpose as txHash#index, null if none yet
+  previousActionIds: Record<GovernancePurpose, string | null>;
+  // Guardrails script of the current constitution on the selected network
+  constitutionScriptHash: string;
+}
+
+/**
+ * Protocol parameters that set transaction fees and minimum output values
+ * Matches the API response from /governance/fee-parameters
+ */
+export interface FeeParameters {
+  minFeeA: number; // Lovelace per byte of the serialized tx
+  minFeeB: number; // Lovelace added to every tx
+  coinsPerUtxoSize: number; // Lovelace per byte of an output
+  priceMem: number; // Lovelace per unit of script memory
+  priceStep: number; // Lovelace per script CPU step
+  maxTxSize: number; // Bytes
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { checkAnchorLink, fetchAnchorDocument } from "./anchorHelper";
+
+describe("fetchAnchorDocument", () => {
+  it.each([
+    "http://127.0.0.1/anchor.json",
+    "http://10.1.2.3/anchor.json",
+    "http://169.254.169.254/latest/meta-data",
+    "http://[::1]/anchor.json",
+    "http://[::]/anchor.json",
+    "http://[fd00::1]/anchor.json",
+    "http://[fe80::1]/anchor.json",
+    "http://[::ffff:127.0.0.1]/anchor.json",
+    "http://[::ffff:7f00:1]/anchor.json",
+    "http://[0:0:0:0:0:ffff:a9fe:a9fe]/anchor.json",
+    "http://[::127.0.0.1]/anchor.json",
+    "http://[64:ff9b::127.0.0.1]/anchor.json",
+    "http://[64:ff9b::a00:1]/anchor.json",
+    "http://[64:ff9b:1::8.8.8.8]/anchor.json",
+  ])("rejects the private address in %s", async (url) => {
+    await expect(fetchAnchorDocument(url)).rejects.toThrow(
+      "Anchor host is not on a public network"
+    );
+  });
+
+  it("rejects other protocols", async () => {
+    await expect(fetchAnchorDocument("file:///etc/passwd")).rejects.toThrow(
+      "Only http(s) and ipfs:// anchors are supported"
+    );
+  });
+});
+
+describe("checkAnchorLink", () => {
+  it("applies the same private network checks", async () => {
+    await expect(
+      checkAnchorLink("http://[::ffff:192.168.0.1]/")
+    ).rejects.toThrow("Anchor host is not on a public network");
+  });
+});
@@ -0,0 +1,337 @@
+/**
+ * Server-side anchor fetching
+ * Downloads anchor documents so their hash can be checked on the server and
+ * browsers never contact anchor hosts directly
+ */
+
+import { lookup } from "dns/promises";
+import http, { type IncomingMessage } from "http";
+import https from "https";
+import { isIP, type LookupFunction } from "net";
+import { hashAnchorContent } from "@/lib/anchor";
+
+// Anchor documents are small JSON-LD files, anything bigger is rejected
+export const MAX_ANCHOR_SIZE = 2 * 1024 * 1024;
+const ANCHOR_FETCH_TIMEOUT_MS = 10_000;
+const MAX_REDIRECTS = 3;
+
+// Tried in order until one serves the document
+const IPFS_GATEWAYS = [
+  "https://ipfs.io/ipfs/",
+  "https://dweb.link/ipfs/",
+  "https://gateway.pinata.cloud/ipfs/",
+];
+
+// Documents are cached per URL and content hash, so an entry never goes stale
+const MAX_CACHED_ANCHORS = 500;
+const anchorCache = new Map<string, Uint8Array>();
+
+// IPv6 prefixes (first six hextets) that embed an IPv4 address in the last 32 bits
+const IPV4_EMBEDDING_PREFIXES = [
+  "0:0:0:0:0:ffff", // IPv4-mapped, ::ffff:a.b.c.d
+  "0:0:0:0:0:0", // IPv4-compatible, ::a.b.c.d
+  "64:ff9b:0:0:0:0", // NAT64 well-known prefix
+];
+
+/**
+ * Expand an IPv6 address into its eight hextets, without leading zeros
+ * A trailing dotted IPv4 part is converted into the last two hextets
+ */
+function expandIPv6(address: string): string[] | null {
+  let ip = address;
+  const dotted = ip.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    if (isIP(dotted[1]) !== 4) return null;
+    const [a, b, c, d] = dotted[1].split(".").map(Number);
+    ip =
+      ip.slice(0, -dotted[1].length) +
+      `${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`;
+  }
+
+  const [head, tail] = ip.split("::");
+  const headParts = head ? head.split(":") : [];
+  const tailParts = tail ? tail.split(":") : [];
+  const missing = 8 - headParts.length - tailParts.length;
+  if (ip.includes("::") ? missing < 1 : missing !== 0) return null;
+  return [
+    ...headParts,
+    ...Array<string>(ip.includes("::") ? missing : 0).fill("0"),
+    ...tailParts,
+  ].map((part) => parseInt(part, 16).toString(16));
+}
+
+/**
+ * The IPv4 address embedded in an IPv4-mapped, IPv4-compatible or NAT64
+ * IPv6 address, so it gets the same range checks as a plain IPv4 address
+ */
+function toEmbeddedIPv4(address: string): string | null {
+  const hextets = expandIPv6(address);
+  if (!hextets) return null;
+  if (!IPV4_EMBEDDING_PREFIXES.includes(hextets.slice(0, 6).join(":"))) {
+    return null;
+  }
+  const high = parseInt(hextets[6], 16);
+  const low = parseInt(hextets[7], 16);
+  return [high >> 8, high & 0xff, low >> 8, low & 0xff].join(".");
+}
+
+/**
+ * Whether an IP address is loopback, private, link-local or otherwise not
+ * on the public internet
+ */
+function isPrivateAddress(address: string): boolean {
+  let ip = address.toLowerCase().replace(/^\[|\]$/g, "");
+  if (isIP(ip) === 6) {
+    ip = toEmbeddedIPv4(ip) ?? ip;
+  }
+
+  if (isIP(ip) === 4) {
+    const [a, b] = ip.split(".").map(Number);
+    return (
+      a === 0 ||
+      a === 10 ||
+      a === 127 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19)) ||
+      a >= 224
+    );
+  }
+
+  return (
+    isIP(ip) !== 6 ||
+    ip.startsWith("64:ff9b:1:") || // Local-use NAT64
+    ip.startsWith("fc") ||
+    ip.startsWith("fd") ||
+    /^fe[89ab]/.test(ip) ||
+    ip.startsWith("ff")
+  );
+}
+
+interface PublicAddress {
+  address: string;
+  family: 4 | 6;
+}
+
+/**
+ * Resolve a URL's host to the address the request must connect to
+ * @throws Error if the URL is not http(s) or resolves to a private address
+ */
+async function resolvePublicAddress(url: URL): Promise<PublicAddress> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error("Only http(s) and ipfs:// anchors are supported");
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  const family = isIP(hostname);
+  const addresses =
+    family === 4 || family === 6
+      ? [{ address: hostname, family }]
+      : await lookup(hostname, { all: true });
+  if (
+    addresses.length === 0 ||
+    addresses.some((entry) => isPrivateAddress(entry.address))
+  ) {
+    throw new Error("Anchor host is not on a public network");
+  }
+  const [{ address }] = addresses;
+  return { address, family: isIP(address) === 6 ? 6 : 4 };
+}
+
+/**
+ * DNS lookup that always answers with the already checked address
+ * Stops the host from re-resolving to a private address between the check
+ * and the connection (DNS rebinding)
+ */
+function pinnedLookup({ address, family }: PublicAddress): LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) {
+      callback(null, [{ address, family }]);
+    } else {
+      callback(null, address, family);
+    }
+  };
+}
+
+/**
+ * Send one request to the checked address
+ * The URL's host name is still used for TLS and the Host header
+ */
+function sendRequest(
+  url: URL,
+  method: "GET" | "HEAD",
+  address: PublicAddress
+): Promise<IncomingMessage> {
+  const client = url.protocol === "https:" ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.request(url, {
+      method,
+      lookup: pinnedLookup(address),
+      signal: AbortSignal.timeout(ANCHOR_FETCH_TIMEOUT_MS),
+    });
+    request.on("response", resolve);
+    request.on("error", reject);
+    request.end();
+  });
+}
+
+/**
+ * Read a response body, stopping as soon as it exceeds MAX_ANCHOR_SIZE
+ */
+async function readLimited(response: IncomingMessage): Promise<Uint8Array> {
+  const declaredSize = Number(response.headers["content-length"]);
+  if (declaredSize > MAX_ANCHOR_SIZE) {
+    response.destroy();
+    throw new Error("Anchor document is too large");
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for await (const chunk of response as AsyncIterable<Uint8Array>) {
+    size += chunk.byteLength;
+    if (size > MAX_ANCHOR_SIZE) {
+      response.destroy();
+      throw new Error("Anchor document is too large");
+    }
+    chunks.push(chunk);
+  }
+
+  const content = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    content.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return content;
+}
+
+/**
+ * Request one http(s) URL
+ * Redirects are followed by hand so every hop is checked against private
+ * networks, and each connection is pinned to the address that was checked
+ * @returns the final, non-redirect response
+ */
+async function requestPublicUrl(
+  url: string,
+  method: "GET" | "HEAD"
+): Promise<IncomingMessage> {
+  let target = new URL(url);
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    const address = await resolvePublicAddress(target);
+    const response = await sendRequest(target, method, address);
+
+    const status = response.statusCode ?? 0;
+    const location = response.headers.location;
+    if (status >= 300 && status < 400 && location) {
+      response.destroy();
+      target = new URL(location, target);
+      continue;
+    }
+    return response;
+  }
+  throw new Error("Anchor host redirected too many times");
+}
+
+function isOk(response: IncomingMessage): boolean {
+  const status = response.statusCode ?? 0;
+  return status >= 200 && status < 300;
+}
+
+async function fetchPublicUrl(url: string): Promise<Uint8Array> {
+  const response = await requestPublicUrl(url, "GET");
+  if (!isOk(response)) {
+    response.destroy();
+    throw new Error(`Anchor host responded with ${response.statusCode}`);
+  }
+  return readLimited(response);
+}
+
+/**
+ * Gateway URLs to try for an anchor, or the anchor itself for http(s)
+ */
+function toHttpUrls(anchorUrl: string): string[] {
+  const trimmed = anchorUrl.trim();
+  if (trimmed.startsWith("ipfs://")) {
+    const path = trimmed.slice("ipfs://".length).replace(/^ipfs\//, "");
+    return IPFS_GATEWAYS.map((gateway) => gateway + path);
+  }
+  return [trimmed];
+}
+
+/**
+ * Fetch the raw bytes of an anchor document
+ * ipfs:// anchors go through each gateway in IPFS_GATEWAYS until one succeeds
+ * @param expectedHash - serves a cached copy of this URL with this content
+ * hash if there is one
+ * @throws Error if the URL is unsupported, points at a private network,
+ * every request fails or times out, or the document exceeds MAX_ANCHOR_SIZE
+ */
+export async function fetchAnchorDocument(
+  anchorUrl: string,
+  expectedHash?: string
+): Promise<Uint8Array> {
+  // The URL is part of the key, so a hash alone never serves another
+  // URL's document
+  const cached = expectedHash
+    ? anchorCache.get(toCacheKey(anchorUrl, expectedHash))
+    : undefined;
+  if (cached) return cached;
+
+  let lastError: unknown = null;
+  for (const url of toHttpUrls(anchorUrl)) {
+    try {
+      const content = await fetchPublicUrl(url);
+      cacheAnchorDocument(anchorUrl, content);
+      return content;
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError instanceof Error
+    ? lastError
+    : new Error("Failed to fetch anchor");
+}
+
+/**
+ * Check that a metadata reference link resolves, without downloading it
+ * Hosts that reject HEAD requests are retried with GET
+ * @throws Error if the URL is unsupported, points at a private network or
+ * no request gets a successful response
+ */
+export async function checkAnchorLink(anchorUrl: string): Promise<void> {
+  let lastError: unknown = null;
+  for (const url of toHttpUrls(anchorUrl)) {
+    try {
+      let response = await requestPublicUrl(url, "HEAD");
+      if (response.statusCode === 405 || response.statusCode === 501) {
+        response.destroy();
+        response = await requestPublicUrl(url, "GET");
+      }
+      response.destroy();
+      if (isOk(response)) return;
+      lastError = new Error(`Link host responded with ${response.statusCode}`);
+    } catch (error) {
+      lastError = error;
+    }
+  }
+  throw lastError instanceof Error
+    ? lastError
+    : new Error("Failed to check link");
+}
+
+function toCacheKey(anchorUrl: string, hash: string): string {
+  return `${anchorUrl.trim()}|${hash.trim().toLowerCase()}`;
+}
+
+function cacheAnchorDocument(anchorUrl: string, content: Uint8Array) {
+  const key = toCacheKey(anchorUrl, hashAnchorContent(content));
+  anchorCache.delete(key);
+  anchorCache.set(key, content);
+  // Map keeps insertion order, so the first key is the least recently added
+  if (anchorCache.size > MAX_CACHED_ANCHORS) {
+    const oldest = anchorCache.keys().next().value;
+    if (oldest !== undefined) anchorCache.delete(oldest);
+  }
+}
@@ -0,0 +1,30 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { getPublicBaseUrl } from "./apiHelper";
+
+describe("getPublicBaseUrl", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("is null when PUBLIC_BASE_URL is not set", () => {
+    vi.stubEnv("PUBLIC_BASE_URL", "");
+    expect(getPublicBaseUrl()).toBe(null);
+  });
+
+  it("drops trailing slashes", () => {
+    vi.stubEnv("PUBLIC_BASE_URL", "https://gov.example.org/");
+    expect(getPublicBaseUrl()).toBe("https://gov.example.org");
+  });
+
+  it("keeps a base path", () => {
+    vi.stubEnv("PUBLIC_BASE_URL", " https://example.org/cgov// ");
+    expect(getPublicBaseUrl()).toBe("https://example.org/cgov");
+  });
+
+  it("rejects values that are not http(s) URLs", () => {
+    vi.stubEnv("PUBLIC_BASE_URL", "gov.example.org");
+    expect(getPublicBaseUrl()).toBe(null);
+    vi.stubEnv("PUBLIC_BASE_URL", "javascript:alert(1)");
+    expect(getPublicBaseUrl()).toBe(null);
+  });
+});
@@ -4,24 +4,84 @@
  * This runs on the server side only, keeping the API key secure
  */
 
-import { NextApiResponse } from "next";
+import { NextApiRequest, NextApiResponse } from "next";
+import { DEFAULT_NETWORK, type CardanoNetwork } from "@/lib/cardanoTime";
+import { NETWORK_HEADER, isCardanoNetwork } from "@/lib/network";
 
 interface CallApiArgs {
   endpoint: string;
+  network?: CardanoNetwork;
   method?: string;
   headers?: Record<string, string>;
   body?: string;
   isJson?: boolean;
 }
 
+/**
+ * Network selected by the browser, sent in the X-Cardano-Network header
+ * Missing or unknown values fall back to the default network
+ * Hosted anchor documents skip this, external readers never send the header
+ */
+export function getRequestNetwork(req: NextApiRequest): CardanoNetwork {
+  const value = req.headers[NETWORK_HEADER.toLowerCase()];
+  return isCardanoNetwork(value) ? value : DEFAULT_NETWORK;
+}
+
+/**
+ * Public origin of this app, used in the URLs of hosted anchor documents
+ * Read from PUBLIC_BASE_URL instead of the Host and X-Forwarded-Proto headers,
+ * which the caller controls and could point an anchor at another host
+ * @returns the origin without a trailing slash, or null if PUBLIC_BASE_URL
+ * is unset or not an http(s) URL
+ */
+export function getPublicBaseUrl(): string | null {
+  const value = process.env.PUBLIC_BASE_URL?.trim();
+  if (!value) return null;
+  try {
+    const url = new URL(value);
+    if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+    return url.origin + url.pathname.replace(/\/+$/, "");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Backend URL and API key for a network
+ * Mainnet uses BACKEND_API_URL / BACKEND_API_KEY, testnets use the
+ * _PREPROD / _PREVIEW suffixed variables
+ * @throws Error if a testnet backend is not configured
+ */
+function getBackendConfig(network: CardanoNetwork) {
+  if (network === DEFAULT_NETWORK) {
+    return {
+      url: process.env.BACKEND_API_URL || "http://localhost:3001",
+      apiKey: process.env.BACKEND_API_KEY || "",
+    };
+  }
+
+  const suffix = network.toUpperCase();
+  const url = process.env[`BACKEND_API_URL_${suffix}`];
+  if (!url) {
+    throw new Error(`No backend is configured for ${network}`);
+  }
+  return {
+    url,
+    apiKey:
+      process.env[`BACKEND_API_KEY_${suffix}`] ||
+      process.env.BACKEND_API_KEY ||
+      "",
+  };
+}
+
 /**
  * Make a server-side API call to the backend
  * The API key is kept server-side and never exposed to the browser
  */
 export async function callApi(args: CallApiArgs) {
-  const backendApiUrl =
-    process.env.BACKEND_API_URL || "http://localhost:3001";
-  const backendApiKey = process.env.BACKEND_API_KEY || "";
+  const { url: backendApiUrl, apiKey: backendApiKey } = getBackendConfig(
+    args.network ?? DEFAULT_NETWORK
+  );
 
   const res = await fetch(backendApiUrl + args.endpoint, {
     method: args.method || "GET",